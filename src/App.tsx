@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { blink } from './blink/client'
 import MainMenu from './components/MainMenu'
+import DataStoreProvider from './components/DataStoreProvider'
 
 function App() {
   const [user, setUser] = useState(null)
@@ -44,7 +45,11 @@ function App() {
     )
   }
 
-  return <MainMenu />
+  return (
+    <DataStoreProvider>
+      <MainMenu />
+    </DataStoreProvider>
+  )
 }
 
 export default App
\ No newline at end of file
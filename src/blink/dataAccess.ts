@@ -0,0 +1,224 @@
+import { blink } from './client'
+import {
+  GeneralFund, GeneralFundNetCashflow, Portfolio, PortfolioPosition, Client, Household, FundRule, FundTypeExpectation,
+  PortfolioScenario, BenchmarkIndexLevel
+} from '../types'
+
+// Records persisted through the Blink database, keyed by collection name
+export interface PersistedCollections {
+  generalFunds: GeneralFund
+  generalFundCashflows: GeneralFundNetCashflow
+  portfolios: Portfolio
+  portfolioPositions: PortfolioPosition
+  clients: Client
+  households: Household
+  fundRules: FundRule
+  fundTypeExpectations: FundTypeExpectation
+  portfolioScenarios: PortfolioScenario
+  benchmarkIndex: BenchmarkIndexLevel
+}
+
+export type CollectionName = keyof PersistedCollections
+
+// Backend table and the localStorage key the collection used to live under. Booleans come back from
+// the backend as 0/1 (or their text), so boolean fields are converted back when records are read.
+const collectionConfig: Record<
+  CollectionName,
+  { table: string; storageKey: string; jsonFields: string[]; booleanFields?: string[] }
+> = {
+  generalFunds: { table: 'general_funds', storageKey: 'generalFunds', jsonFields: ['takahashiAlexander', 'feeTerms'] },
+  generalFundCashflows: { table: 'general_fund_cashflows', storageKey: 'generalFundCashflows', jsonFields: [] },
+  portfolios: { table: 'portfolios', storageKey: 'portfolios', jsonFields: ['allocationTargets'] },
+  portfolioPositions: { table: 'portfolio_positions', storageKey: 'portfolioPositions', jsonFields: [] },
+  clients: { table: 'clients', storageKey: 'clients', jsonFields: ['mandate'] },
+  households: { table: 'households', storageKey: 'households', jsonFields: [] },
+  fundRules: { table: 'fund_rules', storageKey: 'fundRules', jsonFields: [], booleanFields: ['isActive'] },
+  fundTypeExpectations: {
+    table: 'fund_type_expectations',
+    storageKey: 'fundTypeExpectations',
+    jsonFields: [
+      'callPattern', 'distributionPattern', 'navPattern', 'managementFeePattern', 'carriedInterestPattern', 'takahashiAlexander', 'peerGroup'
+    ]
+  },
+  portfolioScenarios: {
+    table: 'portfolio_scenarios',
+    storageKey: 'portfolioScenarios',
+    jsonFields: ['shocks', 'shocksByFundType']
+  },
+  benchmarkIndex: { table: 'benchmark_index_levels', storageKey: 'benchmarkIndex', jsonFields: [] }
+}
+
+export const collectionNames = Object.keys(collectionConfig) as CollectionName[]
+
+const MIGRATION_FLAG_KEY = 'blinkMigrationComplete'
+const BATCH_SIZE = 100
+const PAGE_SIZE = 1000
+
+const getTable = (name: CollectionName) => blink.db.table<Record<string, unknown>>(collectionConfig[name].table)
+
+// Records are scoped to the signed-in user
+const getUserId = async () => (await blink.auth.me()).id
+
+// Nested values (e.g. model parameters) are stored as JSON text columns
+const serializeRecord = (name: CollectionName, record: object, userId: string) => {
+  const row: Record<string, unknown> = { ...record, userId }
+  collectionConfig[name].jsonFields.forEach(field => {
+    if (row[field] !== undefined) row[field] = JSON.stringify(row[field])
+  })
+  return row
+}
+
+const deserializeRecord = <K extends CollectionName>(name: K, row: Record<string, unknown>) => {
+  const record: Record<string, unknown> = { ...row }
+  collectionConfig[name].jsonFields.forEach(field => {
+    if (typeof record[field] === 'string') {
+      try {
+        record[field] = JSON.parse(record[field] as string)
+      } catch {
+        record[field] = undefined
+      }
+    }
+  })
+  collectionConfig[name].booleanFields?.forEach(field => {
+    const value = record[field]
+    if (value === undefined || value === null) return
+    record[field] = value !== false && value !== 0 && value !== '0' && value !== 'false'
+  })
+  return record as unknown as PersistedCollections[K]
+}
+
+// Load every record in a collection that belongs to the signed-in user, a page at a time so
+// collections beyond the backend's default page size load in full
+export const listRecords = async <K extends CollectionName>(name: K): Promise<PersistedCollections[K][]> => {
+  const userId = await getUserId()
+  const rows: Record<string, unknown>[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await getTable(name).list({
+      where: { userId },
+      orderBy: { createdAt: 'asc', id: 'asc' },
+      limit: PAGE_SIZE,
+      offset
+    })
+    rows.push(...page)
+    if (page.length < PAGE_SIZE) break
+  }
+  return rows.map(row => deserializeRecord(name, row))
+}
+
+export const saveRecords = async <K extends CollectionName>(name: K, records: PersistedCollections[K][]) => {
+  if (records.length === 0) return
+  const userId = await getUserId()
+  for (let i = 0; i < records.length; i += BATCH_SIZE) {
+    await getTable(name).upsertMany(records.slice(i, i + BATCH_SIZE).map(record => serializeRecord(name, record, userId)))
+  }
+}
+
+export const deleteRecords = async (name: CollectionName, ids: string[]) => {
+  if (ids.length === 0) return
+  const userId = await getUserId()
+  await getTable(name).deleteMany({ where: { AND: [{ userId }, { id: { in: ids } }] } })
+}
+
+// Persist the difference between two versions of a collection: upsert new or changed records
+// and delete the ones that disappeared
+export const syncRecords = async <K extends CollectionName>(
+  name: K,
+  previous: PersistedCollections[K][],
+  next: PersistedCollections[K][]
+) => {
+  const previousById = new Map(previous.map(record => [record.id, JSON.stringify(record)]))
+  const nextIds = new Set(next.map(record => record.id))
+
+  const changed = next.filter(record => previousById.get(record.id) !== JSON.stringify(record))
+  const removedIds = previous.filter(record => !nextIds.has(record.id)).map(record => record.id)
+
+  await saveRecords(name, changed)
+  await deleteRecords(name, removedIds)
+}
+
+const readLocalStorageCollection = (name: CollectionName): PersistedCollections[CollectionName][] => {
+  try {
+    const item = window.localStorage.getItem(collectionConfig[name].storageKey)
+    const parsed = item ? JSON.parse(item) : []
+    // Benchmark index levels were kept without ids or timestamps before they moved to the backend
+    const migratedAt = new Date().toISOString()
+    return Array.isArray(parsed)
+      ? parsed.map((record, index) => ({
+        createdAt: migratedAt,
+        updatedAt: migratedAt,
+        ...record,
+        id: record.id || `${collectionConfig[name].storageKey}-${Date.now()}-${index}`
+      }))
+      : []
+  } catch (error) {
+    console.error(`Error reading localStorage key "${collectionConfig[name].storageKey}":`, error)
+    return []
+  }
+}
+
+// Who this browser's localStorage was uploaded to, and which collections went up
+interface MigrationRecord {
+  userId?: string
+  collections: CollectionName[]
+}
+
+// Flags that do not list their collections predate the benchmark index moving to the backend
+const collectionsBeforeBenchmarkIndex = collectionNames.filter(name => name !== 'benchmarkIndex')
+
+// Earlier versions kept one flag per user, named after the user
+const readMigrationRecord = (): MigrationRecord | null => {
+  const item = window.localStorage.getItem(MIGRATION_FLAG_KEY)
+  if (item) {
+    try {
+      const parsed = JSON.parse(item)
+      return { userId: parsed.userId, collections: parsed.collections || collectionsBeforeBenchmarkIndex }
+    } catch {
+      return { collections: collectionNames }
+    }
+  }
+  const legacyKey = Object.keys(window.localStorage).find(key => key.startsWith(`${MIGRATION_FLAG_KEY}:`))
+  return legacyKey
+    ? { userId: legacyKey.slice(MIGRATION_FLAG_KEY.length + 1), collections: collectionsBeforeBenchmarkIndex }
+    : null
+}
+
+// Upload of the collections previously kept in localStorage. The browser's data goes to the first
+// user who signs in on it and to no one else, so a later account on a shared machine does not
+// receive the earlier user's data; collections that moved to the backend later follow to that same
+// user. The localStorage copies are left in place as a backup.
+export const migrateLocalStorageToBlink = async (
+  userId: string
+): Promise<Partial<Record<CollectionName, number>> | null> => {
+  const record = readMigrationRecord()
+  if (record && record.userId !== userId) return null
+  const pending = collectionNames.filter(name => !record?.collections.includes(name))
+  if (pending.length === 0) return null
+
+  const migrated: Partial<Record<CollectionName, number>> = {}
+  for (const name of pending) {
+    const records = readLocalStorageCollection(name)
+    await saveRecords(name, records)
+    migrated[name] = records.length
+  }
+
+  window.localStorage.setItem(MIGRATION_FLAG_KEY, JSON.stringify({
+    userId,
+    migratedAt: new Date().toISOString(),
+    collections: [...(record?.collections || []), ...pending]
+  }))
+  return migrated
+}
+
+// Shared per user so every screen waits for the same migration before its first load
+const migrationPromises = new Map<string, ReturnType<typeof migrateLocalStorageToBlink>>()
+
+export const ensureLocalStorageMigrated = async () => {
+  const userId = await getUserId()
+  if (!migrationPromises.has(userId)) {
+    migrationPromises.set(userId, migrateLocalStorageToBlink(userId).catch(error => {
+      migrationPromises.delete(userId)
+      throw error
+    }))
+  }
+  return migrationPromises.get(userId)!
+}
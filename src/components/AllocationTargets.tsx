@@ -0,0 +1,225 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Alert, AlertDescription } from './ui/alert'
+import { Crosshair, Plus, Trash2, AlertTriangle } from 'lucide-react'
+import {
+  AllocationDimension, AllocationStatus, AllocationTarget, FundTypeExpectation, GeneralFund, Portfolio, PortfolioPosition
+} from '../types'
+import { getFundTypes } from '../data/fundExpectations'
+import { CalendarCashflow } from '../lib/calendarAlignment'
+import {
+  allocationDimensions, buildAllocationHoldings, checkAllocationTargets, formatAllocationBand, getAllocationBreaches,
+  getAllocationDimensionLabel, getAllocationValue
+} from '../lib/allocationTargets'
+
+interface AllocationTargetsProps {
+  portfolio: Portfolio
+  positions: PortfolioPosition[]
+  generalFunds: GeneralFund[]
+  library: FundTypeExpectation[]
+  getPositionCashflows: (position: PortfolioPosition) => CalendarCashflow[]
+  onSaveTargets: (targets: AllocationTarget[]) => void
+}
+
+const statusStyles: Record<AllocationStatus, string> = {
+  within: 'bg-green-100 text-green-800',
+  below: 'bg-yellow-100 text-yellow-800',
+  above: 'bg-red-100 text-red-800'
+}
+
+const statusLabels: Record<AllocationStatus, string> = {
+  within: 'Within band',
+  below: 'Below band',
+  above: 'Above band'
+}
+
+const emptyForm = { dimension: 'fundType' as AllocationDimension, value: '', min: '', max: '' }
+
+export default function AllocationTargets({
+  portfolio,
+  positions,
+  generalFunds,
+  library,
+  getPositionCashflows,
+  onSaveTargets
+}: AllocationTargetsProps) {
+  const [navYear, setNavYear] = useState(new Date().getFullYear())
+  const [form, setForm] = useState(emptyForm)
+
+  const targets = portfolio.allocationTargets || []
+  const holdings = buildAllocationHoldings(positions, generalFunds, getPositionCashflows, navYear)
+  const checks = checkAllocationTargets(targets, holdings, library)
+  const breaches = getAllocationBreaches(checks)
+
+  // Values seen in the fund database (and the library's fund types), so targets can be set ahead of positions
+  const valueOptions = Array.from(new Set([
+    ...(form.dimension === 'fundType' ? getFundTypes(library) : []),
+    ...generalFunds.map(fund => getAllocationValue(fund, form.dimension, library))
+  ])).sort()
+
+  const min = form.min.trim() === '' ? undefined : Number(form.min)
+  const max = form.max.trim() === '' ? undefined : Number(form.max)
+  const formErrors: string[] = []
+  if (!form.value) formErrors.push('Choose a value for the target')
+  if (min === undefined && max === undefined) formErrors.push('Enter a minimum, a maximum or both')
+  if ([min, max].some(bound => bound !== undefined && (isNaN(bound) || bound < 0 || bound > 100))) {
+    formErrors.push('Bounds must be percentages between 0 and 100')
+  }
+  if (min !== undefined && max !== undefined && min > max) formErrors.push('The minimum cannot exceed the maximum')
+  if (targets.some(t => t.dimension === form.dimension && t.value.toLowerCase() === form.value.toLowerCase())) {
+    formErrors.push(`${form.value} already has a target`)
+  }
+
+  const handleAddTarget = () => {
+    if (formErrors.length > 0) return
+    onSaveTargets([...targets, { id: `target-${Date.now()}`, dimension: form.dimension, value: form.value, min, max }])
+    setForm({ ...emptyForm, dimension: form.dimension })
+  }
+
+  const renderShare = (share?: number, status?: AllocationStatus) => (
+    <div className="flex items-center justify-end gap-2">
+      <span>{share !== undefined ? `${share.toFixed(1)}%` : 'N/A'}</span>
+      {status && <Badge className={statusStyles[status]} variant="outline">{statusLabels[status]}</Badge>}
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Crosshair className="h-5 w-5" />
+              Allocation Targets
+            </CardTitle>
+            <CardDescription>
+              Target bands by fund type, strategy, geography and vintage year, checked against committed capital
+              and against projected NAV at the end of the selected year
+            </CardDescription>
+          </div>
+          <div className="w-40">
+            <Label htmlFor="allocation-nav-year">NAV as of Year-End</Label>
+            <Input
+              id="allocation-nav-year"
+              type="number"
+              value={navYear}
+              onChange={(e) => setNavYear(parseInt(e.target.value) || new Date().getFullYear())}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {breaches.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {breaches.length} of {targets.length} targets are outside their band
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Dimension</TableHead>
+              <TableHead>Value</TableHead>
+              <TableHead>Band</TableHead>
+              <TableHead className="text-right">Committed</TableHead>
+              <TableHead className="text-right">Projected NAV ({navYear})</TableHead>
+              <TableHead className="w-16"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {checks.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No allocation targets set for this portfolio
+                </TableCell>
+              </TableRow>
+            ) : (
+              checks.map(check => (
+                <TableRow key={check.target.id}>
+                  <TableCell>{getAllocationDimensionLabel(check.target.dimension)}</TableCell>
+                  <TableCell className="font-medium">{check.target.value}</TableCell>
+                  <TableCell>{formatAllocationBand(check.target)}</TableCell>
+                  <TableCell className="text-right">{renderShare(check.committedShare, check.committedStatus)}</TableCell>
+                  <TableCell className="text-right">{renderShare(check.navShare, check.navStatus)}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onSaveTargets(targets.filter(t => t.id !== check.target.id))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+          <div>
+            <Label>Dimension</Label>
+            <Select
+              value={form.dimension}
+              onValueChange={(value) => setForm({ ...form, dimension: value as AllocationDimension, value: '' })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {allocationDimensions.map(d => <SelectItem key={d.id} value={d.id}>{d.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Value</Label>
+            <Select value={form.value} onValueChange={(value) => setForm({ ...form, value })}>
+              <SelectTrigger>
+                <SelectValue placeholder={`Select ${getAllocationDimensionLabel(form.dimension).toLowerCase()}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {valueOptions.map(value => <SelectItem key={value} value={value}>{value}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="allocation-min">Min %</Label>
+            <Input
+              id="allocation-min"
+              type="number"
+              value={form.min}
+              onChange={(e) => setForm({ ...form, min: e.target.value })}
+              placeholder="None"
+            />
+          </div>
+          <div>
+            <Label htmlFor="allocation-max">Max %</Label>
+            <Input
+              id="allocation-max"
+              type="number"
+              value={form.max}
+              onChange={(e) => setForm({ ...form, max: e.target.value })}
+              placeholder="None"
+            />
+          </div>
+          <Button onClick={handleAddTarget} disabled={formErrors.length > 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Target
+          </Button>
+        </div>
+        {form.value && formErrors.length > 0 && (
+          <p className="text-sm text-red-600">{formErrors.join('. ')}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,9 +10,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
 import { Badge } from './ui/badge'
 import { Separator } from './ui/separator'
-import { Upload, Settings, Database, FileSpreadsheet, Plus, Edit, Trash2 } from 'lucide-react'
+import { Switch } from './ui/switch'
+import { Upload, Download, Settings, Database, FileSpreadsheet, Plus, Edit, Trash2 } from 'lucide-react'
 import { Fund, FundCashflowTemplate, FundRule, ExcelCashflowUpload } from '../types'
 import { useToast } from '../hooks/use-toast'
+import { fundRuleBases, isFundRuleActive } from '../lib/fundRules'
+import { WorkbookColumn, downloadWorkbook, parseYearHeader, readTable, toNumber, toText } from '../lib/workbook'
+
+const TEMPLATE_SHEET = 'Cashflow Templates'
+const TEMPLATE_YEARS = 13
 
 interface BackendManagementProps {
   funds: Fund[]
@@ -22,7 +28,7 @@ interface BackendManagementProps {
   onAddFundRule: (rule: Omit<FundRule, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => void
   onUpdateFundRule: (id: string, rule: Partial<FundRule>) => void
   onDeleteFundRule: (id: string) => void
-  onExcelCashflowUpload: (data: ExcelCashflowUpload) => void
+  onExcelCashflowUpload: (uploads: ExcelCashflowUpload[]) => void
 }
 
 export default function BackendManagement({
@@ -43,73 +49,97 @@ export default function BackendManagement({
     ruleDescription: ''
   })
   const [editingRule, setEditingRule] = useState<FundRule | null>(null)
-  const [excelData, setExcelData] = useState<string>('')
   const { toast } = useToast()
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  // One fund per row: Fund, Vintage, Commitment, Fund Type and Year 1-13 net cashflow percentages
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) return
 
-    const reader = new FileReader()
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string
-        const lines = text.split('\\n').filter(line => line.trim())
-        
-        if (lines.length < 2) {
-          toast({
-            title: "Invalid File",
-            description: "Excel file must contain fund information and cashflow data.",
-            variant: "destructive"
-          })
-          return
-        }
-
-        // Parse fund information from first line (assuming CSV format)
-        const fundInfo = lines[0].split(',')
-        const fundName = fundInfo[0]?.trim()
-        const vintage = parseInt(fundInfo[1]?.trim())
-        const commitmentAmount = parseFloat(fundInfo[2]?.trim())
-        const fundType = fundInfo[3]?.trim() || 'Private Equity'
+    try {
+      const table = await readTable(file, { requiredHeaders: ['Fund', 'Vintage', 'Commitment'], sheetName: TEMPLATE_SHEET })
+      const yearHeaders = table.headers.filter(header => {
+        const year = parseYearHeader(header)
+        return year !== undefined && year >= 1 && year <= TEMPLATE_YEARS
+      })
 
-        // Parse cashflow percentages (13 years)
-        const cashflowLine = lines[1].split(',')
-        const yearlyNetCashflows = cashflowLine.slice(0, 13).map(val => parseFloat(val.trim()) || 0)
+      if (yearHeaders.length !== TEMPLATE_YEARS) {
+        toast({
+          title: "Invalid Cashflow Data",
+          description: `Excel file must contain exactly ${TEMPLATE_YEARS} years of net cashflow percentages (Year 1 to Year ${TEMPLATE_YEARS}).`,
+          variant: "destructive"
+        })
+        return
+      }
 
-        if (yearlyNetCashflows.length !== 13) {
-          toast({
-            title: "Invalid Cashflow Data",
-            description: "Excel file must contain exactly 13 years of net cashflow percentages.",
-            variant: "destructive"
+      const uploads: ExcelCashflowUpload[] = table.rows
+        .filter(row => toText(row['Fund']) && toNumber(row['Vintage']) !== undefined)
+        .map(row => ({
+          fundName: toText(row['Fund']),
+          vintage: toNumber(row['Vintage']) as number,
+          commitmentAmount: toNumber(row['Commitment']) || 0,
+          fundType: toText(row['Fund Type']) || 'Private Equity',
+          yearlyNetCashflows: Array.from({ length: TEMPLATE_YEARS }, (_, i) => {
+            const header = yearHeaders.find(h => parseYearHeader(h) === i + 1) as string
+            return toNumber(row[header]) || 0
           })
-          return
-        }
-
-        const uploadData: ExcelCashflowUpload = {
-          fundName,
-          vintage,
-          commitmentAmount,
-          fundType,
-          yearlyNetCashflows
-        }
+        }))
 
-        onExcelCashflowUpload(uploadData)
-        setExcelData('')
-        event.target.value = ''
-        
+      if (uploads.length === 0) {
         toast({
-          title: "Upload Successful",
-          description: `${fundName} cashflow template has been uploaded successfully.`
-        })
-      } catch (error) {
-        toast({
-          title: "Upload Error",
-          description: "Failed to parse Excel file. Please check the format.",
+          title: "Invalid File",
+          description: "Excel file must contain fund information and cashflow data.",
           variant: "destructive"
         })
+        return
       }
+
+      onExcelCashflowUpload(uploads)
+      
+      toast({
+        title: "Upload Successful",
+        description: uploads.length === 1
+          ? `${uploads[0].fundName} cashflow template has been uploaded successfully.`
+          : `${uploads.length} cashflow templates have been uploaded successfully.`
+      })
+    } catch (error) {
+      toast({
+        title: "Upload Error",
+        description: error instanceof Error ? error.message : "Failed to parse Excel file. Please check the format.",
+        variant: "destructive"
+      })
+    } finally {
+      event.target.value = ''
     }
-    reader.readAsText(file)
+  }
+
+  // Existing templates are exported in the upload format, so the workbook can be edited and uploaded again
+  const downloadTemplate = () => {
+    const templateFunds = funds.filter(fund => cashflowTemplates.some(t => t.fundId === fund.id))
+    const exportFunds = templateFunds.length > 0 ? templateFunds : funds.slice(0, 1)
+
+    return downloadWorkbook(`cashflow_templates_${new Date().toISOString().split('T')[0]}.xlsx`, [{
+      name: TEMPLATE_SHEET,
+      columns: [
+        { header: 'Fund', key: 'fund', width: 30 },
+        { header: 'Vintage', key: 'vintage', kind: 'integer' },
+        { header: 'Commitment', key: 'commitment', kind: 'number', width: 16 },
+        { header: 'Fund Type', key: 'fundType', width: 18 },
+        ...Array.from({ length: TEMPLATE_YEARS }, (_, i): WorkbookColumn => ({ header: `Year ${i + 1}`, key: `year${i + 1}`, kind: 'percent' }))
+      ],
+      rows: exportFunds.map(fund => {
+        const row: Record<string, unknown> = {
+          fund: fund.name,
+          vintage: fund.vintage,
+          commitment: fund.commitmentAmount,
+          fundType: fund.fundType
+        }
+        for (let year = 1; year <= TEMPLATE_YEARS; year++) {
+          row[`year${year}`] = cashflowTemplates.find(t => t.fundId === fund.id && t.year === year)?.netCashflowPercentage ?? 0
+        }
+        return row
+      })
+    }])
   }
 
   const handleAddRule = () => {
@@ -333,7 +363,8 @@ export default function BackendManagement({
               <CardHeader>
                 <CardTitle>Existing Fund Rules</CardTitle>
                 <CardDescription>
-                  Manage existing rules for all funds
+                  Manage existing rules for all funds. Active rules apply to the fund's projections, the cashflow
+                  table and its waterfall calculator
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -344,6 +375,7 @@ export default function BackendManagement({
                       <TableHead>Rule Type</TableHead>
                       <TableHead>Rule Name</TableHead>
                       <TableHead>Value</TableHead>
+                      <TableHead>Active</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -359,7 +391,16 @@ export default function BackendManagement({
                           </Badge>
                         </TableCell>
                         <TableCell>{rule.ruleName}</TableCell>
-                        <TableCell>{rule.ruleValue}%</TableCell>
+                        <TableCell>
+                          <div>{rule.ruleValue}%</div>
+                          <div className="text-xs text-muted-foreground">{fundRuleBases[rule.ruleType]}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={isFundRuleActive(rule)}
+                            onCheckedChange={(checked) => onUpdateFundRule(rule.id, { isActive: checked })}
+                          />
+                        </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
                             <Dialog>
@@ -468,13 +509,13 @@ export default function BackendManagement({
                     <Input
                       id="excel-upload"
                       type="file"
-                      accept=".csv,.xlsx,.xls"
+                      accept=".xlsx,.csv"
                       onChange={handleFileUpload}
                       className="hidden"
                     />
                   </div>
                   <p className="text-sm text-muted-foreground">
-                    CSV or Excel format accepted
+                    Excel (.xlsx) or CSV format accepted
                   </p>
                 </div>
               </div>
@@ -482,15 +523,20 @@ export default function BackendManagement({
               <Separator />
 
               <div className="space-y-2">
-                <h4 className="font-medium">Expected File Format:</h4>
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium">Expected File Format:</h4>
+                  <Button variant="outline" size="sm" onClick={downloadTemplate}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Template
+                  </Button>
+                </div>
                 <div className="bg-muted p-3 rounded text-sm font-mono">
-                  <div>Fund Name, Vintage, Commitment Amount, Fund Type</div>
-                  <div>Year1%, Year2%, Year3%, ..., Year13%</div>
+                  <div>Fund, Vintage, Commitment, Fund Type, Year 1, Year 2, ..., Year 13</div>
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  First row: Fund information (name, vintage year, commitment amount in USD, fund type)
+                  Header row with one fund per row below it (commitment amount in USD)
                   <br />
-                  Second row: Net cashflow percentages for years 1-13 (positive for distributions, negative for calls)
+                  Year 1-13: net cashflow percentages as percentage-formatted cells (positive for distributions, negative for calls)
                 </p>
               </div>
             </CardContent>
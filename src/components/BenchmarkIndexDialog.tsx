@@ -0,0 +1,109 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
+import { Textarea } from './ui/textarea'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { LineChart, Save, Trash2 } from 'lucide-react'
+import { BenchmarkIndexLevel, BenchmarkIndexObservation } from '../types'
+import { formatBenchmarkIndex, parseBenchmarkIndex } from '../lib/benchmarkIndex'
+import { useToast } from '../hooks/use-toast'
+
+interface BenchmarkIndexDialogProps {
+  benchmarkIndex: BenchmarkIndexLevel[]
+  onSave: (levels: BenchmarkIndexObservation[]) => void
+}
+
+export default function BenchmarkIndexDialog({ benchmarkIndex, onSave }: BenchmarkIndexDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [text, setText] = useState('')
+  const { toast } = useToast()
+
+  const { levels, errors } = parseBenchmarkIndex(text)
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) setText(formatBenchmarkIndex(benchmarkIndex))
+    setOpen(isOpen)
+  }
+
+  const handleFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (file) setText(await file.text())
+  }
+
+  const handleSave = () => {
+    onSave(levels)
+    setOpen(false)
+    toast({
+      title: "Benchmark Index Saved",
+      description: levels.length > 0
+        ? `${levels.length} index levels from ${levels[0].date} to ${levels[levels.length - 1].date}. PME is shown wherever fund performance is.`
+        : 'The benchmark index was cleared; PME is no longer shown.'
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <LineChart className="h-4 w-4 mr-2" />
+          Benchmark Index
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Benchmark Index</DialogTitle>
+          <DialogDescription>
+            Public market index levels used for the Kaplan-Schoar PME. Each cashflow is compounded with the latest
+            level on or before its quarter end.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="benchmark-file">Import CSV</Label>
+            <Input id="benchmark-file" type="file" accept=".csv,.txt" className="mt-2" onChange={handleFileImport} />
+          </div>
+          <div>
+            <Label htmlFor="benchmark-levels">Index levels (one "date,value" per line, dates as YYYY-MM-DD)</Label>
+            <Textarea
+              id="benchmark-levels"
+              className="mt-2 font-mono text-sm"
+              rows={12}
+              placeholder={'date,value\n2020-03-31,2584.59\n2020-06-30,3100.29'}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {levels.length > 0
+              ? `${levels.length} levels from ${levels[0].date} to ${levels[levels.length - 1].date}`
+              : 'No index levels'}
+          </div>
+          {errors.length > 0 && (
+            <div className="text-sm text-red-600 space-y-1 max-h-32 overflow-y-auto">
+              {errors.map(error => <div key={error}>{error}</div>)}
+            </div>
+          )}
+
+          <div className="flex justify-between">
+            <Button variant="outline" onClick={() => setText('')} disabled={text === ''}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={errors.length > 0}>
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
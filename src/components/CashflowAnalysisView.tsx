@@ -5,14 +5,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, Legend } from 'recharts'
 import { BarChart3, TrendingUp, TrendingDown, Activity } from 'lucide-react'
-import { Fund, Cashflow } from '../types'
+import { Fund, Cashflow, BenchmarkIndexLevel } from '../types'
+import { analyzeFundPerformance } from '../lib/performanceMetrics'
 
 interface CashflowAnalysisViewProps {
   funds: Fund[]
   cashflows: Cashflow[]
+  benchmarkIndex?: BenchmarkIndexLevel[] // Enables the PME column when supplied
 }
 
-export default function CashflowAnalysisView({ funds, cashflows }: CashflowAnalysisViewProps) {
+export default function CashflowAnalysisView({ funds, cashflows, benchmarkIndex }: CashflowAnalysisViewProps) {
   const [selectedFund, setSelectedFund] = useState<string>('all')
   const [viewType, setViewType] = useState<'quarterly' | 'annual'>('quarterly')
 
@@ -56,12 +58,8 @@ export default function CashflowAnalysisView({ funds, cashflows }: CashflowAnaly
   const getVintageAnalysis = () => {
     const vintageData = funds.map(fund => {
       const fundCashflows = cashflows.filter(cf => cf.fundId === fund.id)
-      const totalCalls = fundCashflows.reduce((sum, cf) => sum + cf.calls, 0)
-      const totalDistributions = fundCashflows.reduce((sum, cf) => sum + cf.distributions, 0)
-      const latestNav = fundCashflows.length > 0 
-        ? fundCashflows.sort((a, b) => b.year - a.year || b.quarter - a.quarter)[0].nav 
-        : 0
-      const multiple = totalCalls > 0 ? (totalDistributions + latestNav) / totalCalls : 0
+      const { totalCalls, totalDistributions, currentNav: latestNav, multiple, pme } =
+        analyzeFundPerformance(fundCashflows, { benchmarkIndex })
       const calledPercentage = (totalCalls / fund.commitmentAmount) * 100
 
       return {
@@ -73,6 +71,7 @@ export default function CashflowAnalysisView({ funds, cashflows }: CashflowAnaly
         totalDistributions,
         currentNav: latestNav,
         multiple,
+        pme,
         calledPercentage,
         netCashflow: totalDistributions - totalCalls
       }
@@ -294,6 +293,7 @@ export default function CashflowAnalysisView({ funds, cashflows }: CashflowAnaly
                 <TableHead className="text-right">Current NAV</TableHead>
                 <TableHead className="text-right">Net Cashflow</TableHead>
                 <TableHead className="text-right">Multiple</TableHead>
+                <TableHead className="text-right">KS-PME</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -327,6 +327,9 @@ export default function CashflowAnalysisView({ funds, cashflows }: CashflowAnaly
                       {fund.multiple.toFixed(2)}x
                     </span>
                   </TableCell>
+                  <TableCell className="text-right">
+                    {fund.pme !== undefined ? `${fund.pme.toFixed(2)}x` : 'N/A'}
+                  </TableCell>
                 </TableRow>
               ))}
             </TableBody>
@@ -1,63 +1,102 @@
-import { useState } from 'react'
+import { Fragment, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Calendar, TrendingUp, TrendingDown, DollarSign, Eye, EyeOff } from 'lucide-react'
-import { Fund, Cashflow } from '../types'
-import { calculateExpectedCashflows, portfolioScenarios } from '../data/fundExpectations'
+import { Fund, Cashflow, PortfolioScenario, FundRule, FundTypeExpectation } from '../types'
+import { calculateExpectedCashflows } from '../data/fundExpectations'
+import { reprojectFundFromActuals } from '../lib/reprojection'
+import { fundRuleBases, fundRuleTypeLabels, getActiveFundRules } from '../lib/fundRules'
 
 interface CashflowTableProps {
   funds: Fund[]
   cashflows: Cashflow[]
+  scenarios: PortfolioScenario[]
+  fundRules: FundRule[]
+  library: FundTypeExpectation[]
 }
 
-export default function CashflowTable({ funds, cashflows }: CashflowTableProps) {
+export default function CashflowTable({ funds, cashflows, scenarios, fundRules, library }: CashflowTableProps) {
   const [selectedFund, setSelectedFund] = useState<string>('all')
   const [viewType, setViewType] = useState<'actual' | 'projected' | 'combined'>('combined')
-  const [selectedScenario, setSelectedScenario] = useState(portfolioScenarios[1].id)
+  const [selectedScenario, setSelectedScenario] = useState('neutral')
+  const [comparedScenarioIds, setComparedScenarioIds] = useState<string[]>([])
   const [showFees, setShowFees] = useState(false)
 
+  const currentScenario = scenarios.find(s => s.id === selectedScenario) || scenarios[0]
+
+  // Original projection from the vintage year, and the projection re-based on each fund's actuals,
+  // both after the fund's active rules
+  const buildProjections = (scenario: PortfolioScenario) => new Map(funds.map(fund => {
+    const rules = getActiveFundRules(fundRules, fund.id)
+    return [fund.id, {
+      expected: calculateExpectedCashflows(library, fund, scenario, { rules }),
+      reprojection: reprojectFundFromActuals(fund, cashflows, library, scenario, rules)
+    }]
+  }))
+
+  const projections = buildProjections(currentScenario)
+  const comparedScenarios = scenarios.filter(s => comparedScenarioIds.includes(s.id))
+  const scenarioProjections = new Map(comparedScenarios.map(s => [s.id, buildProjections(s)]))
+
   // Get all years covered by funds
   const getAllYears = () => {
     const actualYears = cashflows.map(cf => cf.year)
-    const projectedYears = funds.flatMap(fund => {
-      const scenario = portfolioScenarios.find(s => s.id === selectedScenario)!
-      const expectedCashflows = calculateExpectedCashflows(fund, scenario)
-      return expectedCashflows.map(cf => cf.year)
-    })
+    const projectedYears = [projections, ...scenarioProjections.values()]
+      .flatMap(projectionMap => Array.from(projectionMap.values()))
+      .flatMap(p => [
+        ...p.expected.map(cf => cf.year),
+        ...p.reprojection.cashflows.map(cf => cf.year)
+      ])
     
     const allYears = [...new Set([...actualYears, ...projectedYears])].sort((a, b) => a - b)
     return allYears
   }
 
+  // Actuals of a fund summed over the quarters of a year, with the NAV of the latest quarter
+  const getActualYear = (fundId: string, year: number) => {
+    const quarters = cashflows
+      .filter(cf => cf.fundId === fundId && cf.year === year)
+      .sort((a, b) => a.quarter - b.quarter)
+    if (quarters.length === 0) return undefined
+
+    return {
+      calls: quarters.reduce((sum, cf) => sum + cf.calls, 0),
+      distributions: quarters.reduce((sum, cf) => sum + cf.distributions, 0),
+      nav: quarters[quarters.length - 1].nav,
+      managementFees: quarters.reduce((sum, cf) => sum + (cf.managementFees || 0), 0),
+      carriedInterest: quarters.reduce((sum, cf) => sum + (cf.carriedInterest || 0), 0),
+      taxes: quarters.reduce((sum, cf) => sum + (cf.taxes || 0), 0)
+    }
+  }
+
   // Get cashflow data for a specific fund and year
-  const getCashflowData = (fundId: string, year: number) => {
-    const actualCashflow = cashflows.find(cf => cf.fundId === fundId && cf.year === year)
+  const getCashflowData = (fundId: string, year: number, projectionMap = projections) => {
     const fund = funds.find(f => f.id === fundId)!
-    const scenario = portfolioScenarios.find(s => s.id === selectedScenario)!
-    const expectedCashflows = calculateExpectedCashflows(fund, scenario)
-    const projectedCashflow = expectedCashflows.find(cf => cf.year === year)
+    const projection = projectionMap.get(fundId)
     
     return {
-      actual: actualCashflow,
-      projected: projectedCashflow,
+      actual: getActualYear(fundId, year),
+      projected: projection?.expected.find(cf => cf.year === year),
+      reprojected: projection?.reprojection.cashflows.find(cf => cf.year === year),
       fund
     }
   }
 
   // Calculate totals for a year across all funds
-  const getYearTotals = (year: number, fundsToInclude: Fund[]) => {
+  const getYearTotals = (year: number, fundsToInclude: Fund[], projectionMap = projections) => {
     let totalCalls = 0
     let totalDistributions = 0
     let totalNav = 0
     let totalFees = 0
     let totalCarry = 0
     let totalTax = 0
+    let totalOther = 0
     
     fundsToInclude.forEach(fund => {
-      const data = getCashflowData(fund.id, year)
+      const data = getCashflowData(fund.id, year, projectionMap)
       
       if (viewType === 'actual' && data.actual) {
         totalCalls += data.actual.calls
@@ -70,17 +109,21 @@ export default function CashflowTable({ funds, cashflows }: CashflowTableProps)
         totalCalls += data.projected.calls
         totalDistributions += data.projected.distributions
         totalNav += data.projected.nav
+        totalFees += data.projected.managementFees || 0
+        totalCarry += data.projected.carriedInterest || 0
+        totalTax += data.projected.taxes || 0
+        totalOther += data.projected.otherDeductions || 0
       } else if (viewType === 'combined') {
-        const calls = data.actual?.calls || data.projected?.calls || 0
-        const distributions = data.actual?.distributions || data.projected?.distributions || 0
-        const nav = data.actual?.nav || data.projected?.nav || 0
+        // A year with actuals uses them even when they are zero; later years use the re-projection
+        const source = data.actual || data.reprojected
         
-        totalCalls += calls
-        totalDistributions += distributions
-        totalNav += nav
-        totalFees += data.actual?.managementFees || 0
-        totalCarry += data.actual?.carriedInterest || 0
-        totalTax += data.actual?.taxes || 0
+        totalCalls += source?.calls ?? 0
+        totalDistributions += source?.distributions ?? 0
+        totalNav += source?.nav ?? 0
+        totalFees += source?.managementFees ?? 0
+        totalCarry += source?.carriedInterest ?? 0
+        totalTax += source?.taxes ?? 0
+        totalOther += (data.actual ? 0 : data.reprojected?.otherDeductions) ?? 0
       }
     })
     
@@ -91,13 +134,33 @@ export default function CashflowTable({ funds, cashflows }: CashflowTableProps)
       totalFees,
       totalCarry,
       totalTax,
+      totalOther,
       netCashflow: totalDistributions - totalCalls
     }
   }
 
   const years = getAllYears()
   const fundsToShow = selectedFund === 'all' ? funds : funds.filter(f => f.id === selectedFund)
-  const currentScenario = portfolioScenarios.find(s => s.id === selectedScenario)!
+  const selectedReprojection = selectedFund === 'all' ? undefined : projections.get(selectedFund)?.reprojection
+
+  // What each active rule deducted over the projection in view (rules never touch actuals)
+  const ruleSummary = fundsToShow.flatMap(fund => {
+    const projection = projections.get(fund.id)
+    const projectedCashflows = viewType === 'actual'
+      ? []
+      : viewType === 'combined' ? projection?.reprojection.cashflows || [] : projection?.expected || []
+    return getActiveFundRules(fundRules, fund.id).map(rule => {
+      const deductions = projectedCashflows.flatMap(cf =>
+        (cf.ruleDeductions || []).filter(d => d.ruleId === rule.id).map(d => ({ year: cf.year, amount: d.amount })))
+      return {
+        fund,
+        rule,
+        total: deductions.reduce((sum, d) => sum + d.amount, 0),
+        firstYear: deductions.length > 0 ? deductions[0].year : undefined,
+        lastYear: deductions.length > 0 ? deductions[deductions.length - 1].year : undefined
+      }
+    })
+  })
 
   const formatCurrency = (amount: number) => {
     if (Math.abs(amount) >= 1000000) {
@@ -125,7 +188,8 @@ export default function CashflowTable({ funds, cashflows }: CashflowTableProps)
                 Cashflow Analysis Table
               </CardTitle>
               <CardDescription>
-                Absolute cashflows over time with actual vs projected data
+                Absolute cashflows over time with actual vs projected data. The combined view re-projects
+                each fund from its latest actuals
               </CardDescription>
             </div>
             <div className="flex items-center gap-4">
@@ -162,13 +226,13 @@ export default function CashflowTable({ funds, cashflows }: CashflowTableProps)
             <div>
               <label className="text-sm font-medium">View Type</label>
               <Select value={viewType} onValueChange={(value: any) => setViewType(value)}>
-                <SelectTrigger className="w-40">
+                <SelectTrigger className="w-56">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="actual">Actual Only</SelectItem>
-                  <SelectItem value="projected">Projected Only</SelectItem>
-                  <SelectItem value="combined">Combined</SelectItem>
+                  <SelectItem value="projected">Original Projection</SelectItem>
+                  <SelectItem value="combined">Actuals + Re-projection</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -180,7 +244,7 @@ export default function CashflowTable({ funds, cashflows }: CashflowTableProps)
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {portfolioScenarios.map(scenario => (
+                  {scenarios.map(scenario => (
                     <SelectItem key={scenario.id} value={scenario.id}>
                       {scenario.name}
                     </SelectItem>
@@ -205,6 +269,31 @@ export default function CashflowTable({ funds, cashflows }: CashflowTableProps)
             </div>
             <Badge variant="outline">{currentScenario.name} Scenario</Badge>
           </div>
+
+          {selectedReprojection?.lastActualYear !== undefined && (
+            <div className="mt-4 grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Actuals Through</div>
+                <div className="font-medium">{selectedReprojection.lastActualYear}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Paid-In</div>
+                <div className="font-medium">{formatCurrency(selectedReprojection.paidIn)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Distributed</div>
+                <div className="font-medium">{formatCurrency(selectedReprojection.distributed)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Current NAV</div>
+                <div className="font-medium">{formatCurrency(selectedReprojection.currentNav)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Unfunded</div>
+                <div className="font-medium">{formatCurrency(selectedReprojection.unfundedCommitment)}</div>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -258,12 +347,13 @@ export default function CashflowTable({ funds, cashflows }: CashflowTableProps)
                   <TableHead className="text-right">Calls</TableHead>
                   <TableHead className="text-right">Distributions</TableHead>
                   <TableHead className="text-right">Net Cashflow</TableHead>
-                  <TableHead className="text-right">NAV</TableHead>
+                  <TableHead className="text-right">{ruleSummary.length > 0 && viewType !== 'actual' ? 'NAV (before rules)' : 'NAV'}</TableHead>
                   {showFees && (
                     <>
                       <TableHead className="text-right">Mgmt Fees</TableHead>
                       <TableHead className="text-right">Carried Interest</TableHead>
                       <TableHead className="text-right">Taxes</TableHead>
+                      <TableHead className="text-right">Other</TableHead>
                     </>
                   )}
                   <TableHead className="text-right">Cumulative Net</TableHead>
@@ -282,9 +372,11 @@ export default function CashflowTable({ funds, cashflows }: CashflowTableProps)
                     cashflows.some(cf => cf.fundId === fund.id && cf.year === year)
                   )
                   const hasProjected = fundsToShow.some(fund => {
-                    const scenario = portfolioScenarios.find(s => s.id === selectedScenario)!
-                    const expectedCashflows = calculateExpectedCashflows(fund, scenario)
-                    return expectedCashflows.some(cf => cf.year === year)
+                    const projection = projections.get(fund.id)
+                    const projectedCashflows = viewType === 'combined'
+                      ? projection?.reprojection.cashflows
+                      : projection?.expected
+                    return (projectedCashflows || []).some(cf => cf.year === year)
                   })
                   
                   return (
@@ -343,6 +435,9 @@ export default function CashflowTable({ funds, cashflows }: CashflowTableProps)
                           <TableCell className="text-right text-gray-600">
                             {formatCurrency(totals.totalTax)}
                           </TableCell>
+                          <TableCell className="text-right text-gray-600">
+                            {formatCurrency(totals.totalOther)}
+                          </TableCell>
                         </>
                       )}
                       <TableCell className="text-right">
@@ -360,6 +455,136 @@ export default function CashflowTable({ funds, cashflows }: CashflowTableProps)
           </div>
         </CardContent>
       </Card>
+
+      {/* Fund Rule Deductions */}
+      {ruleSummary.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Fund Rule Deductions</CardTitle>
+            <CardDescription>
+              Active fund rules applied to the {viewType === 'actual' ? 'projection (switch to a projected view to see amounts)' : viewType === 'combined' ? 're-projection' : 'original projection'}.
+              Management fees are added to calls; carry, tax and other deductions come out of distributions.
+              NAV is shown before rules, without accrued carry or tax on unrealised value
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fund</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead>Years</TableHead>
+                  <TableHead className="text-right">Deducted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ruleSummary.map(({ fund, rule, total, firstYear, lastYear }) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{fund.name}</TableCell>
+                    <TableCell>{rule.ruleName}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{fundRuleTypeLabels[rule.ruleType]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{rule.ruleValue}% {fundRuleBases[rule.ruleType]}</TableCell>
+                    <TableCell>{firstYear !== undefined ? `${firstYear}-${lastYear}` : 'N/A'}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Scenario Comparison */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Scenario Comparison</CardTitle>
+          <CardDescription>
+            Net cashflow and NAV of the {viewType === 'combined' ? 'actuals and re-projection' : viewType === 'projected' ? 'original projection' : 'actuals'} under
+            each selected scenario, side by side. Scenarios only change projected years
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {scenarios.map(scenario => {
+              const isCompared = comparedScenarioIds.includes(scenario.id)
+              return (
+                <Button
+                  key={scenario.id}
+                  variant={isCompared ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setComparedScenarioIds(isCompared
+                    ? comparedScenarioIds.filter(id => id !== scenario.id)
+                    : [...comparedScenarioIds, scenario.id])}
+                >
+                  {scenario.name}
+                </Button>
+              )
+            })}
+          </div>
+
+          {comparedScenarios.length === 0 ? (
+            <div className="text-center py-6 text-sm text-muted-foreground">
+              Select scenarios to compare them side by side
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="sticky left-0 bg-background">Year</TableHead>
+                    {comparedScenarios.map(scenario => (
+                      <TableHead key={scenario.id} className="text-right" colSpan={2}>{scenario.name}</TableHead>
+                    ))}
+                  </TableRow>
+                  <TableRow>
+                    <TableHead className="sticky left-0 bg-background" />
+                    {comparedScenarios.map(scenario => (
+                      <Fragment key={scenario.id}>
+                        <TableHead className="text-right">Net</TableHead>
+                        <TableHead className="text-right">NAV</TableHead>
+                      </Fragment>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {years.map(year => (
+                    <TableRow key={year}>
+                      <TableCell className="sticky left-0 bg-background font-medium">{year}</TableCell>
+                      {comparedScenarios.map(scenario => {
+                        const totals = getYearTotals(year, fundsToShow, scenarioProjections.get(scenario.id))
+                        return (
+                          <Fragment key={scenario.id}>
+                            <TableCell className={`text-right ${totals.netCashflow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {formatCurrency(totals.netCashflow)}
+                            </TableCell>
+                            <TableCell className="text-right">{formatCurrency(totals.totalNav)}</TableCell>
+                          </Fragment>
+                        )
+                      })}
+                    </TableRow>
+                  ))}
+                  <TableRow className="font-bold border-t-2">
+                    <TableCell className="sticky left-0 bg-background">Total Net</TableCell>
+                    {comparedScenarios.map(scenario => {
+                      const totalNet = years.reduce((sum, year) =>
+                        sum + getYearTotals(year, fundsToShow, scenarioProjections.get(scenario.id)).netCashflow, 0)
+                      return (
+                        <TableCell key={scenario.id} className="text-right" colSpan={2}>
+                          <span className={totalNet >= 0 ? 'text-green-600' : 'text-red-600'}>{formatCurrency(totalNet)}</span>
+                        </TableCell>
+                      )
+                    })}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   )
 }
\ No newline at end of file
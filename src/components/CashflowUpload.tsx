@@ -7,7 +7,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '.
 import { Alert, AlertDescription } from './ui/alert'
 import { Badge } from './ui/badge'
 import { Upload, Download, FileSpreadsheet, Trash2, Plus, AlertCircle } from 'lucide-react'
-import { Fund } from '../types'
+import { Fund, FundTypeExpectation } from '../types'
+import { WorkbookColumn, downloadWorkbook, parseYearHeader, readTable, toNumber, toText } from '../lib/workbook'
+import { getFundTypeExpectation } from '../data/fundExpectations'
+
+const CASHFLOW_SHEET = 'Cashflows'
 
 interface YearlyCashflow {
   year: number
@@ -25,10 +29,16 @@ interface FundCashflowData {
 interface CashflowUploadProps {
   funds: Fund[]
   onCashflowsUploaded: (cashflows: FundCashflowData[]) => void
+  library: FundTypeExpectation[]
   existingCashflows?: FundCashflowData[]
 }
 
-export default function CashflowUpload({ funds, onCashflowsUploaded, existingCashflows = [] }: CashflowUploadProps) {
+export default function CashflowUpload({
+  funds,
+  onCashflowsUploaded,
+  library,
+  existingCashflows = []
+}: CashflowUploadProps) {
   const [uploadedCashflows, setUploadedCashflows] = useState<FundCashflowData[]>(existingCashflows)
   const [isUploading, setIsUploading] = useState(false)
   const [uploadError, setUploadError] = useState<string | null>(null)
@@ -37,26 +47,12 @@ export default function CashflowUpload({ funds, onCashflowsUploaded, existingCas
   // Generate dummy net cashflow data for existing funds (12 years: year 1-12)
   const generateDummyCashflows = () => {
     const dummyData: FundCashflowData[] = funds.map(fund => {
-      // Different patterns based on fund type
-      let pattern: number[]
-      
-      switch (fund.fundType) {
-        case 'Private Equity':
-          // PE pattern: heavy calls early, distributions later
-          pattern = [-0.25, -0.35, -0.20, -0.10, 0.05, 0.15, 0.25, 0.35, 0.20, 0.15, 0.10, 0.05]
-          break
-        case 'Venture Capital':
-          // VC pattern: slower calls, later distributions
-          pattern = [-0.15, -0.25, -0.30, -0.20, -0.05, 0.10, 0.20, 0.40, 0.30, 0.20, 0.15, 0.10]
-          break
-        case 'Real Estate':
-          // RE pattern: steady calls, regular distributions
-          pattern = [-0.20, -0.25, -0.15, -0.10, 0.05, 0.10, 0.15, 0.20, 0.25, 0.20, 0.15, 0.10]
-          break
-        default:
-          // Default pattern
-          pattern = [-0.20, -0.30, -0.25, -0.15, 0.05, 0.15, 0.25, 0.30, 0.25, 0.20, 0.15, 0.10]
-      }
+      // Net pattern of the fund type's library curve (distributions less calls), or a generic default
+      const expectation = getFundTypeExpectation(library, fund.fundType)
+      const pattern = expectation
+        ? Array.from({ length: 12 }, (_, i) =>
+          ((expectation.distributionPattern[i] || 0) - (expectation.callPattern[i] || 0)) / 100)
+        : [-0.20, -0.30, -0.25, -0.15, 0.05, 0.15, 0.25, 0.30, 0.25, 0.20, 0.15, 0.10]
 
       // Add some randomization to make it more realistic
       const randomizedPattern = pattern.map(value => {
@@ -82,34 +78,20 @@ export default function CashflowUpload({ funds, onCashflowsUploaded, existingCas
     onCashflowsUploaded(dummyData)
   }
 
-  // Parse CSV/Excel-like data
+  // Parse an uploaded workbook or CSV; columns are matched by header. Year columns are either
+  // relative ('Year 1' is the vintage year) or calendar years ('2025').
   const parseUploadedFile = async (file: File) => {
     setIsUploading(true)
     setUploadError(null)
 
     try {
-      const text = await file.text()
-      const lines = text.split('\n').filter(line => line.trim())
-      
-      if (lines.length < 2) {
-        throw new Error('File must contain at least a header row and one data row')
-      }
+      const table = await readTable(file, { requiredHeaders: ['Fund', 'Vintage'], sheetName: CASHFLOW_SHEET })
 
-      const headers = lines[0].split(',').map(h => h.trim())
-      
-      // Validate headers - expect Fund, Vintage, then year columns
-      if (!headers.includes('Fund') || !headers.includes('Vintage')) {
-        throw new Error('File must contain "Fund" and "Vintage" columns')
-      }
-
-      const fundIndex = headers.indexOf('Fund')
-      const vintageIndex = headers.indexOf('Vintage')
-      
-      // Find year columns (should be numbers)
-      const yearColumns = headers.slice(2).map((header, index) => ({
-        year: parseInt(header),
-        index: index + 2
-      })).filter(col => !isNaN(col.year))
+      const yearColumns = table.headers.flatMap((header): { header: string; relativeYear?: number; calendarYear?: number }[] => {
+        const relativeYear = parseYearHeader(header)
+        if (relativeYear !== undefined) return [{ header, relativeYear }]
+        return /^\d{4}$/.test(header) ? [{ header, calendarYear: parseInt(header) }] : []
+      })
 
       if (yearColumns.length === 0) {
         throw new Error('No valid year columns found')
@@ -117,35 +99,27 @@ export default function CashflowUpload({ funds, onCashflowsUploaded, existingCas
 
       const parsedData: FundCashflowData[] = []
 
-      for (let i = 1; i < lines.length; i++) {
-        const values = lines[i].split(',').map(v => v.trim())
+      table.rows.forEach(row => {
+        const fundName = toText(row['Fund'])
+        const vintage = toNumber(row['Vintage'])
         
-        if (values.length < 3) continue // Skip incomplete rows
-
-        const fundName = values[fundIndex]
-        const vintage = parseInt(values[vintageIndex])
-        
-        if (!fundName || isNaN(vintage)) continue
+        if (!fundName || vintage === undefined) return
 
         // Find matching fund
-        const matchingFund = funds.find(f => 
+        const matchingFund = funds.find(f => f.name.toLowerCase() === fundName.toLowerCase()) || funds.find(f => 
           f.name.toLowerCase().includes(fundName.toLowerCase()) || 
           fundName.toLowerCase().includes(f.name.toLowerCase())
         )
 
         if (!matchingFund) {
           console.warn(`No matching fund found for: ${fundName}`)
-          continue
+          return
         }
 
-        const yearlyCashflows: YearlyCashflow[] = yearColumns.map(col => {
-          const value = values[col.index]
-          const parsedValue = parseFloat(value)
-          return {
-            year: col.year,
-            netCashflowPercentage: isNaN(parsedValue) ? 0 : parsedValue
-          }
-        })
+        const yearlyCashflows: YearlyCashflow[] = yearColumns.map(col => ({
+          year: col.calendarYear ?? matchingFund.vintage + (col.relativeYear ?? 1) - 1,
+          netCashflowPercentage: (toNumber(row[col.header]) || 0) / 100 // Sheet values are percentage points
+        }))
 
         parsedData.push({
           fundId: matchingFund.id,
@@ -154,7 +128,7 @@ export default function CashflowUpload({ funds, onCashflowsUploaded, existingCas
           commitmentAmount: matchingFund.commitmentAmount,
           yearlyCashflows
         })
-      }
+      })
 
       if (parsedData.length === 0) {
         throw new Error('No valid fund data could be parsed from the file')
@@ -178,75 +152,47 @@ export default function CashflowUpload({ funds, onCashflowsUploaded, existingCas
     }
   }
 
+  // One workbook row per fund: commitment in millions, Year 1-12 as percentage-formatted cells
+  const downloadCashflowWorkbook = (rows: FundCashflowData[], filename: string) => downloadWorkbook(filename, [{
+    name: CASHFLOW_SHEET,
+    columns: [
+      { header: 'Fund', key: 'fund', width: 30 },
+      { header: 'Vintage', key: 'vintage', kind: 'integer' },
+      { header: 'Commitment (M)', key: 'commitment', kind: 'number' },
+      ...Array.from({ length: 12 }, (_, i): WorkbookColumn => ({ header: `Year ${i + 1}`, key: `year${i + 1}`, kind: 'percent' }))
+    ],
+    rows: rows.map(fundData => {
+      const row: Record<string, unknown> = {
+        fund: fundData.fundName,
+        vintage: fundData.vintage,
+        commitment: fundData.commitmentAmount / 1000000
+      }
+      for (let i = 0; i < 12; i++) {
+        const yearData = fundData.yearlyCashflows.find(cf => cf.year === fundData.vintage + i)
+        row[`year${i + 1}`] = yearData ? yearData.netCashflowPercentage * 100 : 0
+      }
+      return row
+    })
+  }])
+
   // Download template with existing cashflow data
   const downloadTemplate = () => {
-    const currentYear = new Date().getFullYear()
-    const headers = ['Fund', 'Vintage', 'Commitment (M)', ...Array.from({length: 12}, (_, i) => `Year ${i + 1}`)]
-    
-    const rows = funds.map(fund => {
-      const existingData = uploadedCashflows.find(cf => cf.fundId === fund.id)
-      const cashflowValues = Array.from({length: 12}, (_, i) => {
-        if (existingData) {
-          const yearData = existingData.yearlyCashflows.find(cf => cf.year === fund.vintage + i)
-          return yearData ? (yearData.netCashflowPercentage * 100).toFixed(2) : '0'
-        }
-        return '0'
-      })
-      
-      return [
-        fund.name,
-        fund.vintage.toString(),
-        (fund.commitmentAmount / 1000000).toFixed(0),
-        ...cashflowValues
-      ]
+    const rows = funds.map(fund => uploadedCashflows.find(cf => cf.fundId === fund.id) || {
+      fundId: fund.id,
+      fundName: fund.name,
+      vintage: fund.vintage,
+      commitmentAmount: fund.commitmentAmount,
+      yearlyCashflows: []
     })
-
-    const csvContent = [headers, ...rows].map(row => row.join(',')).join('\n')
-    const blob = new Blob([csvContent], { type: 'text/csv' })
-    const url = URL.createObjectURL(blob)
-    
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `fund_cashflow_template_${new Date().toISOString().split('T')[0]}.csv`
-    a.click()
-    
-    URL.revokeObjectURL(url)
+    return downloadCashflowWorkbook(rows, `fund_cashflow_template_${new Date().toISOString().split('T')[0]}.xlsx`)
   }
 
   // Download filled template with current data
   const downloadFilledTemplate = () => {
     if (uploadedCashflows.length === 0) {
-      downloadTemplate()
-      return
+      return downloadTemplate()
     }
-
-    const headers = ['Fund', 'Vintage', 'Commitment (M)', ...Array.from({length: 12}, (_, i) => `Year ${i + 1}`)]
-    
-    const rows = uploadedCashflows.map(fundData => {
-      const fund = funds.find(f => f.id === fundData.fundId)
-      const cashflowValues = Array.from({length: 12}, (_, i) => {
-        const yearData = fundData.yearlyCashflows.find(cf => cf.year === fundData.vintage + i)
-        return yearData ? (yearData.netCashflowPercentage * 100).toFixed(2) : '0'
-      })
-      
-      return [
-        fundData.fundName,
-        fundData.vintage.toString(),
-        (fundData.commitmentAmount / 1000000).toFixed(0),
-        ...cashflowValues
-      ]
-    })
-
-    const csvContent = [headers, ...rows].map(row => row.join(',')).join('\n')
-    const blob = new Blob([csvContent], { type: 'text/csv' })
-    const url = URL.createObjectURL(blob)
-    
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `fund_cashflows_${new Date().toISOString().split('T')[0]}.csv`
-    a.click()
-    
-    URL.revokeObjectURL(url)
+    return downloadCashflowWorkbook(uploadedCashflows, `fund_cashflows_${new Date().toISOString().split('T')[0]}.xlsx`)
   }
 
   // Remove fund cashflow data
@@ -322,11 +268,11 @@ export default function CashflowUpload({ funds, onCashflowsUploaded, existingCas
         <CardContent>
           <div className="flex items-center gap-4">
             <div>
-              <Label htmlFor="file-upload">Upload CSV File</Label>
+              <Label htmlFor="file-upload">Upload Excel or CSV File</Label>
               <Input
                 id="file-upload"
                 type="file"
-                accept=".csv,.xlsx,.xls"
+                accept=".xlsx,.csv"
                 onChange={handleFileUpload}
                 ref={fileInputRef}
                 disabled={isUploading}
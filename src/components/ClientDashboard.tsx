@@ -4,64 +4,29 @@ import { Button } from './ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Badge } from './ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
-import { Target, TrendingUp, DollarSign, BarChart3 } from 'lucide-react'
-import { mockClients, mockClientFundPositions } from '../data/mockData'
-import { 
-  Client, ClientFundPosition, 
-  GeneralFund, GeneralFundNetCashflow, Portfolio, PortfolioPosition
-} from '../types'
-import { useLocalStorage } from '../hooks/useLocalStorage'
+import { Target, TrendingUp, Wallet, BarChart3, AlertTriangle } from 'lucide-react'
+import { useDataStore } from '../hooks/useDataStore'
+import { getPositionCalendarCashflows } from '../lib/portfolioCashflows'
+import { getClientExposure, isClientActive } from '../lib/clientMandates'
+import {
+  buildAllocationHoldings, checkAllocationTargets, formatAllocationBand, getAllocationBreaches, getAllocationDimensionLabel
+} from '../lib/allocationTargets'
 import ClientPortfolioView from './ClientPortfolioView'
 import NewPortfolioBuilder from './NewPortfolioBuilder'
+import ClientManagement from './ClientManagement'
 import { Toaster } from './ui/toaster'
 
 export default function ClientDashboard() {
   const [selectedClient, setSelectedClient] = useState<string>('')
   
-  // Client-related data
-  const [clients] = useLocalStorage<Client[]>('clients', mockClients)
-  const [clientPositions] = useLocalStorage<ClientFundPosition[]>('clientPositions', mockClientFundPositions)
-  
-  // General fund database (read-only for clients)
-  const [generalFunds] = useLocalStorage<GeneralFund[]>('generalFunds', [])
-  const [generalFundCashflows] = useLocalStorage<GeneralFundNetCashflow[]>('generalFundCashflows', [])
-  const [portfolios, setPortfolios] = useLocalStorage<Portfolio[]>('portfolios', [])
-  const [portfolioPositions, setPortfolioPositions] = useLocalStorage<PortfolioPosition[]>('portfolioPositions', [])
-
-  // Portfolio handlers
-  const handleCreatePortfolio = (portfolioData: Omit<Portfolio, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => {
-    const newPortfolio: Portfolio = {
-      ...portfolioData,
-      id: `portfolio-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setPortfolios([...portfolios, newPortfolio])
-  }
+  const {
+    clients, clientPositions, generalFunds, generalFundCashflows, portfolios, portfolioPositions,
+    createClient, updateClient, households, createHousehold, updateHousehold, deleteHousehold,
+    createPortfolio, updatePortfolio, clonePortfolio, addPosition, removePosition, updatePosition, updatePositions, scenarios,
+    fundTypeLibrary
+  } = useDataStore()
 
-  const handleAddPosition = (positionData: Omit<PortfolioPosition, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => {
-    const newPosition: PortfolioPosition = {
-      ...positionData,
-      id: `pos-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setPortfolioPositions([...portfolioPositions, newPosition])
-  }
-
-  const handleRemovePosition = (positionId: string) => {
-    setPortfolioPositions(portfolioPositions.filter(pos => pos.id !== positionId))
-  }
-
-  const handleUpdatePosition = (positionId: string, updates: Partial<PortfolioPosition>) => {
-    setPortfolioPositions(portfolioPositions.map(pos => 
-      pos.id === positionId 
-        ? { ...pos, ...updates, updatedAt: new Date().toISOString() }
-        : pos
-    ))
-  }
+  const activeClients = clients.filter(isClientActive)
 
   // Calculate portfolio summary for selected client
   const getClientPortfolioSummary = (clientId: string) => {
@@ -72,39 +37,67 @@ export default function ClientDashboard() {
     const totalCurrentCommitment = currentPositions.reduce((sum, p) => sum + p.commitmentAmount, 0)
     const totalTargetCommitment = targetPositions.reduce((sum, p) => sum + p.commitmentAmount, 0)
     const totalCurrentNav = currentPositions.reduce((sum, p) => sum + p.currentNav, 0)
+    const client = clients.find(c => c.id === clientId)
+    const clientExposure = getClientExposure(client ? [client] : [], portfolios, portfolioPositions)
     
     return {
       totalCurrentCommitment,
       totalTargetCommitment,
       totalCurrentNav,
       currentPositions: currentPositions.length,
-      targetPositions: targetPositions.length
+      targetPositions: targetPositions.length,
+      mandate: client?.mandate,
+      household: households.find(h => h.id === client?.householdId),
+      linkedPortfolios: clientExposure.portfolios.length,
+      // A single client has one base currency, so there is at most one entry
+      exposure: clientExposure.byCurrency[0]
     }
   }
 
   // Calculate overall client metrics
   const getOverallClientMetrics = () => {
-    const totalClients = clients.length
+    const totalClients = activeClients.length
     const totalPortfolios = portfolios.length
     const totalPositions = portfolioPositions.length
     const availableFunds = generalFunds.length
     
-    const totalPortfolioValue = portfolios.reduce((sum, portfolio) => {
-      const positions = portfolioPositions.filter(pos => pos.portfolioId === portfolio.id)
-      return sum + positions.reduce((posSum, pos) => posSum + pos.commitmentAmount, 0)
-    }, 0)
+    // Commitments are totalled per client base currency; portfolios without a client have no
+    // currency and are totalled on their own
+    const exposure = getClientExposure(clients, portfolios, portfolioPositions)
+    const linkedPortfolioIds = new Set(exposure.portfolios.map(portfolio => portfolio.id))
+    const unlinkedCommitment = portfolioPositions
+      .filter(pos => !linkedPortfolioIds.has(pos.portfolioId) && portfolios.some(p => p.id === pos.portfolioId))
+      .reduce((sum, pos) => sum + pos.commitmentAmount, 0)
     
     return {
       totalClients,
       totalPortfolios,
       totalPositions,
       availableFunds,
-      totalPortfolioValue
+      commitmentByCurrency: exposure.byCurrency.filter(entry => entry.totalCommitment > 0),
+      unlinkedCommitment
     }
   }
 
+  // Allocation targets of the client's portfolios that are outside their band, with committed
+  // exposure and projected NAV at the end of the current year
+  const getClientAllocationBreaches = (clientId: string) => portfolios
+    .filter(portfolio => portfolio.clientId === clientId && (portfolio.allocationTargets || []).length > 0)
+    .map(portfolio => {
+      const holdings = buildAllocationHoldings(
+        portfolioPositions.filter(pos => pos.portfolioId === portfolio.id),
+        generalFunds,
+        position => getPositionCalendarCashflows(position, generalFunds, generalFundCashflows, fundTypeLibrary),
+        new Date().getFullYear()
+      )
+      const checks = checkAllocationTargets(portfolio.allocationTargets || [], holdings, fundTypeLibrary)
+      return { portfolio, breaches: getAllocationBreaches(checks) }
+    })
+    .filter(entry => entry.breaches.length > 0)
+
   const overallMetrics = getOverallClientMetrics()
   const clientSummary = selectedClient ? getClientPortfolioSummary(selectedClient) : null
+  const clientAllocationBreaches = selectedClient ? getClientAllocationBreaches(selectedClient) : []
 
   return (
     <div className="container mx-auto px-6 py-6">
@@ -158,14 +151,22 @@ export default function ClientDashboard() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Portfolio Value</CardTitle>
-            <DollarSign className="h-4 w-4 text-orange-500" />
+            <Wallet className="h-4 w-4 text-orange-500" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-orange-600">
-              ${(overallMetrics.totalPortfolioValue / 1000000).toFixed(0)}M
+              {overallMetrics.commitmentByCurrency.length === 0 && overallMetrics.unlinkedCommitment === 0 && 'N/A'}
+              {overallMetrics.commitmentByCurrency.map(entry => (
+                <div key={entry.currency}>{entry.currency} {(entry.totalCommitment / 1000000).toFixed(0)}M</div>
+              ))}
             </div>
+            {overallMetrics.unlinkedCommitment > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {(overallMetrics.unlinkedCommitment / 1000000).toFixed(0)}M in portfolios without a client
+              </p>
+            )}
             <p className="text-xs text-muted-foreground">
-              Total commitment value
+              Total commitment value per client base currency
             </p>
           </CardContent>
         </Card>
@@ -186,7 +187,7 @@ export default function ClientDashboard() {
                 <SelectValue placeholder="Select a client" />
               </SelectTrigger>
               <SelectContent>
-                {clients.map(client => (
+                {activeClients.map(client => (
                   <SelectItem key={client.id} value={client.id}>
                     {client.name}
                   </SelectItem>
@@ -211,14 +212,85 @@ export default function ClientDashboard() {
               </div>
             )}
           </div>
+
+          {clientSummary && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Household</div>
+                <div className="font-medium">{clientSummary.household?.name || 'N/A'}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Linked Portfolios</div>
+                <div className="font-medium">
+                  {clientSummary.linkedPortfolios} • {clientSummary.exposure?.currency || 'USD'}{' '}
+                  {((clientSummary.exposure?.totalCommitment || 0) / 1000000).toFixed(0)}M committed
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Private Markets Target</div>
+                <div className="font-medium">
+                  {clientSummary.mandate && clientSummary.exposure?.targetAmount !== undefined
+                    ? `${clientSummary.mandate.privateMarketsTarget}% (${clientSummary.exposure.currency} ${(clientSummary.exposure.targetAmount / 1000000).toFixed(0)}M)`
+                    : 'N/A'}
+                </div>
+                {clientSummary.exposure?.privateMarketsShare !== undefined && (
+                  <div className="text-xs text-muted-foreground">
+                    {clientSummary.exposure.privateMarketsShare.toFixed(1)}% of investable assets committed
+                  </div>
+                )}
+              </div>
+              <div>
+                <div className="text-muted-foreground">Annual Liquidity Need</div>
+                <div className="font-medium">
+                  {clientSummary.mandate
+                    ? `${clientSummary.mandate.baseCurrency} ${(clientSummary.mandate.annualLiquidityNeed / 1000000).toFixed(1)}M`
+                    : 'N/A'}
+                </div>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {clientAllocationBreaches.length > 0 && (
+        <Card className="mb-8 border-red-200">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-red-700">
+              <AlertTriangle className="h-5 w-5" />
+              Allocation Target Breaches
+            </CardTitle>
+            <CardDescription>
+              Targets of this client's portfolios that committed capital or projected year-end NAV is outside of
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {clientAllocationBreaches.map(({ portfolio, breaches }) => (
+              <div key={portfolio.id}>
+                <div className="font-medium">{portfolio.name}</div>
+                {breaches.map(check => (
+                  <div key={check.target.id} className="flex items-center gap-2 text-sm">
+                    <Badge variant="destructive">
+                      {getAllocationDimensionLabel(check.target.dimension)}: {check.target.value}
+                    </Badge>
+                    <span>Band {formatAllocationBand(check.target)}</span>
+                    <span className="text-muted-foreground">
+                      Committed {check.committedShare.toFixed(1)}%
+                      {check.navShare !== undefined && `, NAV ${check.navShare.toFixed(1)}%`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Main Content Tabs */}
       <Tabs defaultValue="portfolio-builder" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="portfolio-builder">Portfolio Builder</TabsTrigger>
           <TabsTrigger value="client-analysis">Client Analysis</TabsTrigger>
+          <TabsTrigger value="clients">Clients</TabsTrigger>
         </TabsList>
 
         <TabsContent value="portfolio-builder">
@@ -227,11 +299,16 @@ export default function ClientDashboard() {
             generalFundCashflows={generalFundCashflows}
             portfolios={portfolios}
             portfolioPositions={portfolioPositions}
-            clients={clients}
-            onCreatePortfolio={handleCreatePortfolio}
-            onAddPosition={handleAddPosition}
-            onRemovePosition={handleRemovePosition}
-            onUpdatePosition={handleUpdatePosition}
+            clients={activeClients}
+            onCreatePortfolio={createPortfolio}
+            onUpdatePortfolio={updatePortfolio}
+            onClonePortfolio={clonePortfolio}
+            onAddPosition={addPosition}
+            onRemovePosition={removePosition}
+            onUpdatePosition={updatePosition}
+            onUpdatePositions={updatePositions}
+            scenarios={scenarios}
+            library={fundTypeLibrary}
           />
         </TabsContent>
 
@@ -242,6 +319,21 @@ export default function ClientDashboard() {
             funds={[]} // Legacy funds not needed in client view
             cashflows={[]} // Legacy cashflows not needed in client view
             clientPositions={clientPositions}
+            library={fundTypeLibrary}
+          />
+        </TabsContent>
+
+        <TabsContent value="clients">
+          <ClientManagement
+            clients={clients}
+            households={households}
+            portfolios={portfolios}
+            portfolioPositions={portfolioPositions}
+            onCreateClient={createClient}
+            onUpdateClient={updateClient}
+            onCreateHousehold={createHousehold}
+            onUpdateHousehold={updateHousehold}
+            onDeleteHousehold={deleteHousehold}
           />
         </TabsContent>
       </Tabs>
@@ -0,0 +1,516 @@
+import { Fragment, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Users, UserPlus, Home, Edit, Trash2, Archive, ArchiveRestore } from 'lucide-react'
+import { Client, ClientEntityType, Household, Portfolio, PortfolioPosition } from '../types'
+import { NewRecord } from '../hooks/useDataStore'
+import {
+  baseCurrencies, clientEntityTypes, getClientEntityTypeLabel, getClientExposure, isClientActive
+} from '../lib/clientMandates'
+import { useToast } from '../hooks/use-toast'
+
+interface ClientManagementProps {
+  clients: Client[]
+  households: Household[]
+  portfolios: Portfolio[]
+  portfolioPositions: PortfolioPosition[]
+  onCreateClient: (client: NewRecord<Client>) => Client
+  onUpdateClient: (id: string, updates: Partial<Client>) => void
+  onCreateHousehold: (household: NewRecord<Household>) => Household
+  onUpdateHousehold: (id: string, updates: Partial<Household>) => void
+  onDeleteHousehold: (id: string) => void
+}
+
+// Editable form of a client; mandate amounts are kept as typed
+interface ClientDraft {
+  id?: string
+  name: string
+  description: string
+  entityType: ClientEntityType
+  householdId: string
+  hasMandate: boolean
+  totalInvestableAssets: string
+  privateMarketsTarget: string
+  annualLiquidityNeed: string
+  baseCurrency: string
+  notes: string
+}
+
+// Select value for a client without a household
+const NO_HOUSEHOLD = 'none'
+
+const emptyClientDraft: ClientDraft = {
+  name: '',
+  description: '',
+  entityType: 'individual',
+  householdId: NO_HOUSEHOLD,
+  hasMandate: true,
+  totalInvestableAssets: '',
+  privateMarketsTarget: '',
+  annualLiquidityNeed: '0',
+  baseCurrency: 'USD',
+  notes: ''
+}
+
+const toClientDraft = (client: Client): ClientDraft => ({
+  id: client.id,
+  name: client.name,
+  description: client.description || '',
+  entityType: client.entityType || 'individual',
+  householdId: client.householdId || NO_HOUSEHOLD,
+  hasMandate: !!client.mandate,
+  totalInvestableAssets: client.mandate ? String(client.mandate.totalInvestableAssets) : '',
+  privateMarketsTarget: client.mandate ? String(client.mandate.privateMarketsTarget) : '',
+  annualLiquidityNeed: client.mandate ? String(client.mandate.annualLiquidityNeed) : '0',
+  baseCurrency: client.mandate?.baseCurrency || 'USD',
+  notes: client.mandate?.notes || ''
+})
+
+const parseClientDraft = (draft: ClientDraft) => {
+  const errors: string[] = []
+  if (!draft.name.trim()) errors.push('Name is required')
+
+  const investable = Number(draft.totalInvestableAssets)
+  const target = Number(draft.privateMarketsTarget)
+  const liquidity = Number(draft.annualLiquidityNeed || 0)
+  if (draft.hasMandate) {
+    if (draft.totalInvestableAssets.trim() === '' || isNaN(investable) || investable <= 0) {
+      errors.push('Total investable assets must be a positive amount')
+    }
+    if (draft.privateMarketsTarget.trim() === '' || isNaN(target) || target < 0 || target > 100) {
+      errors.push('Private markets target must be between 0 and 100%')
+    }
+    if (isNaN(liquidity) || liquidity < 0) errors.push('Annual liquidity need cannot be negative')
+  }
+
+  if (errors.length > 0) return { errors }
+  const client: NewRecord<Client> = {
+    name: draft.name.trim(),
+    description: draft.description.trim() || undefined,
+    entityType: draft.entityType,
+    householdId: draft.householdId === NO_HOUSEHOLD ? undefined : draft.householdId,
+    mandate: draft.hasMandate
+      ? {
+        totalInvestableAssets: investable,
+        privateMarketsTarget: target,
+        annualLiquidityNeed: liquidity,
+        baseCurrency: draft.baseCurrency,
+        notes: draft.notes.trim() || undefined
+      }
+      : undefined
+  }
+  return { errors, client }
+}
+
+export default function ClientManagement({
+  clients,
+  households,
+  portfolios,
+  portfolioPositions,
+  onCreateClient,
+  onUpdateClient,
+  onCreateHousehold,
+  onUpdateHousehold,
+  onDeleteHousehold
+}: ClientManagementProps) {
+  const [clientDraft, setClientDraft] = useState<ClientDraft | null>(null)
+  const [householdDraft, setHouseholdDraft] = useState<{ id?: string; name: string; description: string } | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
+  const { toast } = useToast()
+
+  const parsedClient = clientDraft ? parseClientDraft(clientDraft) : null
+  const visibleClients = clients.filter(client => showArchived || isClientActive(client))
+
+  const formatCurrency = (amount: number) => {
+    if (Math.abs(amount) >= 1000000000) {
+      return `${(amount / 1000000000).toFixed(1)}B`
+    }
+    if (Math.abs(amount) >= 1000000) {
+      return `${(amount / 1000000).toFixed(0)}M`
+    }
+    return `${(amount / 1000).toFixed(0)}K`
+  }
+
+  const handleSaveClient = () => {
+    if (!clientDraft || !parsedClient?.client) return
+    if (clientDraft.id) {
+      onUpdateClient(clientDraft.id, parsedClient.client)
+    } else {
+      onCreateClient(parsedClient.client)
+    }
+    setClientDraft(null)
+    toast({
+      title: clientDraft.id ? "Client Updated" : "Client Created",
+      description: `${parsedClient.client.name} has been saved.`
+    })
+  }
+
+  const handleSaveHousehold = () => {
+    if (!householdDraft || !householdDraft.name.trim()) return
+    const household = { name: householdDraft.name.trim(), description: householdDraft.description.trim() || undefined }
+    if (householdDraft.id) {
+      onUpdateHousehold(householdDraft.id, household)
+    } else {
+      onCreateHousehold(household)
+    }
+    setHouseholdDraft(null)
+  }
+
+  const handleToggleArchive = (client: Client) => {
+    onUpdateClient(client.id, { archivedAt: client.archivedAt ? undefined : new Date().toISOString() })
+    toast({
+      title: client.archivedAt ? "Client Restored" : "Client Archived",
+      description: client.archivedAt
+        ? `${client.name} is available for selection again.`
+        : `${client.name} is hidden from selection. Its portfolios are kept.`
+    })
+  }
+
+  const renderExposure = (group: Client[]) => {
+    // One line per base currency; amounts in different currencies are never added up
+    const exposure = getClientExposure(group, portfolios, portfolioPositions)
+    const targets = exposure.byCurrency.filter(entry => entry.targetAmount !== undefined)
+    return {
+      portfolios: exposure.portfolios.length,
+      committed: exposure.byCurrency.length > 0 ? (
+        <div>
+          {exposure.byCurrency.map(entry => (
+            <div key={entry.currency}>{entry.currency} {formatCurrency(entry.totalCommitment)}</div>
+          ))}
+        </div>
+      ) : 'N/A',
+      target: targets.length > 0 ? (
+        <div>
+          {targets.map(entry => (
+            <div key={entry.currency}>
+              <div>{entry.currency} {formatCurrency(entry.targetAmount!)}</div>
+              {entry.commitmentGap !== undefined && (
+                <div className={`text-xs ${entry.commitmentGap < 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                  {entry.commitmentGap >= 0
+                    ? `${formatCurrency(entry.commitmentGap)} to commit`
+                    : `${formatCurrency(-entry.commitmentGap)} over target`}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : 'N/A'
+    }
+  }
+
+  const renderClientRow = (client: Client) => {
+    const exposure = renderExposure([client])
+    return (
+      <TableRow key={client.id} className={client.archivedAt ? 'opacity-60' : undefined}>
+        <TableCell>
+          <div className="font-medium flex items-center gap-2">
+            {client.name}
+            {client.archivedAt && <Badge variant="outline">Archived</Badge>}
+          </div>
+          {client.description && <div className="text-sm text-muted-foreground">{client.description}</div>}
+        </TableCell>
+        <TableCell>{getClientEntityTypeLabel(client.entityType)}</TableCell>
+        <TableCell className="text-sm">
+          {client.mandate ? (
+            <div>
+              <div>
+                {client.mandate.baseCurrency} {formatCurrency(client.mandate.totalInvestableAssets)} investable,
+                {` ${client.mandate.privateMarketsTarget}%`} private markets
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Liquidity need {client.mandate.baseCurrency} {formatCurrency(client.mandate.annualLiquidityNeed)} / year
+              </div>
+            </div>
+          ) : (
+            <span className="text-muted-foreground">No mandate</span>
+          )}
+        </TableCell>
+        <TableCell className="text-right">{exposure.portfolios}</TableCell>
+        <TableCell className="text-right">{exposure.committed}</TableCell>
+        <TableCell className="text-right">{exposure.target}</TableCell>
+        <TableCell>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={() => setClientDraft(toClientDraft(client))}>
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              title={client.archivedAt ? 'Restore' : 'Archive'}
+              onClick={() => handleToggleArchive(client)}
+            >
+              {client.archivedAt ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+            </Button>
+          </div>
+        </TableCell>
+      </TableRow>
+    )
+  }
+
+  const standaloneClients = visibleClients.filter(client => !households.some(h => h.id === client.householdId))
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Client Management
+            </CardTitle>
+            <CardDescription>
+              Clients, the households they belong to and their mandates. Totals come from the portfolios linked to each client.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Checkbox id="show-archived" checked={showArchived} onCheckedChange={(checked) => setShowArchived(checked === true)} />
+              <Label htmlFor="show-archived">Show archived</Label>
+            </div>
+            <Button variant="outline" onClick={() => setHouseholdDraft({ name: '', description: '' })}>
+              <Home className="h-4 w-4 mr-2" />
+              New Household
+            </Button>
+            <Button onClick={() => setClientDraft(emptyClientDraft)}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              New Client
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Client</TableHead>
+              <TableHead>Entity</TableHead>
+              <TableHead>Mandate</TableHead>
+              <TableHead className="text-right">Portfolios</TableHead>
+              <TableHead className="text-right">Committed</TableHead>
+              <TableHead className="text-right">Private Markets Target</TableHead>
+              <TableHead className="w-24">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {households.map(household => {
+              const members = visibleClients.filter(client => client.householdId === household.id)
+              const exposure = renderExposure(clients.filter(client => client.householdId === household.id && isClientActive(client)))
+              return (
+                <Fragment key={household.id}>
+                  <TableRow className="bg-muted/50">
+                    <TableCell colSpan={3}>
+                      <div className="font-medium flex items-center gap-2">
+                        <Home className="h-4 w-4" />
+                        {household.name}
+                        <Badge variant="secondary">{members.length} entities</Badge>
+                      </div>
+                      {household.description && <div className="text-sm text-muted-foreground">{household.description}</div>}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{exposure.portfolios}</TableCell>
+                    <TableCell className="text-right font-medium">{exposure.committed}</TableCell>
+                    <TableCell className="text-right font-medium">{exposure.target}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setHouseholdDraft({ id: household.id, name: household.name, description: household.description || '' })}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" title="Delete household (keeps its clients)" onClick={() => onDeleteHousehold(household.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  {members.map(renderClientRow)}
+                </Fragment>
+              )
+            })}
+            {households.length > 0 && standaloneClients.length > 0 && (
+              <TableRow className="bg-muted/50">
+                <TableCell colSpan={7} className="font-medium">Clients without a household</TableCell>
+              </TableRow>
+            )}
+            {standaloneClients.map(renderClientRow)}
+            {visibleClients.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">No clients yet</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={clientDraft !== null} onOpenChange={(open) => { if (!open) setClientDraft(null) }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{clientDraft?.id ? 'Edit Client' : 'New Client'}</DialogTitle>
+            <DialogDescription>Client details, household and investment mandate</DialogDescription>
+          </DialogHeader>
+          {clientDraft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="client-name">Name *</Label>
+                  <Input
+                    id="client-name"
+                    value={clientDraft.name}
+                    onChange={(e) => setClientDraft({ ...clientDraft, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Entity Type</Label>
+                  <Select
+                    value={clientDraft.entityType}
+                    onValueChange={(value) => setClientDraft({ ...clientDraft, entityType: value as ClientEntityType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {clientEntityTypes.map(type => <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Household</Label>
+                  <Select value={clientDraft.householdId} onValueChange={(value) => setClientDraft({ ...clientDraft, householdId: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_HOUSEHOLD}>No household</SelectItem>
+                      {households.map(household => <SelectItem key={household.id} value={household.id}>{household.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="client-description">Description</Label>
+                  <Input
+                    id="client-description"
+                    value={clientDraft.description}
+                    onChange={(e) => setClientDraft({ ...clientDraft, description: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="client-has-mandate"
+                  checked={clientDraft.hasMandate}
+                  onCheckedChange={(checked) => setClientDraft({ ...clientDraft, hasMandate: checked === true })}
+                />
+                <Label htmlFor="client-has-mandate">Record a mandate</Label>
+              </div>
+
+              {clientDraft.hasMandate && (
+                <div className="grid grid-cols-2 gap-4 border rounded-lg p-3">
+                  <div>
+                    <Label htmlFor="client-investable">Total Investable Assets *</Label>
+                    <Input
+                      id="client-investable"
+                      type="number"
+                      value={clientDraft.totalInvestableAssets}
+                      onChange={(e) => setClientDraft({ ...clientDraft, totalInvestableAssets: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="client-pm-target">Private Markets Target (%) *</Label>
+                    <Input
+                      id="client-pm-target"
+                      type="number"
+                      value={clientDraft.privateMarketsTarget}
+                      onChange={(e) => setClientDraft({ ...clientDraft, privateMarketsTarget: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="client-liquidity">Annual Liquidity Need</Label>
+                    <Input
+                      id="client-liquidity"
+                      type="number"
+                      value={clientDraft.annualLiquidityNeed}
+                      onChange={(e) => setClientDraft({ ...clientDraft, annualLiquidityNeed: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Base Currency</Label>
+                    <Select value={clientDraft.baseCurrency} onValueChange={(value) => setClientDraft({ ...clientDraft, baseCurrency: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {baseCurrencies.map(currency => <SelectItem key={currency} value={currency}>{currency}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-2">
+                    <Label htmlFor="client-mandate-notes">Mandate Notes</Label>
+                    <Textarea
+                      id="client-mandate-notes"
+                      rows={2}
+                      value={clientDraft.notes}
+                      onChange={(e) => setClientDraft({ ...clientDraft, notes: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {parsedClient && parsedClient.errors.length > 0 && clientDraft.name && (
+                <div className="text-sm text-red-600">
+                  {parsedClient.errors.map(error => <div key={error}>{error}</div>)}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setClientDraft(null)}>Cancel</Button>
+            <Button onClick={handleSaveClient} disabled={!parsedClient?.client}>Save Client</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={householdDraft !== null} onOpenChange={(open) => { if (!open) setHouseholdDraft(null) }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{householdDraft?.id ? 'Edit Household' : 'New Household'}</DialogTitle>
+            <DialogDescription>Group related entities, e.g. a family's trusts and holding companies</DialogDescription>
+          </DialogHeader>
+          {householdDraft && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="household-name">Name *</Label>
+                <Input
+                  id="household-name"
+                  value={householdDraft.name}
+                  onChange={(e) => setHouseholdDraft({ ...householdDraft, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="household-description">Description</Label>
+                <Input
+                  id="household-description"
+                  value={householdDraft.description}
+                  onChange={(e) => setHouseholdDraft({ ...householdDraft, description: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setHouseholdDraft(null)}>Cancel</Button>
+            <Button onClick={handleSaveHousehold} disabled={!householdDraft?.name.trim()}>Save Household</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -8,7 +8,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Input } from './ui/input'
 import { Label } from './ui/label'
 import { Plus, TrendingUp, TrendingDown, Eye } from 'lucide-react'
-import { Fund, Cashflow, Client, ClientFundPosition } from '../types'
+import { Fund, Cashflow, Client, ClientFundPosition, BenchmarkIndexLevel, FundTypeExpectation } from '../types'
+import { analyzeFundPerformance } from '../lib/performanceMetrics'
+import { buildLegacyLiquidityProjection } from '../lib/liquidityStress'
+import LiquidityStressTest from './LiquidityStressTest'
 
 interface ClientPortfolioViewProps {
   selectedClient: string
@@ -16,6 +19,8 @@ interface ClientPortfolioViewProps {
   funds: Fund[]
   cashflows: Cashflow[]
   clientPositions: ClientFundPosition[]
+  benchmarkIndex?: BenchmarkIndexLevel[] // Enables the PME column when supplied
+  library: FundTypeExpectation[]
 }
 
 export default function ClientPortfolioView({ 
@@ -23,7 +28,9 @@ export default function ClientPortfolioView({
   clients, 
   funds, 
   cashflows, 
-  clientPositions 
+  clientPositions,
+  benchmarkIndex,
+  library
 }: ClientPortfolioViewProps) {
   const [showAddPosition, setShowAddPosition] = useState(false)
   const [selectedFund, setSelectedFund] = useState('')
@@ -50,6 +57,8 @@ export default function ClientPortfolioView({
   const positions = clientPositions.filter(p => p.clientId === selectedClient)
   const currentPositions = positions.filter(p => p.positionType === 'current')
   const targetPositions = positions.filter(p => p.positionType === 'target')
+  const currentYear = new Date().getFullYear()
+  const liquidityProjection = buildLegacyLiquidityProjection(currentPositions, funds, cashflows, currentYear, library)
 
   // Calculate cashflow projections for client positions
   const getPositionCashflowProjection = (position: ClientFundPosition) => {
@@ -63,19 +72,7 @@ export default function ClientPortfolioView({
     const scalingFactor = position.commitmentAmount / totalFundCommitment
 
     // Project future cashflows based on historical patterns
-    const totalCalls = fundCashflows.reduce((sum, cf) => sum + cf.calls, 0) * scalingFactor
-    const totalDistributions = fundCashflows.reduce((sum, cf) => sum + cf.distributions, 0) * scalingFactor
-    const currentNav = position.currentNav
-    const netCashflow = totalDistributions - totalCalls
-    const multiple = totalCalls > 0 ? (totalDistributions + currentNav) / totalCalls : 0
-
-    return {
-      totalCalls,
-      totalDistributions,
-      currentNav,
-      netCashflow,
-      multiple
-    }
+    return analyzeFundPerformance(fundCashflows, { scalingFactor, currentNav: position.currentNav, benchmarkIndex })
   }
 
   const handleAddPosition = () => {
@@ -191,6 +188,8 @@ export default function ClientPortfolioView({
                   <TableHead className="text-right">Total Calls</TableHead>
                   <TableHead className="text-right">Total Distributions</TableHead>
                   <TableHead className="text-right">Multiple</TableHead>
+                  <TableHead className="text-right">IRR</TableHead>
+                  <TableHead className="text-right">KS-PME</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -222,6 +221,12 @@ export default function ClientPortfolioView({
                           {projection ? projection.multiple.toFixed(2) : '0.00'}x
                         </span>
                       </TableCell>
+                      <TableCell className="text-right">
+                        {projection?.irr !== undefined ? `${projection.irr.toFixed(1)}%` : 'N/A'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {projection?.pme !== undefined ? `${projection.pme.toFixed(2)}x` : 'N/A'}
+                      </TableCell>
                     </TableRow>
                   )
                 })}
@@ -327,6 +332,16 @@ export default function ClientPortfolioView({
           </CardContent>
         </Card>
       )}
+
+      {/* Unfunded Commitment Liquidity */}
+      {currentPositions.length > 0 && (
+        <LiquidityStressTest
+          key={selectedClient}
+          projection={liquidityProjection}
+          startYear={currentYear}
+          defaultLiquidAssets={liquidityProjection.unfundedCommitments}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
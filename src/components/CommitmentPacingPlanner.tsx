@@ -0,0 +1,314 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Badge } from './ui/badge'
+import { CalendarRange } from 'lucide-react'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { FundTypeExpectation, Portfolio, PacingPlanInput } from '../types'
+import { getFundTypes } from '../data/fundExpectations'
+import { solveCommitmentPacing } from '../lib/pacingPlanner'
+
+interface CommitmentPacingPlannerProps {
+  portfolio: Portfolio
+  library: FundTypeExpectation[]
+}
+
+const fundTypeColors = ['#3b82f6', '#8b5cf6', '#22c55e', '#f97316', '#ef4444', '#eab308']
+
+// Even split over the library's fund types in whole percentages, the first types taking the remainder
+const getDefaultFundTypeMix = (library: FundTypeExpectation[]) => {
+  const fundTypes = getFundTypes(library)
+  return Object.fromEntries(fundTypes.map((fundType, index) => [
+    fundType,
+    Math.floor(100 / fundTypes.length) + (index < 100 % fundTypes.length ? 1 : 0)
+  ]))
+}
+
+export default function CommitmentPacingPlanner({ portfolio, library }: CommitmentPacingPlannerProps) {
+  const [planInput, setPlanInput] = useState<Omit<PacingPlanInput, 'totalPlanSize' | 'fundTypeMix'>>({
+    startYear: new Date().getFullYear(),
+    horizonYears: 10,
+    planGrowthRate: 5,
+    targetType: 'allocation',
+    targetAllocation: 15,
+    targetNav: portfolio.totalSize * 0.15
+  })
+  // Follows the library until the user edits a weight
+  const [editedFundTypeMix, setEditedFundTypeMix] = useState<Record<string, number> | null>(null)
+  const fundTypeMix = editedFundTypeMix ?? getDefaultFundTypeMix(library)
+
+  const planYears = solveCommitmentPacing({ ...planInput, fundTypeMix, totalPlanSize: portfolio.totalSize }, library)
+  const mixFundTypes = Object.keys(fundTypeMix).filter(type => fundTypeMix[type] > 0)
+  const totalMix = Object.values(fundTypeMix).reduce((sum, weight) => sum + weight, 0)
+
+  const chartData = planYears.map(planYear => ({
+    year: planYear.year,
+    ...planYear.commitments,
+    projectedNav: planYear.projectedNav,
+    targetNav: planYear.targetNav
+  }))
+
+  const formatCurrency = (amount: number) => {
+    if (Math.abs(amount) >= 1000000000) {
+      return `${(amount / 1000000000).toFixed(1)}B`
+    }
+    if (Math.abs(amount) >= 1000000) {
+      return `${(amount / 1000000).toFixed(0)}M`
+    }
+    return `${(amount / 1000).toFixed(0)}K`
+  }
+
+  // Projected minus target NAV, with its share of the target
+  const formatNavGap = (gap: number, targetNav: number) => {
+    const share = targetNav > 0 ? ` (${((gap / targetNav) * 100).toFixed(1)}%)` : ''
+    return `${gap < 0 ? '-' : '+'}$${formatCurrency(Math.abs(gap))}${share}`
+  }
+
+  const handleMixChange = (fundType: string, value: number) => {
+    setEditedFundTypeMix({ ...fundTypeMix, [fundType]: isNaN(value) ? 0 : value })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Plan Inputs */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarRange className="h-5 w-5" />
+            Commitment Pacing Planner
+          </CardTitle>
+          <CardDescription>
+            Solve for annual commitments by fund type that reach a target NAV or private-markets allocation
+            of the ${formatCurrency(portfolio.totalSize)} total plan
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div>
+              <Label htmlFor="targetType">Target</Label>
+              <Select
+                value={planInput.targetType}
+                onValueChange={(value: 'allocation' | 'nav') => setPlanInput({...planInput, targetType: value})}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="allocation">Allocation % of Plan</SelectItem>
+                  <SelectItem value="nav">Fixed NAV Amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {planInput.targetType === 'allocation' ? (
+              <div>
+                <Label htmlFor="targetAllocation">Target Allocation (%)</Label>
+                <Input
+                  id="targetAllocation"
+                  type="number"
+                  step="0.5"
+                  value={planInput.targetAllocation}
+                  onChange={(e) => setPlanInput({...planInput, targetAllocation: parseFloat(e.target.value) || 0})}
+                />
+              </div>
+            ) : (
+              <div>
+                <Label htmlFor="targetNav">Target NAV</Label>
+                <Input
+                  id="targetNav"
+                  type="number"
+                  value={planInput.targetNav}
+                  onChange={(e) => setPlanInput({...planInput, targetNav: parseFloat(e.target.value) || 0})}
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="planGrowthRate">Plan Growth (%/yr)</Label>
+              <Input
+                id="planGrowthRate"
+                type="number"
+                step="0.5"
+                value={planInput.planGrowthRate}
+                onChange={(e) => setPlanInput({...planInput, planGrowthRate: parseFloat(e.target.value) || 0})}
+              />
+            </div>
+            <div>
+              <Label htmlFor="startYear">Start Year</Label>
+              <Input
+                id="startYear"
+                type="number"
+                value={planInput.startYear}
+                onChange={(e) => setPlanInput({...planInput, startYear: parseInt(e.target.value) || planInput.startYear})}
+              />
+            </div>
+            <div>
+              <Label htmlFor="horizonYears">Horizon (years)</Label>
+              <Input
+                id="horizonYears"
+                type="number"
+                min="1"
+                max="30"
+                value={planInput.horizonYears}
+                onChange={(e) => setPlanInput({...planInput, horizonYears: Math.min(parseInt(e.target.value) || 0, 30)})}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label>Commitment Split by Fund Type (%)</Label>
+              <Badge variant={Math.abs(totalMix - 100) < 0.01 ? 'secondary' : 'destructive'}>
+                Total {totalMix.toFixed(0)}%
+              </Badge>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+              {getFundTypes(library).map(fundType => (
+                <div key={fundType}>
+                  <Label htmlFor={`mix-${fundType}`} className="text-xs">{fundType}</Label>
+                  <Input
+                    id={`mix-${fundType}`}
+                    type="number"
+                    min="0"
+                    value={fundTypeMix[fundType] || 0}
+                    onChange={(e) => handleMixChange(fundType, parseFloat(e.target.value))}
+                  />
+                </div>
+              ))}
+            </div>
+            {Math.abs(totalMix - 100) >= 0.01 && totalMix > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Weights are rescaled to 100% when solving
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {planYears.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <CalendarRange className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="text-muted-foreground">Set a fund type split and horizon to solve the pacing plan</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Commitments and NAV Path Chart */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Commitment Schedule & Projected NAV</CardTitle>
+              <CardDescription>
+                Annual commitments stacked by fund type (bars) against projected and target NAV (lines)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-96">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="year" />
+                    <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                    <Tooltip formatter={(value: number) => `$${formatCurrency(value)}`} />
+                    <Legend />
+                    {mixFundTypes.map((fundType, index) => (
+                      <Bar
+                        key={fundType}
+                        dataKey={fundType}
+                        stackId="commitments"
+                        fill={fundTypeColors[index % fundTypeColors.length]}
+                        name={`${fundType} Commitment`}
+                      />
+                    ))}
+                    <Line
+                      type="monotone"
+                      dataKey="projectedNav"
+                      stroke="#0f172a"
+                      strokeWidth={3}
+                      name="Projected NAV"
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="targetNav"
+                      stroke="#f97316"
+                      strokeDasharray="5 5"
+                      strokeWidth={2}
+                      name="Target NAV"
+                      dot={false}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Year-by-Year Schedule */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Year-by-Year Commitment Schedule</CardTitle>
+              <CardDescription>
+                Commitments per vintage year with the resulting calls, distributions and NAV path. Projected NAV
+                trails the target while the first vintages ramp up; the gap column shows what is left in each year.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Vintage</TableHead>
+                      {mixFundTypes.map(fundType => (
+                        <TableHead key={fundType} className="text-right">{fundType}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Total Commitment</TableHead>
+                      <TableHead className="text-right">Calls</TableHead>
+                      <TableHead className="text-right">Distributions</TableHead>
+                      <TableHead className="text-right">Projected NAV</TableHead>
+                      <TableHead className="text-right">Target NAV</TableHead>
+                      <TableHead className="text-right">Gap to Target</TableHead>
+                      <TableHead className="text-right">Allocation</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {planYears.map(planYear => (
+                      <TableRow key={planYear.year}>
+                        <TableCell className="font-medium">{planYear.year}</TableCell>
+                        {mixFundTypes.map(fundType => (
+                          <TableCell key={fundType} className="text-right">
+                            ${formatCurrency(planYear.commitments[fundType] || 0)}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-medium">
+                          ${formatCurrency(planYear.totalCommitment)}
+                        </TableCell>
+                        <TableCell className="text-right text-red-600">
+                          ${formatCurrency(planYear.calls)}
+                        </TableCell>
+                        <TableCell className="text-right text-green-600">
+                          ${formatCurrency(planYear.distributions)}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          ${formatCurrency(planYear.projectedNav)}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          ${formatCurrency(planYear.targetNav)}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">
+                          {formatNavGap(planYear.projectedNav - planYear.targetNav, planYear.targetNav)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {planYear.allocationPercentage.toFixed(1)}%
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -5,13 +5,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Badge } from './ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Plus, TrendingUp, TrendingDown, DollarSign, BarChart3, Upload, Database, Target } from 'lucide-react'
-import { mockFunds, mockCashflows, mockClients, mockClientFundPositions } from '../data/mockData'
-import { 
-  Fund, Cashflow, Client, ClientFundPosition, CashflowAnalysis, ExcelTemplate, 
-  FundCashflowTemplate, FundRule, ExcelCashflowUpload,
-  GeneralFund, GeneralFundNetCashflow, Portfolio, PortfolioPosition, GeneralFundUpload
-} from '../types'
-import { useLocalStorage } from '../hooks/useLocalStorage'
+import { Fund, Cashflow, ExcelTemplate } from '../types'
+import { useDataStore } from '../hooks/useDataStore'
 import ClientPortfolioView from './ClientPortfolioView'
 import FundManagement from './FundManagement'
 import CashflowAnalysisView from './CashflowAnalysisView'
@@ -21,39 +16,32 @@ import NewPortfolioBuilder from './NewPortfolioBuilder'
 import GeneralFundDatabase from './GeneralFundDatabase'
 import FundMenu from './FundMenu'
 import ExportDialog from './ExportDialog'
+import BenchmarkIndexDialog from './BenchmarkIndexDialog'
 import BackendManagement from './BackendManagement'
+import LegacyMigration from './LegacyMigration'
 import { Toaster } from './ui/toaster'
 import { useToast } from '../hooks/use-toast'
+import { isClientActive } from '../lib/clientMandates'
 
 export default function Dashboard() {
   const [selectedClient, setSelectedClient] = useState<string>('')
   
-  // Legacy data (for backward compatibility)
-  const [funds, setFunds] = useLocalStorage<Fund[]>('funds', mockFunds)
-  const [cashflows, setCashflows] = useLocalStorage<Cashflow[]>('cashflows', mockCashflows)
-  const [clients] = useLocalStorage<Client[]>('clients', mockClients)
-  const [clientPositions] = useLocalStorage<ClientFundPosition[]>('clientPositions', mockClientFundPositions)
-  const [cashflowTemplates, setCashflowTemplates] = useLocalStorage<FundCashflowTemplate[]>('cashflowTemplates', [])
-  const [fundRules, setFundRules] = useLocalStorage<FundRule[]>('fundRules', [])
-  
-  // New data structure
-  const [generalFunds, setGeneralFunds] = useLocalStorage<GeneralFund[]>('generalFunds', [])
-  const [generalFundCashflows, setGeneralFundCashflows] = useLocalStorage<GeneralFundNetCashflow[]>('generalFundCashflows', [])
-  const [portfolios, setPortfolios] = useLocalStorage<Portfolio[]>('portfolios', [])
-  const [portfolioPositions, setPortfolioPositions] = useLocalStorage<PortfolioPosition[]>('portfolioPositions', [])
+  const {
+    funds, cashflows, clients, clientPositions, cashflowTemplates, fundRules,
+    generalFunds, generalFundCashflows, portfolios, portfolioPositions,
+    addFund, addCashflow, importExcelTemplate, uploadExcelCashflows, addCashflowTemplate,
+    addFundRule, updateFundRule, deleteFundRule,
+    addGeneralFund, addGeneralFundCashflows, updateGeneralFund, deleteGeneralFund, bulkUploadGeneralFund,
+    addGeneralFundsWithCashflows, addPortfoliosWithPositions,
+    createPortfolio, updatePortfolio, clonePortfolio, addPosition, removePosition, updatePosition, updatePositions, scenarios,
+    benchmarkIndex, saveBenchmarkIndex, fundTypeLibrary
+  } = useDataStore()
   
   const { toast } = useToast()
 
   // Legacy handlers (for backward compatibility)
   const handleAddFund = (fundData: Omit<Fund, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => {
-    const newFund: Fund = {
-      ...fundData,
-      id: `fund-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setFunds([...funds, newFund])
+    addFund(fundData)
     toast({
       title: "Fund Added",
       description: `${fundData.name} has been successfully added to your portfolio.`,
@@ -61,14 +49,7 @@ export default function Dashboard() {
   }
 
   const handleAddCashflow = (cashflowData: Omit<Cashflow, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => {
-    const newCashflow: Cashflow = {
-      ...cashflowData,
-      id: `cf-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setCashflows([...cashflows, newCashflow])
+    addCashflow(cashflowData)
     const fundName = funds.find(f => f.id === cashflowData.fundId)?.name || 'Unknown Fund'
     toast({
       title: "Cashflow Added",
@@ -77,213 +58,13 @@ export default function Dashboard() {
   }
 
   const handleExcelImport = (template: ExcelTemplate) => {
-    const newFund: Fund = {
-      id: `fund-${Date.now()}`,
-      name: template.fundName,
-      vintage: template.vintage,
-      commitmentAmount: template.commitmentAmount,
-      fundType: template.fundType,
-      managementFeeRate: template.managementFeeRate,
-      carriedInterestRate: template.carriedInterestRate,
-      taxRate: template.taxRate,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    
-    setFunds([...funds, newFund])
-    
-    if (template.cashflows && template.cashflows.length > 0) {
-      const newCashflows = template.cashflows.map(cf => ({
-        id: `cf-${Date.now()}-${cf.year}-${cf.quarter}`,
-        fundId: newFund.id,
-        ...cf,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        userId: 'user-1'
-      }))
-      setCashflows([...cashflows, ...newCashflows])
-    }
+    importExcelTemplate(template)
     toast({
       title: "Excel Import Complete",
       description: `${template.fundName} has been imported successfully.`,
     })
   }
 
-  const handleExcelCashflowUpload = (data: ExcelCashflowUpload) => {
-    const existingFund = funds.find(f => f.name === data.fundName && f.vintage === data.vintage)
-    let fundId: string
-    
-    if (existingFund) {
-      fundId = existingFund.id
-    } else {
-      const newFund: Fund = {
-        id: `fund-${Date.now()}`,
-        name: data.fundName,
-        vintage: data.vintage,
-        commitmentAmount: data.commitmentAmount,
-        fundType: data.fundType,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        userId: 'user-1'
-      }
-      setFunds([...funds, newFund])
-      fundId = newFund.id
-    }
-
-    const newTemplates = data.yearlyNetCashflows.map((percentage, index) => ({
-      id: `template-${Date.now()}-${index}`,
-      fundId,
-      year: index + 1,
-      netCashflowPercentage: percentage,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }))
-
-    const filteredTemplates = cashflowTemplates.filter(t => t.fundId !== fundId)
-    setCashflowTemplates([...filteredTemplates, ...newTemplates])
-  }
-
-  const handleAddCashflowTemplate = (template: Omit<FundCashflowTemplate, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => {
-    const newTemplate: FundCashflowTemplate = {
-      ...template,
-      id: `template-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setCashflowTemplates([...cashflowTemplates, newTemplate])
-  }
-
-  const handleAddFundRule = (rule: Omit<FundRule, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => {
-    const newRule: FundRule = {
-      ...rule,
-      id: `rule-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setFundRules([...fundRules, newRule])
-  }
-
-  const handleUpdateFundRule = (id: string, updates: Partial<FundRule>) => {
-    setFundRules(fundRules.map(rule => 
-      rule.id === id 
-        ? { ...rule, ...updates, updatedAt: new Date().toISOString() }
-        : rule
-    ))
-  }
-
-  const handleDeleteFundRule = (id: string) => {
-    setFundRules(fundRules.filter(rule => rule.id !== id))
-  }
-
-  // New handlers for general fund database
-  const handleAddGeneralFund = (fundData: Omit<GeneralFund, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => {
-    const newFund: GeneralFund = {
-      ...fundData,
-      id: `gf-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setGeneralFunds([...generalFunds, newFund])
-  }
-
-  const handleAddGeneralFundCashflows = (cashflows: Omit<GeneralFundNetCashflow, 'id' | 'createdAt' | 'updatedAt' | 'userId'>[]) => {
-    const newCashflows = cashflows.map(cf => ({
-      ...cf,
-      id: `gfc-${Date.now()}-${Math.random()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }))
-    setGeneralFundCashflows([...generalFundCashflows, ...newCashflows])
-  }
-
-  const handleUpdateGeneralFund = (id: string, updates: Partial<GeneralFund>) => {
-    setGeneralFunds(generalFunds.map(fund => 
-      fund.id === id 
-        ? { ...fund, ...updates, updatedAt: new Date().toISOString() }
-        : fund
-    ))
-  }
-
-  const handleDeleteGeneralFund = (id: string) => {
-    setGeneralFunds(generalFunds.filter(fund => fund.id !== id))
-    setGeneralFundCashflows(generalFundCashflows.filter(cf => cf.fundId !== id))
-  }
-
-  const handleBulkUpload = (upload: GeneralFundUpload) => {
-    // Create the fund
-    const newFund: GeneralFund = {
-      id: `gf-${Date.now()}`,
-      name: upload.fundName,
-      vintage: upload.vintage,
-      fundType: upload.fundType,
-      strategy: upload.strategy,
-      geography: upload.geography,
-      expectedLifespan: upload.expectedLifespan,
-      managementFeeRate: upload.managementFeeRate,
-      carriedInterestRate: upload.carriedInterestRate,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setGeneralFunds([...generalFunds, newFund])
-
-    // Create the cashflows
-    const newCashflows = upload.yearlyNetCashflows.map(cf => ({
-      id: `gfc-${Date.now()}-${cf.year}`,
-      fundId: newFund.id,
-      year: cf.year,
-      netCashflowPercentage: cf.netCashflowPercentage,
-      contributionsPercentage: cf.contributionsPercentage,
-      distributionsPercentage: cf.distributionsPercentage,
-      navPercentage: cf.navPercentage,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }))
-    setGeneralFundCashflows([...generalFundCashflows, ...newCashflows])
-  }
-
-  // Portfolio handlers
-  const handleCreatePortfolio = (portfolioData: Omit<Portfolio, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => {
-    const newPortfolio: Portfolio = {
-      ...portfolioData,
-      id: `portfolio-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setPortfolios([...portfolios, newPortfolio])
-  }
-
-  const handleAddPosition = (positionData: Omit<PortfolioPosition, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => {
-    const newPosition: PortfolioPosition = {
-      ...positionData,
-      id: `pos-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setPortfolioPositions([...portfolioPositions, newPosition])
-  }
-
-  const handleRemovePosition = (positionId: string) => {
-    setPortfolioPositions(portfolioPositions.filter(pos => pos.id !== positionId))
-  }
-
-  const handleUpdatePosition = (positionId: string, updates: Partial<PortfolioPosition>) => {
-    setPortfolioPositions(portfolioPositions.map(pos => 
-      pos.id === positionId 
-        ? { ...pos, ...updates, updatedAt: new Date().toISOString() }
-        : pos
-    ))
-  }
-
   // Calculate portfolio summary for selected client
   const getClientPortfolioSummary = (clientId: string) => {
     const positions = clientPositions.filter(p => p.clientId === clientId)
@@ -350,12 +131,14 @@ export default function Dashboard() {
               <p className="text-muted-foreground">Track fund commitments and analyze cashflow patterns</p>
             </div>
             <div className="flex items-center gap-3">
-              <ExportDialog funds={funds} cashflows={cashflows} />
+              <BenchmarkIndexDialog benchmarkIndex={benchmarkIndex} onSave={saveBenchmarkIndex} />
+              <ExportDialog funds={funds} cashflows={cashflows} benchmarkIndex={benchmarkIndex} />
               <FundMenu 
                 onAddFund={handleAddFund}
                 onImportExcel={handleExcelImport}
                 onAddCashflow={handleAddCashflow}
                 funds={funds}
+                library={fundTypeLibrary}
               />
             </div>
           </div>
@@ -441,7 +224,7 @@ export default function Dashboard() {
                   <SelectValue placeholder="Select a client" />
                 </SelectTrigger>
                 <SelectContent>
-                  {clients.map(client => (
+                  {clients.filter(isClientActive).map(client => (
                     <SelectItem key={client.id} value={client.id}>
                       {client.name}
                     </SelectItem>
@@ -471,13 +254,14 @@ export default function Dashboard() {
 
         {/* Main Content Tabs */}
         <Tabs defaultValue="general-database" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-7">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="general-database">General Database</TabsTrigger>
             <TabsTrigger value="new-portfolio">Portfolio Builder</TabsTrigger>
             <TabsTrigger value="portfolio">Client Portfolio</TabsTrigger>
             <TabsTrigger value="funds">Fund Management</TabsTrigger>
             <TabsTrigger value="analysis">Cashflow Analysis</TabsTrigger>
             <TabsTrigger value="legacy-portfolio">Legacy Portfolio</TabsTrigger>
+            <TabsTrigger value="legacy-migration">Migrate Legacy</TabsTrigger>
             <TabsTrigger value="backend">Backend</TabsTrigger>
           </TabsList>
 
@@ -485,11 +269,12 @@ export default function Dashboard() {
             <GeneralFundDatabase
               generalFunds={generalFunds}
               generalFundCashflows={generalFundCashflows}
-              onAddGeneralFund={handleAddGeneralFund}
-              onAddGeneralFundCashflows={handleAddGeneralFundCashflows}
-              onUpdateGeneralFund={handleUpdateGeneralFund}
-              onDeleteGeneralFund={handleDeleteGeneralFund}
-              onBulkUpload={handleBulkUpload}
+              library={fundTypeLibrary}
+              onAddGeneralFund={addGeneralFund}
+              onAddGeneralFundCashflows={addGeneralFundCashflows}
+              onUpdateGeneralFund={updateGeneralFund}
+              onDeleteGeneralFund={deleteGeneralFund}
+              onBulkUpload={bulkUploadGeneralFund}
             />
           </TabsContent>
 
@@ -499,11 +284,16 @@ export default function Dashboard() {
               generalFundCashflows={generalFundCashflows}
               portfolios={portfolios}
               portfolioPositions={portfolioPositions}
-              clients={clients}
-              onCreatePortfolio={handleCreatePortfolio}
-              onAddPosition={handleAddPosition}
-              onRemovePosition={handleRemovePosition}
-              onUpdatePosition={handleUpdatePosition}
+              clients={clients.filter(isClientActive)}
+              onCreatePortfolio={createPortfolio}
+              onUpdatePortfolio={updatePortfolio}
+              onClonePortfolio={clonePortfolio}
+              onAddPosition={addPosition}
+              onRemovePosition={removePosition}
+              onUpdatePosition={updatePosition}
+              onUpdatePositions={updatePositions}
+              scenarios={scenarios}
+              library={fundTypeLibrary}
             />
           </TabsContent>
 
@@ -514,6 +304,8 @@ export default function Dashboard() {
               funds={funds}
               cashflows={cashflows}
               clientPositions={clientPositions}
+              benchmarkIndex={benchmarkIndex}
+              library={fundTypeLibrary}
             />
           </TabsContent>
 
@@ -521,19 +313,47 @@ export default function Dashboard() {
             <FundManagement 
               funds={funds}
               cashflows={cashflows}
+              library={fundTypeLibrary}
+              fundRules={fundRules}
+              benchmarkIndex={benchmarkIndex}
             />
           </TabsContent>
 
-          <TabsContent value="analysis">
+          <TabsContent value="analysis" className="space-y-6">
             <CashflowAnalysisView 
               funds={funds}
               cashflows={cashflows}
+              benchmarkIndex={benchmarkIndex}
+            />
+            <CashflowTable
+              funds={funds}
+              cashflows={cashflows}
+              scenarios={scenarios}
+              fundRules={fundRules}
+              library={fundTypeLibrary}
             />
           </TabsContent>
 
           <TabsContent value="legacy-portfolio">
             <PortfolioBuilder 
               availableFunds={funds}
+              library={fundTypeLibrary}
+            />
+          </TabsContent>
+
+          <TabsContent value="legacy-migration">
+            <LegacyMigration
+              funds={funds}
+              cashflows={cashflows}
+              clients={clients}
+              clientPositions={clientPositions}
+              generalFunds={generalFunds}
+              generalFundCashflows={generalFundCashflows}
+              portfolios={portfolios}
+              portfolioPositions={portfolioPositions}
+              library={fundTypeLibrary}
+              onAddGeneralFunds={addGeneralFundsWithCashflows}
+              onAddPortfolios={addPortfoliosWithPositions}
             />
           </TabsContent>
 
@@ -542,11 +362,11 @@ export default function Dashboard() {
               funds={funds}
               cashflowTemplates={cashflowTemplates}
               fundRules={fundRules}
-              onAddCashflowTemplate={handleAddCashflowTemplate}
-              onAddFundRule={handleAddFundRule}
-              onUpdateFundRule={handleUpdateFundRule}
-              onDeleteFundRule={handleDeleteFundRule}
-              onExcelCashflowUpload={handleExcelCashflowUpload}
+              onAddCashflowTemplate={addCashflowTemplate}
+              onAddFundRule={addFundRule}
+              onUpdateFundRule={updateFundRule}
+              onDeleteFundRule={deleteFundRule}
+              onExcelCashflowUpload={uploadExcelCashflows}
             />
           </TabsContent>
         </Tabs>
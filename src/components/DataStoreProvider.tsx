@@ -0,0 +1,410 @@
+import { ReactNode } from 'react'
+import {
+  Fund, Cashflow, ClientFundPosition, FundCashflowTemplate, FundRule, ExcelTemplate, ExcelCashflowUpload,
+  GeneralFund, GeneralFundNetCashflow, GeneralFundUpload, Portfolio, PortfolioPosition, FundTypeExpectation,
+  PortfolioScenario, Household, Client, BenchmarkIndexObservation
+} from '../types'
+import { mockFunds, mockCashflows, mockClients, mockClientFundPositions } from '../data/mockData'
+import { defaultFundTypeExpectations, portfolioScenarios } from '../data/fundExpectations'
+import { useLocalStorage } from '../hooks/useLocalStorage'
+import { useBlinkCollection } from '../hooks/useBlinkCollection'
+import { DataStore, DataStoreContext, NewGeneralFundEntry, NewPortfolioEntry, NewRecord } from '../hooks/useDataStore'
+
+// Id and audit fields shared by every new record
+const createRecordMeta = (prefix: string, suffix?: string | number) => {
+  const now = new Date().toISOString()
+  return {
+    id: suffix !== undefined ? `${prefix}-${Date.now()}-${suffix}` : `${prefix}-${Date.now()}`,
+    createdAt: now,
+    updatedAt: now,
+    userId: 'user-1'
+  }
+}
+
+const applyUpdates = <T extends { id: string; updatedAt: string }>(records: T[], id: string, updates: Partial<T>) =>
+  records.map(record => (record.id === id ? { ...record, ...updates, updatedAt: new Date().toISOString() } : record))
+
+interface DataStoreProviderProps {
+  children: ReactNode
+}
+
+// Single owner of the application data; every screen reads and writes through useDataStore
+export default function DataStoreProvider({ children }: DataStoreProviderProps) {
+  const [generalFunds, setGeneralFunds, generalFundsLoading, generalFundsSync] = useBlinkCollection('generalFunds', [])
+  const [generalFundCashflows, setGeneralFundCashflows, generalFundCashflowsLoading, generalFundCashflowsSync] =
+    useBlinkCollection('generalFundCashflows', [])
+  const [portfolios, setPortfolios, portfoliosLoading, portfoliosSync] = useBlinkCollection('portfolios', [])
+  const [portfolioPositions, setPortfolioPositions, portfolioPositionsLoading, portfolioPositionsSync] =
+    useBlinkCollection('portfolioPositions', [])
+  const [clients, setClients, , clientsSync] = useBlinkCollection('clients', mockClients)
+  const [households, setHouseholds, , householdsSync] = useBlinkCollection('households', [])
+  const [fundRules, setFundRules, , fundRulesSync] = useBlinkCollection('fundRules', [])
+  const [fundTypeLibrary, setFundTypeLibraryRecords, , fundTypeLibrarySync] =
+    useBlinkCollection('fundTypeExpectations', defaultFundTypeExpectations)
+  const [customScenarios, setCustomScenarios, , customScenariosSync] = useBlinkCollection('portfolioScenarios', [])
+  const [benchmarkIndex, setBenchmarkIndex, , benchmarkIndexSync] = useBlinkCollection('benchmarkIndex', [])
+  const collectionSyncs = [
+    generalFundsSync, generalFundCashflowsSync, portfoliosSync, portfolioPositionsSync, clientsSync, householdsSync,
+    fundRulesSync, fundTypeLibrarySync, customScenariosSync, benchmarkIndexSync
+  ]
+
+  // Legacy data (for backward compatibility)
+  const [funds, setFunds] = useLocalStorage<Fund[]>('funds', mockFunds)
+  const [cashflows, setCashflows] = useLocalStorage<Cashflow[]>('cashflows', mockCashflows)
+  const [clientPositions] = useLocalStorage<ClientFundPosition[]>('clientPositions', mockClientFundPositions)
+  const [cashflowTemplates, setCashflowTemplates] = useLocalStorage<FundCashflowTemplate[]>('cashflowTemplates', [])
+
+  // General fund database
+  const addGeneralFund = (fundData: NewRecord<GeneralFund>) => {
+    const newFund: GeneralFund = { ...fundData, ...createRecordMeta('gf') }
+    setGeneralFunds([...generalFunds, newFund])
+    return newFund
+  }
+
+  const addGeneralFundCashflows = (cashflowData: NewRecord<GeneralFundNetCashflow>[]) => {
+    const newCashflows = cashflowData.map(cf => ({ ...cf, ...createRecordMeta('gfc', Math.random()) }))
+    setGeneralFundCashflows([...generalFundCashflows, ...newCashflows])
+  }
+
+  // Add several funds and their cashflow rows in one update of each collection
+  const addGeneralFundsWithCashflows = (entries: NewGeneralFundEntry[]) => {
+    const newFunds: GeneralFund[] = []
+    const newCashflows: GeneralFundNetCashflow[] = []
+
+    entries.forEach((entry, index) => {
+      const newFund: GeneralFund = { ...entry.fund, ...createRecordMeta('gf', index) }
+      newFunds.push(newFund)
+      entry.cashflows.forEach(cf => {
+        newCashflows.push({ ...cf, fundId: newFund.id, ...createRecordMeta('gfc', `${newFund.id}-${cf.year}${cf.quarter ? `q${cf.quarter}` : ''}`) })
+      })
+    })
+
+    setGeneralFunds([...generalFunds, ...newFunds])
+    setGeneralFundCashflows([...generalFundCashflows, ...newCashflows])
+    return newFunds
+  }
+
+  const bulkUploadGeneralFunds = (uploads: GeneralFundUpload[]) =>
+    addGeneralFundsWithCashflows(uploads.map(upload => ({
+      fund: {
+        name: upload.fundName,
+        vintage: upload.vintage,
+        fundType: upload.fundType,
+        strategy: upload.strategy,
+        geography: upload.geography,
+        expectedLifespan: upload.expectedLifespan,
+        managementFeeRate: upload.managementFeeRate,
+        carriedInterestRate: upload.carriedInterestRate
+      },
+      cashflows: upload.yearlyNetCashflows
+    })))
+
+  const bulkUploadGeneralFund = (upload: GeneralFundUpload) => {
+    const [newFund] = bulkUploadGeneralFunds([upload])
+    return newFund
+  }
+
+  const updateGeneralFund = (id: string, updates: Partial<GeneralFund>) => {
+    setGeneralFunds(applyUpdates(generalFunds, id, updates))
+  }
+
+  // Deleting a fund removes its cashflow rows and every portfolio position that holds it
+  const deleteGeneralFund = (id: string) => {
+    setGeneralFunds(generalFunds.filter(fund => fund.id !== id))
+    setGeneralFundCashflows(generalFundCashflows.filter(cf => cf.fundId !== id))
+    setPortfolioPositions(portfolioPositions.filter(pos => pos.fundId !== id))
+  }
+
+  // Portfolios
+  const createPortfolio = (portfolioData: NewRecord<Portfolio>) => {
+    const newPortfolio: Portfolio = { ...portfolioData, ...createRecordMeta('portfolio') }
+    setPortfolios([...portfolios, newPortfolio])
+    return newPortfolio
+  }
+
+  const updatePortfolio = (id: string, updates: Partial<Portfolio>) => {
+    setPortfolios(applyUpdates(portfolios, id, updates))
+  }
+
+  const addPortfoliosWithPositions = (entries: NewPortfolioEntry[]) => {
+    const newPortfolios: Portfolio[] = []
+    const newPositions: PortfolioPosition[] = []
+
+    entries.forEach((entry, index) => {
+      const newPortfolio: Portfolio = { ...entry.portfolio, ...createRecordMeta('portfolio', index) }
+      newPortfolios.push(newPortfolio)
+      entry.positions.forEach((pos, posIndex) => {
+        newPositions.push({ ...pos, portfolioId: newPortfolio.id, ...createRecordMeta('pos', `${index}-${posIndex}`) })
+      })
+    })
+
+    setPortfolios([...portfolios, ...newPortfolios])
+    setPortfolioPositions([...portfolioPositions, ...newPositions])
+    return newPortfolios
+  }
+
+  // Copy of a portfolio and its positions, e.g. as the starting point for a proposal
+  const clonePortfolio = (id: string, name: string) => {
+    const source = portfolios.find(portfolio => portfolio.id === id)
+    if (!source) throw new Error(`Portfolio ${id} not found`)
+    const clone: Portfolio = { ...source, name, ...createRecordMeta('portfolio') }
+    const clonedPositions = portfolioPositions
+      .filter(pos => pos.portfolioId === id)
+      .map((pos, index) => ({ ...pos, portfolioId: clone.id, ...createRecordMeta('pos', index) }))
+    setPortfolios([...portfolios, clone])
+    setPortfolioPositions([...portfolioPositions, ...clonedPositions])
+    return clone
+  }
+
+  const deletePortfolio = (id: string) => {
+    setPortfolios(portfolios.filter(portfolio => portfolio.id !== id))
+    setPortfolioPositions(portfolioPositions.filter(pos => pos.portfolioId !== id))
+  }
+
+  const addPosition = (positionData: NewRecord<PortfolioPosition>) => {
+    const newPosition: PortfolioPosition = { ...positionData, ...createRecordMeta('pos') }
+    setPortfolioPositions([...portfolioPositions, newPosition])
+    return newPosition
+  }
+
+  const removePosition = (positionId: string) => {
+    setPortfolioPositions(portfolioPositions.filter(pos => pos.id !== positionId))
+  }
+
+  const updatePosition = (positionId: string, updates: Partial<PortfolioPosition>) => {
+    setPortfolioPositions(applyUpdates(portfolioPositions, positionId, updates))
+  }
+
+  // Several positions in one write, keyed by position id (e.g. when rebalancing a portfolio)
+  const updatePositions = (updatesById: Record<string, Partial<PortfolioPosition>>) => {
+    const now = new Date().toISOString()
+    setPortfolioPositions(portfolioPositions.map(pos => (updatesById[pos.id] ? { ...pos, ...updatesById[pos.id], updatedAt: now } : pos)))
+  }
+
+  // Clients are archived rather than deleted so their portfolios keep a valid clientId
+  const createClient = (clientData: NewRecord<Client>) => {
+    const newClient: Client = { ...clientData, ...createRecordMeta('client') }
+    setClients([...clients, newClient])
+    return newClient
+  }
+
+  const updateClient = (id: string, updates: Partial<Client>) => {
+    setClients(applyUpdates(clients, id, updates))
+  }
+
+  const createHousehold = (householdData: NewRecord<Household>) => {
+    const newHousehold: Household = { ...householdData, ...createRecordMeta('household') }
+    setHouseholds([...households, newHousehold])
+    return newHousehold
+  }
+
+  const updateHousehold = (id: string, updates: Partial<Household>) => {
+    setHouseholds(applyUpdates(households, id, updates))
+  }
+
+  // Deleting a household keeps its clients as standalone entities
+  const deleteHousehold = (id: string) => {
+    setHouseholds(households.filter(household => household.id !== id))
+    if (clients.some(client => client.householdId === id)) {
+      const now = new Date().toISOString()
+      setClients(clients.map(client => (client.householdId === id ? { ...client, householdId: undefined, updatedAt: now } : client)))
+    }
+  }
+
+  // Legacy funds
+  const addFund = (fundData: NewRecord<Fund>) => {
+    const newFund: Fund = { ...fundData, ...createRecordMeta('fund') }
+    setFunds([...funds, newFund])
+    return newFund
+  }
+
+  const addCashflow = (cashflowData: NewRecord<Cashflow>) => {
+    const newCashflow: Cashflow = { ...cashflowData, ...createRecordMeta('cf') }
+    setCashflows([...cashflows, newCashflow])
+    return newCashflow
+  }
+
+  const importExcelTemplate = (template: ExcelTemplate) => {
+    const newFund = addFund({
+      name: template.fundName,
+      vintage: template.vintage,
+      commitmentAmount: template.commitmentAmount,
+      fundType: template.fundType,
+      managementFeeRate: template.managementFeeRate,
+      carriedInterestRate: template.carriedInterestRate,
+      taxRate: template.taxRate
+    })
+
+    if (template.cashflows && template.cashflows.length > 0) {
+      const newCashflows = template.cashflows.map(cf => ({
+        fundId: newFund.id,
+        ...cf,
+        ...createRecordMeta('cf', `${cf.year}-${cf.quarter}`)
+      }))
+      setCashflows([...cashflows, ...newCashflows])
+    }
+    return newFund
+  }
+
+  // Fund type library. Until the first edit the user has no records and sees the defaults; the
+  // first edit persists the whole library, defaults included.
+  const saveFundTypeExpectation = (expectation: Omit<FundTypeExpectation, 'id'> & { id?: string }) => {
+    const now = new Date().toISOString()
+    const saved: FundTypeExpectation = expectation.id
+      ? { ...expectation, id: expectation.id, updatedAt: now }
+      : { ...expectation, id: createRecordMeta('ftx').id, createdAt: now, updatedAt: now }
+    const exists = fundTypeLibrary.some(entry => entry.id === saved.id)
+    const library = exists
+      ? fundTypeLibrary.map(entry => (entry.id === saved.id ? saved : entry))
+      : [...fundTypeLibrary, saved]
+    setFundTypeLibraryRecords(library.map(entry => ({ ...entry, createdAt: entry.createdAt || now })))
+    return saved
+  }
+
+  const deleteFundTypeExpectation = (id: string) => {
+    setFundTypeLibraryRecords(fundTypeLibrary.filter(entry => entry.id !== id))
+  }
+
+  const resetFundTypeLibrary = () => {
+    setFundTypeLibraryRecords(defaultFundTypeExpectations)
+  }
+
+  // User-defined scenarios; the built-in scenarios are not stored and cannot be edited
+  const saveScenario = (scenario: Omit<PortfolioScenario, 'id'> & { id?: string }) => {
+    const now = new Date().toISOString()
+    const existing = customScenarios.find(s => s.id === scenario.id)
+    const saved: PortfolioScenario = existing
+      ? { ...scenario, id: existing.id, createdAt: existing.createdAt, updatedAt: now }
+      : { ...scenario, id: createRecordMeta('scn').id, createdAt: now, updatedAt: now }
+    setCustomScenarios(existing
+      ? customScenarios.map(s => (s.id === saved.id ? saved : s))
+      : [...customScenarios, saved])
+    return saved
+  }
+
+  const deleteScenario = (id: string) => {
+    setCustomScenarios(customScenarios.filter(s => s.id !== id))
+  }
+
+  // Replace the benchmark index; levels on a date that is already stored keep their record
+  const saveBenchmarkIndex = (levels: BenchmarkIndexObservation[]) => {
+    const now = new Date().toISOString()
+    const existingByDate = new Map(benchmarkIndex.map(level => [level.date, level]))
+    setBenchmarkIndex(levels.map((level, index) => {
+      const existing = existingByDate.get(level.date)
+      if (existing) return existing.value === level.value ? existing : { ...existing, value: level.value, updatedAt: now }
+      return { ...level, id: createRecordMeta('bix', index).id, createdAt: now, updatedAt: now }
+    }))
+  }
+
+  // Replace the yearly net cashflow templates of the uploaded funds, creating any fund that does not exist yet
+  const uploadExcelCashflows = (uploads: ExcelCashflowUpload[]) => {
+    const newFunds: Fund[] = []
+    const newTemplates: FundCashflowTemplate[] = []
+
+    uploads.forEach((data, uploadIndex) => {
+      const matches = (f: Fund) => f.name === data.fundName && f.vintage === data.vintage
+      let fund = funds.find(matches) || newFunds.find(matches)
+      if (!fund) {
+        fund = {
+          name: data.fundName,
+          vintage: data.vintage,
+          commitmentAmount: data.commitmentAmount,
+          fundType: data.fundType,
+          ...createRecordMeta('fund', uploadIndex)
+        }
+        newFunds.push(fund)
+      }
+
+      const fundId = fund.id
+      data.yearlyNetCashflows.forEach((percentage, index) => {
+        newTemplates.push({
+          fundId,
+          year: index + 1,
+          netCashflowPercentage: percentage,
+          ...createRecordMeta('template', `${uploadIndex}-${index}`)
+        })
+      })
+    })
+
+    if (newFunds.length > 0) setFunds([...funds, ...newFunds])
+    const replacedFundIds = new Set(newTemplates.map(t => t.fundId))
+    setCashflowTemplates([...cashflowTemplates.filter(t => !replacedFundIds.has(t.fundId)), ...newTemplates])
+  }
+
+  const addCashflowTemplate = (template: NewRecord<FundCashflowTemplate>) => {
+    setCashflowTemplates([...cashflowTemplates, { ...template, ...createRecordMeta('template') }])
+  }
+
+  const addFundRule = (rule: NewRecord<FundRule>) => {
+    setFundRules([...fundRules, { ...rule, ...createRecordMeta('rule') }])
+  }
+
+  const updateFundRule = (id: string, updates: Partial<FundRule>) => {
+    setFundRules(applyUpdates(fundRules, id, updates))
+  }
+
+  const deleteFundRule = (id: string) => {
+    setFundRules(fundRules.filter(rule => rule.id !== id))
+  }
+
+  const store: DataStore = {
+    loading: generalFundsLoading || generalFundCashflowsLoading || portfoliosLoading || portfolioPositionsLoading,
+    syncErrors: collectionSyncs.flatMap(sync => (sync.error ? [sync.error] : [])),
+    retrySync: () => collectionSyncs.forEach(sync => sync.error && sync.retry()),
+    generalFunds,
+    generalFundCashflows,
+    addGeneralFund,
+    addGeneralFundCashflows,
+    addGeneralFundsWithCashflows,
+    bulkUploadGeneralFund,
+    bulkUploadGeneralFunds,
+    updateGeneralFund,
+    deleteGeneralFund,
+    getGeneralFundCashflows: (fundId) => generalFundCashflows.filter(cf => cf.fundId === fundId),
+    portfolios,
+    portfolioPositions,
+    createPortfolio,
+    updatePortfolio,
+    addPortfoliosWithPositions,
+    clonePortfolio,
+    deletePortfolio,
+    addPosition,
+    removePosition,
+    updatePosition,
+    updatePositions,
+    getPortfolioPositions: (portfolioId) => portfolioPositions.filter(pos => pos.portfolioId === portfolioId),
+    clients,
+    createClient,
+    updateClient,
+    households,
+    createHousehold,
+    updateHousehold,
+    deleteHousehold,
+    clientPositions,
+    getClientPositions: (clientId) => clientPositions.filter(pos => pos.clientId === clientId),
+    fundTypeLibrary,
+    saveFundTypeExpectation,
+    deleteFundTypeExpectation,
+    resetFundTypeLibrary,
+    scenarios: [...portfolioScenarios, ...customScenarios],
+    saveScenario,
+    deleteScenario,
+    benchmarkIndex,
+    saveBenchmarkIndex,
+    funds,
+    cashflows,
+    cashflowTemplates,
+    fundRules,
+    addFund,
+    addCashflow,
+    importExcelTemplate,
+    uploadExcelCashflows,
+    addCashflowTemplate,
+    addFundRule,
+    updateFundRule,
+    deleteFundRule
+  }
+
+  return <DataStoreContext.Provider value={store}>{children}</DataStoreContext.Provider>
+}
@@ -3,270 +3,45 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/
 import { Button } from './ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Database, Upload, Settings, FileSpreadsheet, TrendingUp } from 'lucide-react'
-import { 
-  GeneralFund, GeneralFundNetCashflow, GeneralFundUpload,
-  Fund, FundCashflowTemplate, FundRule, ExcelCashflowUpload
-} from '../types'
-import { useLocalStorage } from '../hooks/useLocalStorage'
-import { mockFunds, mockCashflows } from '../data/mockData'
+import { GeneralFundUpload } from '../types'
+import { useDataStore } from '../hooks/useDataStore'
 import GeneralFundDatabase from './GeneralFundDatabase'
 import BackendManagement from './BackendManagement'
 import ExcelFundUpload from './ExcelFundUpload'
+import FundImportWizard from './FundImportWizard'
+import FundTypeLibrary from './FundTypeLibrary'
+import PeerCurveBuilder from './PeerCurveBuilder'
+import ScenarioManager from './ScenarioManager'
 import { Toaster } from './ui/toaster'
 import { useToast } from '../hooks/use-toast'
+import { downloadFundUploadWorkbook, fundUploadSampleRows } from '../lib/fundUploadWorkbook'
 
 export default function DatabaseManagement() {
-  // General fund database
-  const [generalFunds, setGeneralFunds] = useLocalStorage<GeneralFund[]>('generalFunds', [])
-  const [generalFundCashflows, setGeneralFundCashflows] = useLocalStorage<GeneralFundNetCashflow[]>('generalFundCashflows', [])
-  
-  // Legacy data (for backward compatibility)
-  const [funds, setFunds] = useLocalStorage<Fund[]>('funds', mockFunds)
-  const [cashflows] = useLocalStorage('cashflows', mockCashflows)
-  const [cashflowTemplates, setCashflowTemplates] = useLocalStorage<FundCashflowTemplate[]>('cashflowTemplates', [])
-  const [fundRules, setFundRules] = useLocalStorage<FundRule[]>('fundRules', [])
+  const {
+    generalFunds, generalFundCashflows, funds, cashflowTemplates, fundRules,
+    addGeneralFund, addGeneralFundCashflows, updateGeneralFund, deleteGeneralFund,
+    bulkUploadGeneralFund, bulkUploadGeneralFunds, uploadExcelCashflows, addCashflowTemplate, addFundRule, updateFundRule, deleteFundRule,
+    fundTypeLibrary, saveFundTypeExpectation, deleteFundTypeExpectation, resetFundTypeLibrary,
+    scenarios, saveScenario, deleteScenario
+  } = useDataStore()
   
   const { toast } = useToast()
 
-  // General fund handlers
-  const handleAddGeneralFund = (fundData: Omit<GeneralFund, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => {
-    const newFund: GeneralFund = {
-      ...fundData,
-      id: `gf-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setGeneralFunds([...generalFunds, newFund])
-  }
-
-  const handleAddGeneralFundCashflows = (cashflows: Omit<GeneralFundNetCashflow, 'id' | 'createdAt' | 'updatedAt' | 'userId'>[]) => {
-    const newCashflows = cashflows.map(cf => ({
-      ...cf,
-      id: `gfc-${Date.now()}-${Math.random()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }))
-    setGeneralFundCashflows([...generalFundCashflows, ...newCashflows])
-  }
-
-  const handleUpdateGeneralFund = (id: string, updates: Partial<GeneralFund>) => {
-    setGeneralFunds(generalFunds.map(fund => 
-      fund.id === id 
-        ? { ...fund, ...updates, updatedAt: new Date().toISOString() }
-        : fund
-    ))
-  }
-
-  const handleDeleteGeneralFund = (id: string) => {
-    setGeneralFunds(generalFunds.filter(fund => fund.id !== id))
-    setGeneralFundCashflows(generalFundCashflows.filter(cf => cf.fundId !== id))
-  }
-
-  const handleBulkUpload = (upload: GeneralFundUpload) => {
-    // Create the fund
-    const newFund: GeneralFund = {
-      id: `gf-${Date.now()}`,
-      name: upload.fundName,
-      vintage: upload.vintage,
-      fundType: upload.fundType,
-      strategy: upload.strategy,
-      geography: upload.geography,
-      expectedLifespan: upload.expectedLifespan,
-      managementFeeRate: upload.managementFeeRate,
-      carriedInterestRate: upload.carriedInterestRate,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setGeneralFunds([...generalFunds, newFund])
-
-    // Create the cashflows
-    const newCashflows = upload.yearlyNetCashflows.map(cf => ({
-      id: `gfc-${Date.now()}-${cf.year}`,
-      fundId: newFund.id,
-      year: cf.year,
-      netCashflowPercentage: cf.netCashflowPercentage,
-      contributionsPercentage: cf.contributionsPercentage,
-      distributionsPercentage: cf.distributionsPercentage,
-      navPercentage: cf.navPercentage,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }))
-    setGeneralFundCashflows([...generalFundCashflows, ...newCashflows])
-  }
-
-  // Excel upload handler for multiple funds
-  const handleExcelBulkUpload = (fundsData: any[]) => {
-    const newFunds: GeneralFund[] = []
-    const newCashflows: GeneralFundNetCashflow[] = []
-
-    fundsData.forEach(fundData => {
-      const fundId = `gf-${Date.now()}-${Math.random()}`
-      
-      // Create fund
-      const newFund: GeneralFund = {
-        id: fundId,
-        name: fundData.fund,
-        vintage: fundData.vintage,
-        fundType: fundData.type,
-        strategy: fundData.subtype || fundData.type,
-        geography: fundData.geography,
-        expectedLifespan: 10,
-        managementFeeRate: 2.0,
-        carriedInterestRate: 20.0,
-        description: `${fundData.type} fund focused on ${fundData.subtype || fundData.type} in ${fundData.geography}`,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        userId: 'user-1'
-      }
-      newFunds.push(newFund)
-
-      // Create cashflows for years 1-12 (columns 6-17 in the Excel)
-      for (let year = 1; year <= 12; year++) {
-        const columnIndex = year + 5 // Columns F through Q (6-17)
-        const netCashflowPercentage = fundData[columnIndex] || 0
-        
-        if (netCashflowPercentage !== 0) {
-          const cashflow: GeneralFundNetCashflow = {
-            id: `gfc-${Date.now()}-${fundId}-${year}`,
-            fundId,
-            year,
-            netCashflowPercentage: netCashflowPercentage / 100, // Convert percentage to decimal
-            contributionsPercentage: netCashflowPercentage < 0 ? Math.abs(netCashflowPercentage) / 100 : 0,
-            distributionsPercentage: netCashflowPercentage > 0 ? netCashflowPercentage / 100 : 0,
-            navPercentage: 1 - (year * 0.1), // Simplified NAV calculation
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-            userId: 'user-1'
-          }
-          newCashflows.push(cashflow)
-        }
-      }
-    })
-
-    setGeneralFunds([...generalFunds, ...newFunds])
-    setGeneralFundCashflows([...generalFundCashflows, ...newCashflows])
+  const handleWizardImport = (uploads: GeneralFundUpload[]) => {
+    const newFunds = bulkUploadGeneralFunds(uploads)
 
     toast({
-      title: "Excel Upload Complete",
-      description: `${newFunds.length} funds uploaded successfully with cashflow data.`
+      title: "Import Complete",
+      description: `${newFunds.length} funds imported with cashflow data.`
     })
   }
 
-  // Legacy handlers for backward compatibility
-  const handleExcelCashflowUpload = (data: ExcelCashflowUpload) => {
-    const existingFund = funds.find(f => f.name === data.fundName && f.vintage === data.vintage)
-    let fundId: string
-    
-    if (existingFund) {
-      fundId = existingFund.id
-    } else {
-      const newFund: Fund = {
-        id: `fund-${Date.now()}`,
-        name: data.fundName,
-        vintage: data.vintage,
-        commitmentAmount: data.commitmentAmount,
-        fundType: data.fundType,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        userId: 'user-1'
-      }
-      setFunds([...funds, newFund])
-      fundId = newFund.id
-    }
-
-    const newTemplates = data.yearlyNetCashflows.map((percentage, index) => ({
-      id: `template-${Date.now()}-${index}`,
-      fundId,
-      year: index + 1,
-      netCashflowPercentage: percentage,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }))
-
-    const filteredTemplates = cashflowTemplates.filter(t => t.fundId !== fundId)
-    setCashflowTemplates([...filteredTemplates, ...newTemplates])
-  }
-
-  const handleAddCashflowTemplate = (template: Omit<FundCashflowTemplate, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => {
-    const newTemplate: FundCashflowTemplate = {
-      ...template,
-      id: `template-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setCashflowTemplates([...cashflowTemplates, newTemplate])
-  }
-
-  const handleAddFundRule = (rule: Omit<FundRule, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => {
-    const newRule: FundRule = {
-      ...rule,
-      id: `rule-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      userId: 'user-1'
-    }
-    setFundRules([...fundRules, newRule])
-  }
-
-  const handleUpdateFundRule = (id: string, updates: Partial<FundRule>) => {
-    setFundRules(fundRules.map(rule => 
-      rule.id === id 
-        ? { ...rule, ...updates, updatedAt: new Date().toISOString() }
-        : rule
-    ))
-  }
-
-  const handleDeleteFundRule = (id: string) => {
-    setFundRules(fundRules.filter(rule => rule.id !== id))
-  }
-
   // Download template function
-  const downloadTemplate = () => {
-    const headers = [
-      'Fund', 'Vintage', 'Type', 'Subtype', 'Geography',
-      'Year 1', 'Year 2', 'Year 3', 'Year 4', 'Year 5', 'Year 6', 
-      'Year 7', 'Year 8', 'Year 9', 'Year 10', 'Year 11', 'Year 12'
-    ]
-    
-    const sampleData = [
-      'QGP II,2023,FOF,VC,India,-29.1,-15.52,-41.09,-2.09,25.36,10.56,36.94,51.43,47.00,54.83,4.16,0',
-      'Alpinvest,2024,Secondary,Lower MM,EU,-15.52,-37.39,-3.0,-2.09,25.36,41.86,41.71,25.14,14.69,14.02,4.16,0',
-      'Quadrum,2024,PE,Tech,EU,-38.53,-48.21,-20.0,21.74,25.36,41.86,41.71,25.14,14.69,14.02,4.16,0'
-    ]
-    
-    const instructionRows = [
-      '# INSTRUCTIONS:',
-      '# - Fund: Fund name',
-      '# - Vintage: Fund vintage year',
-      '# - Type: FOF, PE, VC, RE, Infrastructure, Credit, Hedge Fund, Secondary',
-      '# - Subtype: Strategy within fund type',
-      '# - Geography: Investment geography',
-      '# - Year 1-12: Net cashflow as percentage (negative = calls, positive = distributions)',
-      '# - Example: -25.5 means 25.5% of commitment called',
-      '# - Example: 15.2 means 15.2% of commitment distributed',
-      '#',
-      '# DELETE THESE INSTRUCTION ROWS BEFORE UPLOADING'
-    ]
-    
-    const csvContent = [
-      ...instructionRows,
-      headers.join(','), 
-      ...sampleData
-    ].join('\n')
-    
-    const blob = new Blob([csvContent], { type: 'text/csv' })
-    const url = window.URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `fund_upload_template_${new Date().toISOString().split('T')[0]}.csv`
-    a.click()
-    window.URL.revokeObjectURL(url)
+  const downloadTemplate = async () => {
+    await downloadFundUploadWorkbook(
+      fundUploadSampleRows,
+      `fund_upload_template_${new Date().toISOString().split('T')[0]}.xlsx`
+    )
     
     toast({
       title: "Template Downloaded",
@@ -388,38 +163,69 @@ export default function DatabaseManagement() {
 
       {/* Main Content Tabs */}
       <Tabs defaultValue="excel-upload" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="excel-upload">Excel Upload</TabsTrigger>
+          <TabsTrigger value="import-wizard">Import Wizard</TabsTrigger>
           <TabsTrigger value="general-database">General Database</TabsTrigger>
+          <TabsTrigger value="fund-types">Fund Types</TabsTrigger>
+          <TabsTrigger value="peer-curves">Peer Curves</TabsTrigger>
+          <TabsTrigger value="scenarios">Scenarios</TabsTrigger>
           <TabsTrigger value="backend">Backend Management</TabsTrigger>
         </TabsList>
 
         <TabsContent value="excel-upload">
-          <ExcelFundUpload onBulkUpload={handleExcelBulkUpload} />
+          <ExcelFundUpload existingFunds={generalFunds} library={fundTypeLibrary} onImport={handleWizardImport} />
+        </TabsContent>
+
+        <TabsContent value="import-wizard">
+          <FundImportWizard existingFunds={generalFunds} library={fundTypeLibrary} onImport={handleWizardImport} />
         </TabsContent>
 
         <TabsContent value="general-database">
           <GeneralFundDatabase
             generalFunds={generalFunds}
             generalFundCashflows={generalFundCashflows}
-            onAddGeneralFund={handleAddGeneralFund}
-            onAddGeneralFundCashflows={handleAddGeneralFundCashflows}
-            onUpdateGeneralFund={handleUpdateGeneralFund}
-            onDeleteGeneralFund={handleDeleteGeneralFund}
-            onBulkUpload={handleBulkUpload}
+            library={fundTypeLibrary}
+            onAddGeneralFund={addGeneralFund}
+            onAddGeneralFundCashflows={addGeneralFundCashflows}
+            onUpdateGeneralFund={updateGeneralFund}
+            onDeleteGeneralFund={deleteGeneralFund}
+            onBulkUpload={bulkUploadGeneralFund}
+          />
+        </TabsContent>
+
+        <TabsContent value="fund-types">
+          <FundTypeLibrary
+            library={fundTypeLibrary}
+            onSave={saveFundTypeExpectation}
+            onDelete={deleteFundTypeExpectation}
+            onReset={resetFundTypeLibrary}
+          />
+        </TabsContent>
+
+        <TabsContent value="peer-curves">
+          <PeerCurveBuilder
+            generalFunds={generalFunds}
+            generalFundCashflows={generalFundCashflows}
+            library={fundTypeLibrary}
+            onSave={saveFundTypeExpectation}
           />
         </TabsContent>
 
+        <TabsContent value="scenarios">
+          <ScenarioManager scenarios={scenarios} library={fundTypeLibrary} onSave={saveScenario} onDelete={deleteScenario} />
+        </TabsContent>
+
         <TabsContent value="backend">
           <BackendManagement
             funds={funds}
             cashflowTemplates={cashflowTemplates}
             fundRules={fundRules}
-            onAddCashflowTemplate={handleAddCashflowTemplate}
-            onAddFundRule={handleAddFundRule}
-            onUpdateFundRule={handleUpdateFundRule}
-            onDeleteFundRule={handleDeleteFundRule}
-            onExcelCashflowUpload={handleExcelCashflowUpload}
+            onAddCashflowTemplate={addCashflowTemplate}
+            onAddFundRule={addFundRule}
+            onUpdateFundRule={updateFundRule}
+            onDeleteFundRule={deleteFundRule}
+            onExcelCashflowUpload={uploadExcelCashflows}
           />
         </TabsContent>
       </Tabs>
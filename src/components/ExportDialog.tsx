@@ -6,14 +6,16 @@ import { Label } from './ui/label'
 import { Checkbox } from './ui/checkbox'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Download, FileSpreadsheet, FileText, BarChart3 } from 'lucide-react'
-import { Fund, Cashflow } from '../types'
+import { Fund, Cashflow, BenchmarkIndexLevel } from '../types'
+import { analyzeFundPerformance } from '../lib/performanceMetrics'
 
 interface ExportDialogProps {
   funds: Fund[]
   cashflows: Cashflow[]
+  benchmarkIndex?: BenchmarkIndexLevel[] // Adds the PME to the exported metrics when supplied
 }
 
-export default function ExportDialog({ funds, cashflows }: ExportDialogProps) {
+export default function ExportDialog({ funds, cashflows, benchmarkIndex }: ExportDialogProps) {
   const [open, setOpen] = useState(false)
   const [exportFormat, setExportFormat] = useState<'csv' | 'json'>('csv')
   const [exportType, setExportType] = useState<'funds' | 'cashflows' | 'both'>('both')
@@ -31,20 +33,20 @@ export default function ExportDialog({ funds, cashflows }: ExportDialogProps) {
         // Add calculated metrics to fund data
         const fundsWithMetrics = fundsToExport.map(fund => {
           const fundCashflows = cashflows.filter(cf => cf.fundId === fund.id)
-          const totalCalls = fundCashflows.reduce((sum, cf) => sum + cf.calls, 0)
-          const totalDistributions = fundCashflows.reduce((sum, cf) => sum + cf.distributions, 0)
-          const latestNav = fundCashflows.length > 0 
-            ? fundCashflows.sort((a, b) => b.year - a.year || b.quarter - a.quarter)[0].nav 
-            : 0
-          const multiple = totalCalls > 0 ? (totalDistributions + latestNav) / totalCalls : 0
+          const { totalCalls, totalDistributions, currentNav, multiple, dpi, rvpi, irr, pme } =
+            analyzeFundPerformance(fundCashflows, { benchmarkIndex })
           const calledPercentage = (totalCalls / fund.commitmentAmount) * 100
 
           return {
             ...fund,
             totalCalls,
             totalDistributions,
-            currentNav: latestNav,
+            currentNav,
             multiple: multiple.toFixed(2),
+            dpi: dpi.toFixed(2),
+            rvpi: rvpi.toFixed(2),
+            irr: irr !== undefined ? irr.toFixed(1) : '',
+            pme: pme !== undefined ? pme.toFixed(2) : '',
             calledPercentage: calledPercentage.toFixed(1)
           }
         })
@@ -281,7 +283,7 @@ export default function ExportDialog({ funds, cashflows }: ExportDialogProps) {
                 onCheckedChange={setIncludeMetrics}
               />
               <Label htmlFor="includeMetrics">
-                Include calculated metrics (calls, distributions, multiples)
+                Include calculated metrics (calls, distributions, multiples, IRR, PME)
               </Label>
             </div>
           )}
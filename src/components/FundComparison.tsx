@@ -0,0 +1,174 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { GitCompare, X } from 'lucide-react'
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { BenchmarkMetric, GeneralFund, GeneralFundNetCashflow } from '../types'
+import { benchmarkFunds, getFundComparisonCurve } from '../lib/fundBenchmarking'
+
+interface FundComparisonProps {
+  funds: GeneralFund[] // Funds selected for comparison
+  generalFunds: GeneralFund[] // Whole database, the peer universe
+  generalFundCashflows: GeneralFundNetCashflow[]
+  onClear: () => void
+}
+
+type ComparisonCurve = 'cumulativeNet' | 'nav'
+
+const curveLabels: Record<ComparisonCurve, string> = {
+  cumulativeNet: 'Cumulative Net Cashflow (J-Curve)',
+  nav: 'NAV'
+}
+
+const lineColors = ['#3b82f6', '#8b5cf6', '#22c55e', '#f97316', '#ef4444', '#eab308', '#06b6d4', '#ec4899']
+
+const quartileStyles: Record<number, string> = {
+  1: 'bg-green-100 text-green-800',
+  2: 'bg-blue-100 text-blue-800',
+  3: 'bg-yellow-100 text-yellow-800',
+  4: 'bg-red-100 text-red-800'
+}
+
+export default function FundComparison({ funds, generalFunds, generalFundCashflows, onClear }: FundComparisonProps) {
+  const [curve, setCurve] = useState<ComparisonCurve>('cumulativeNet')
+
+  const benchmarks = benchmarkFunds(funds, generalFunds, generalFundCashflows)
+  const curves = funds.map(fund => ({ fund, points: getFundComparisonCurve(fund.id, generalFundCashflows) }))
+  const lastYear = Math.max(0, ...curves.flatMap(c => c.points.map(point => point.year)))
+
+  // One row per relative year with a column per fund; years a fund has no data for are left empty
+  const chartData = Array.from({ length: lastYear }, (_, i) => {
+    const row: Record<string, string | number> = { year: `Y${i + 1}` }
+    curves.forEach(({ fund, points }) => {
+      const point = points.find(p => p.year === i + 1)
+      if (point) row[fund.id] = point[curve]
+    })
+    return row
+  })
+
+  const formatMultiple = (value?: number) => (value !== undefined ? `${value.toFixed(2)}x` : 'N/A')
+  const formatPercentage = (value?: number) => (value !== undefined ? `${value.toFixed(1)}%` : 'N/A')
+
+  const renderMetric = (value: string, quartile?: number) => (
+    <div className="flex items-center justify-end gap-2">
+      <span>{value}</span>
+      {quartile !== undefined && (
+        <Badge className={quartileStyles[quartile]} variant="outline">Q{quartile}</Badge>
+      )}
+    </div>
+  )
+
+  const metricValue = (fundId: string, metric: BenchmarkMetric) => {
+    const benchmark = benchmarks.find(b => b.fundId === fundId)
+    const value = benchmark?.performance[metric]
+    return renderMetric(metric === 'irr' ? formatPercentage(value) : formatMultiple(value), benchmark?.quartiles[metric])
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Fund Comparison ({funds.length})
+            </CardTitle>
+            <CardDescription>
+              Curves as % of commitment by fund year. Quartiles rank each fund against funds of the same vintage
+              and strategy in the database (Q1 = top quartile).
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-72">
+              <Select value={curve} onValueChange={(value) => setCurve(value as ComparisonCurve)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(curveLabels) as ComparisonCurve[]).map(key => (
+                    <SelectItem key={key} value={key}>{curveLabels[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" size="sm" onClick={onClear}>
+              <X className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {chartData.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            None of the selected funds has cashflow data to compare
+          </div>
+        ) : (
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="year" />
+                <YAxis tickFormatter={(value) => `${value}%`} />
+                <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                <Legend />
+                <ReferenceLine y={0} stroke="#666" />
+                {funds.map((fund, index) => (
+                  <Line
+                    key={fund.id}
+                    type="monotone"
+                    dataKey={fund.id}
+                    name={`${fund.name} (${fund.vintage})`}
+                    stroke={lineColors[index % lineColors.length]}
+                    strokeWidth={2}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fund</TableHead>
+                <TableHead>Peer Group</TableHead>
+                <TableHead className="text-right">Paid-In</TableHead>
+                <TableHead className="text-right">TVPI</TableHead>
+                <TableHead className="text-right">DPI</TableHead>
+                <TableHead className="text-right">IRR</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {funds.map(fund => {
+                const benchmark = benchmarks.find(b => b.fundId === fund.id)
+                return (
+                  <TableRow key={fund.id}>
+                    <TableCell className="font-medium">{fund.name}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{fund.vintage} • {fund.strategy}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {benchmark && benchmark.peerCount > 0 ? `${benchmark.peerCount} funds with data` : 'No cashflow data'}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {benchmark && benchmark.performance.paidIn > 0 ? `${(benchmark.performance.paidIn * 100).toFixed(1)}%` : 'N/A'}
+                    </TableCell>
+                    <TableCell className="text-right">{metricValue(fund.id, 'tvpi')}</TableCell>
+                    <TableCell className="text-right">{metricValue(fund.id, 'dpi')}</TableCell>
+                    <TableCell className="text-right">{metricValue(fund.id, 'irr')}</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,25 +2,27 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Badge } from './ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Calendar, DollarSign, TrendingUp, Building2 } from 'lucide-react'
-import { Fund, Cashflow } from '../types'
+import { Fund, Cashflow, BenchmarkIndexLevel, FundRule } from '../types'
+import { analyzeFundPerformance } from '../lib/performanceMetrics'
+import { getActiveFundRules } from '../lib/fundRules'
 import FundPerformanceChart from './FundPerformanceChart'
+import WaterfallCalculator from './WaterfallCalculator'
 
 interface FundDetailDialogProps {
   fund: Fund | null
   cashflows: Cashflow[]
+  fundRules?: FundRule[] // Active rules of the fund apply in the waterfall calculator
   open: boolean
   onOpenChange: (open: boolean) => void
+  benchmarkIndex?: BenchmarkIndexLevel[] // Enables the PME metric when supplied
 }
 
-export default function FundDetailDialog({ fund, cashflows, open, onOpenChange }: FundDetailDialogProps) {
+export default function FundDetailDialog({ fund, cashflows, fundRules = [], open, onOpenChange, benchmarkIndex }: FundDetailDialogProps) {
   if (!fund) return null
 
   const fundCashflows = cashflows.filter(cf => cf.fundId === fund.id)
-  const totalCalls = fundCashflows.reduce((sum, cf) => sum + cf.calls, 0)
-  const totalDistributions = fundCashflows.reduce((sum, cf) => sum + cf.distributions, 0)
-  const latestCashflow = fundCashflows.sort((a, b) => b.year - a.year || b.quarter - a.quarter)[0]
-  const currentNav = latestCashflow?.nav || 0
-  const multiple = totalCalls > 0 ? (totalDistributions + currentNav) / totalCalls : 0
+  const { totalCalls, totalDistributions, currentNav, multiple, dpi, rvpi, irr, pme } =
+    analyzeFundPerformance(fundCashflows, { benchmarkIndex })
   const calledPercentage = (totalCalls / fund.commitmentAmount) * 100
 
   return (
@@ -45,10 +47,11 @@ export default function FundDetailDialog({ fund, cashflows, open, onOpenChange }
         </DialogHeader>
 
         <Tabs defaultValue="performance" className="mt-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="performance">Performance</TabsTrigger>
             <TabsTrigger value="details">Fund Details</TabsTrigger>
             <TabsTrigger value="cashflows">Cashflow History</TabsTrigger>
+            <TabsTrigger value="waterfall">Waterfall</TabsTrigger>
           </TabsList>
 
           <TabsContent value="performance" className="mt-6">
@@ -123,6 +126,24 @@ export default function FundDetailDialog({ fund, cashflows, open, onOpenChange }
                       </span>
                     </div>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">DPI / RVPI:</span>
+                    <span className="font-medium">{dpi.toFixed(2)}x / {rvpi.toFixed(2)}x</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">IRR:</span>
+                    <span className={`font-medium ${irr !== undefined && irr > 0 ? 'text-accent' : 'text-muted-foreground'}`}>
+                      {irr !== undefined ? `${irr.toFixed(1)}%` : 'N/A'}
+                    </span>
+                  </div>
+                  {pme !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">KS-PME:</span>
+                      <span className={`font-medium ${pme > 1 ? 'text-accent' : 'text-muted-foreground'}`}>
+                        {pme.toFixed(2)}x
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -171,6 +192,10 @@ export default function FundDetailDialog({ fund, cashflows, open, onOpenChange }
               )}
             </div>
           </TabsContent>
+
+          <TabsContent value="waterfall" className="mt-6">
+            <WaterfallCalculator key={fund.id} fund={fund} cashflows={cashflows} rules={getActiveFundRules(fundRules, fund.id)} />
+          </TabsContent>
         </Tabs>
       </DialogContent>
     </Dialog>
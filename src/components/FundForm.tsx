@@ -5,39 +5,17 @@ import { Label } from './ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
-import { Fund } from '../types'
+import { Fund, FundTypeExpectation } from '../types'
+import { getFundTypeExpectation, getFundTypes } from '../data/fundExpectations'
 
 interface FundFormProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   onSubmit: (fundData: Omit<Fund, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => void
+  library: FundTypeExpectation[]
 }
 
-const fundTypes = [
-  'Private Equity',
-  'Venture Capital', 
-  'Real Estate',
-  'Infrastructure',
-  'Credit',
-  'Hedge Fund',
-  'Fund of Funds',
-  'Secondary',
-  'Co-Investment'
-]
-
-const fundTypeDefaults = {
-  'Private Equity': { managementFee: '2.0', carriedInterest: '20.0' },
-  'Venture Capital': { managementFee: '2.5', carriedInterest: '20.0' },
-  'Real Estate': { managementFee: '1.5', carriedInterest: '15.0' },
-  'Infrastructure': { managementFee: '2.0', carriedInterest: '15.0' },
-  'Credit': { managementFee: '1.5', carriedInterest: '10.0' },
-  'Hedge Fund': { managementFee: '2.0', carriedInterest: '20.0' },
-  'Fund of Funds': { managementFee: '1.0', carriedInterest: '5.0' },
-  'Secondary': { managementFee: '1.5', carriedInterest: '10.0' },
-  'Co-Investment': { managementFee: '0.5', carriedInterest: '10.0' }
-}
-
-export default function FundForm({ open, onOpenChange, onSubmit }: FundFormProps) {
+export default function FundForm({ open, onOpenChange, onSubmit, library }: FundFormProps) {
   const [formData, setFormData] = useState({
     name: '',
     vintage: new Date().getFullYear(),
@@ -110,11 +88,9 @@ export default function FundForm({ open, onOpenChange, onSubmit }: FundFormProps
       
       // Auto-populate fee defaults when fund type changes
       if (field === 'fundType' && typeof value === 'string') {
-        const defaults = fundTypeDefaults[value as keyof typeof fundTypeDefaults]
-        if (defaults) {
-          newData.managementFeeRate = defaults.managementFee
-          newData.carriedInterestRate = defaults.carriedInterest
-        }
+        const defaults = getFundTypeExpectation(library, value)
+        if (defaults?.managementFeeRate !== undefined) newData.managementFeeRate = defaults.managementFeeRate.toFixed(1)
+        if (defaults?.carriedInterestRate !== undefined) newData.carriedInterestRate = defaults.carriedInterestRate.toFixed(1)
       }
       
       return newData
@@ -174,7 +150,7 @@ export default function FundForm({ open, onOpenChange, onSubmit }: FundFormProps
                   <SelectValue placeholder="Select fund type" />
                 </SelectTrigger>
                 <SelectContent>
-                  {fundTypes.map(type => (
+                  {getFundTypes(library).map(type => (
                     <SelectItem key={type} value={type}>{type}</SelectItem>
                   ))}
                 </SelectContent>
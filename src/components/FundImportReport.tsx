@@ -0,0 +1,82 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Badge } from './ui/badge'
+import { AlertCircle, AlertTriangle } from 'lucide-react'
+import { FundImportRow } from '../types'
+
+interface FundImportReportProps {
+  rows: FundImportRow[]
+}
+
+// Per-row validation report of a fund import: rows with errors are skipped, warnings are informational
+export default function FundImportReport({ rows }: FundImportReportProps) {
+  const validRows = rows.filter(row => !row.issues.some(issue => issue.severity === 'error'))
+  const warningCount = validRows.filter(row => row.issues.length > 0).length
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <Badge variant="secondary">{validRows.length} ready to import</Badge>
+        {rows.length - validRows.length > 0 && (
+          <Badge variant="destructive">{rows.length - validRows.length} with errors</Badge>
+        )}
+        {warningCount > 0 && (
+          <Badge variant="outline">{warningCount} with warnings</Badge>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Row</TableHead>
+              <TableHead>Fund</TableHead>
+              <TableHead>Vintage</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="text-right">Called</TableHead>
+              <TableHead className="text-right">Distributed</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Issues</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => {
+              const hasErrors = row.issues.some(issue => issue.severity === 'error')
+              const called = -row.upload.yearlyNetCashflows.reduce((sum, cf) => sum + cf.contributionsPercentage, 0)
+              const distributed = row.upload.yearlyNetCashflows.reduce((sum, cf) => sum + cf.distributionsPercentage, 0)
+              return (
+                <TableRow key={row.rowNumber} className={hasErrors ? 'bg-red-50' : undefined}>
+                  <TableCell>{row.rowNumber}</TableCell>
+                  <TableCell className="font-medium">{row.upload.fundName || 'N/A'}</TableCell>
+                  <TableCell>{row.upload.vintage || 'N/A'}</TableCell>
+                  <TableCell>{row.upload.fundType || 'N/A'}</TableCell>
+                  <TableCell className="text-right">{(called * 100).toFixed(1)}%</TableCell>
+                  <TableCell className="text-right">{(distributed * 100).toFixed(1)}%</TableCell>
+                  <TableCell>
+                    {hasErrors ? (
+                      <Badge variant="destructive">Skipped</Badge>
+                    ) : (
+                      <Badge variant="secondary">Ready</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {row.issues.map((issue, index) => (
+                      <div
+                        key={index}
+                        className={`flex items-center gap-1 ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}
+                      >
+                        {issue.severity === 'error'
+                          ? <AlertCircle className="h-3 w-3 shrink-0" />
+                          : <AlertTriangle className="h-3 w-3 shrink-0" />}
+                        {issue.column ? `${issue.column}: ` : ''}{issue.message}
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,254 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Alert, AlertDescription } from './ui/alert'
+import { Badge } from './ui/badge'
+import { Upload, FileSpreadsheet, ArrowLeft, ArrowRight, CheckCircle, AlertCircle } from 'lucide-react'
+import { FundImportTarget, FundTypeExpectation, GeneralFund, GeneralFundUpload } from '../types'
+import { SheetTable, readTables, toText } from '../lib/workbook'
+import {
+  FundImportMapping, MAX_IMPORT_YEARS, fundImportFields, getFieldLabel, guessColumnMapping,
+  validateColumnMapping, validateImportRows
+} from '../lib/fundImport'
+import FundImportReport from './FundImportReport'
+
+interface FundImportWizardProps {
+  existingFunds: GeneralFund[]
+  library: FundTypeExpectation[]
+  onImport: (uploads: GeneralFundUpload[]) => void
+}
+
+type WizardStep = 'file' | 'mapping' | 'preview'
+
+const steps: { id: WizardStep; label: string }[] = [
+  { id: 'file', label: '1. Choose File' },
+  { id: 'mapping', label: '2. Map Columns' },
+  { id: 'preview', label: '3. Review & Import' }
+]
+
+const targetOptions: FundImportTarget[] = [
+  'ignore',
+  ...fundImportFields.map(f => f.field),
+  ...Array.from({ length: MAX_IMPORT_YEARS }, (_, i): FundImportTarget => `year:${i + 1}`)
+]
+
+export default function FundImportWizard({ existingFunds, library, onImport }: FundImportWizardProps) {
+  const [step, setStep] = useState<WizardStep>('file')
+  const [fileName, setFileName] = useState('')
+  const [tables, setTables] = useState<SheetTable[]>([])
+  const [sheetName, setSheetName] = useState('')
+  const [mapping, setMapping] = useState<FundImportMapping>({})
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [importedCount, setImportedCount] = useState<number | null>(null)
+
+  const table = tables.find(t => t.sheetName === sheetName)
+  const mappingErrors = validateColumnMapping(mapping)
+  const previewRows = step === 'preview' && table ? validateImportRows(table, mapping, existingFunds, library) : []
+  const validRows = previewRows.filter(row => !row.issues.some(issue => issue.severity === 'error'))
+
+  const selectSheet = (name: string, available: SheetTable[] = tables) => {
+    const selected = available.find(t => t.sheetName === name)
+    setSheetName(name)
+    setMapping(selected ? guessColumnMapping(selected.headers) : {})
+  }
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    setFileError(null)
+    setImportedCount(null)
+    try {
+      const parsedTables = (await readTables(file)).filter(t => t.rows.length > 0)
+      if (parsedTables.length === 0) {
+        throw new Error('The file does not contain a header row with data rows below it')
+      }
+
+      // Start with the widest sheet; instruction sheets only have one or two columns
+      const widest = parsedTables.reduce((best, t) => (t.headers.length > best.headers.length ? t : best))
+      setFileName(file.name)
+      setTables(parsedTables)
+      selectSheet(widest.sheetName, parsedTables)
+      setStep('mapping')
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'Failed to read file')
+    } finally {
+      event.target.value = ''
+    }
+  }
+
+  const handleImport = () => {
+    onImport(validRows.map(row => row.upload))
+    setImportedCount(validRows.length)
+    setTables([])
+    setMapping({})
+    setStep('file')
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              Fund Import Wizard
+            </CardTitle>
+            <CardDescription>
+              Map the columns of any spreadsheet to fund fields and review every row before it is imported
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {steps.map(s => (
+              <Badge key={s.id} variant={s.id === step ? 'default' : 'outline'}>{s.label}</Badge>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {step === 'file' && (
+          <>
+            <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6">
+              <div className="text-center space-y-2">
+                <Upload className="h-8 w-8 mx-auto text-muted-foreground" />
+                <div>
+                  <Label htmlFor="import-wizard-file" className="cursor-pointer text-primary hover:underline">
+                    Click to choose an Excel or CSV file
+                  </Label>
+                  <Input
+                    id="import-wizard-file"
+                    type="file"
+                    accept=".xlsx,.csv"
+                    onChange={handleFileSelect}
+                    className="hidden"
+                  />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  One fund per row with a header row; yearly net cashflows as percentages of commitment
+                </p>
+              </div>
+            </div>
+
+            {fileError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{fileError}</AlertDescription>
+              </Alert>
+            )}
+
+            {importedCount !== null && (
+              <Alert>
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription>{importedCount} funds were imported into the general database.</AlertDescription>
+              </Alert>
+            )}
+          </>
+        )}
+
+        {step === 'mapping' && table && (
+          <>
+            <div className="flex items-end gap-4">
+              <div className="text-sm text-muted-foreground">
+                {fileName}: {table.rows.length} data rows
+              </div>
+              {tables.length > 1 && (
+                <div className="w-64">
+                  <Label>Sheet</Label>
+                  <Select value={sheetName} onValueChange={(value) => selectSheet(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tables.map(t => (
+                        <SelectItem key={t.sheetName} value={t.sheetName}>{t.sheetName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Source Column</TableHead>
+                    <TableHead>First Value</TableHead>
+                    <TableHead className="w-72">Maps To</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {table.headers.filter(header => header).map(header => (
+                    <TableRow key={header}>
+                      <TableCell className="font-medium">{header}</TableCell>
+                      <TableCell className="text-muted-foreground">{toText(table.rows[0][header] ?? null) || 'N/A'}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={mapping[header] || 'ignore'}
+                          onValueChange={(value) => setMapping({ ...mapping, [header]: value as FundImportTarget })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {targetOptions.map(target => (
+                              <SelectItem key={target} value={target}>
+                                {getFieldLabel(target)}
+                                {fundImportFields.find(f => f.field === target)?.required ? ' *' : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {mappingErrors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {mappingErrors.map(error => <div key={error}>{error}</div>)}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('file')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <Button onClick={() => setStep('preview')} disabled={mappingErrors.length > 0}>
+                Preview Rows
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <FundImportReport rows={previewRows} />
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('mapping')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Mapping
+              </Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Import {validRows.length} Funds
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
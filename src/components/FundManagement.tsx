@@ -4,17 +4,28 @@ import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
 import { Building2, Calendar, DollarSign, TrendingUp, Eye, Plus } from 'lucide-react'
-import { Fund, Cashflow } from '../types'
+import { Fund, Cashflow, FundRule, BenchmarkIndexLevel, FundTypeExpectation } from '../types'
+import { analyzeFundPerformance } from '../lib/performanceMetrics'
 import FundDetailDialog from './FundDetailDialog'
 import FundForm from './FundForm'
 
 interface FundManagementProps {
   funds: Fund[]
   cashflows: Cashflow[]
+  library: FundTypeExpectation[]
+  fundRules?: FundRule[]
   onAddFund?: (fundData: Omit<Fund, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => void
+  benchmarkIndex?: BenchmarkIndexLevel[] // Enables the PME column when supplied
 }
 
-export default function FundManagement({ funds, cashflows, onAddFund }: FundManagementProps) {
+export default function FundManagement({
+  funds,
+  cashflows,
+  library,
+  fundRules = [],
+  onAddFund,
+  benchmarkIndex
+}: FundManagementProps) {
   const [selectedFund, setSelectedFund] = useState<Fund | null>(null)
   const [showFundDetail, setShowFundDetail] = useState(false)
   const [showAddFund, setShowAddFund] = useState(false)
@@ -22,32 +33,11 @@ export default function FundManagement({ funds, cashflows, onAddFund }: FundMana
   // Calculate fund performance metrics
   const getFundMetrics = (fund: Fund) => {
     const fundCashflows = cashflows.filter(cf => cf.fundId === fund.id)
-    
-    if (fundCashflows.length === 0) {
-      return {
-        totalCalls: 0,
-        totalDistributions: 0,
-        currentNav: 0,
-        netCashflow: 0,
-        multiple: 0,
-        calledPercentage: 0
-      }
-    }
-
-    const totalCalls = fundCashflows.reduce((sum, cf) => sum + cf.calls, 0)
-    const totalDistributions = fundCashflows.reduce((sum, cf) => sum + cf.distributions, 0)
-    const latestCashflow = fundCashflows.sort((a, b) => b.year - a.year || b.quarter - a.quarter)[0]
-    const currentNav = latestCashflow?.nav || 0
-    const netCashflow = totalDistributions - totalCalls
-    const multiple = totalCalls > 0 ? (totalDistributions + currentNav) / totalCalls : 0
-    const calledPercentage = (totalCalls / fund.commitmentAmount) * 100
+    const analysis = analyzeFundPerformance(fundCashflows, { benchmarkIndex })
+    const calledPercentage = (analysis.totalCalls / fund.commitmentAmount) * 100
 
     return {
-      totalCalls,
-      totalDistributions,
-      currentNav,
-      netCashflow,
-      multiple,
+      ...analysis,
       calledPercentage
     }
   }
@@ -142,6 +132,8 @@ export default function FundManagement({ funds, cashflows, onAddFund }: FundMana
                 <TableHead className="text-right">Current NAV</TableHead>
                 <TableHead className="text-right">Total Distributions</TableHead>
                 <TableHead className="text-right">Multiple</TableHead>
+                <TableHead className="text-right">IRR</TableHead>
+                <TableHead className="text-right">KS-PME</TableHead>
                 <TableHead className="w-12"></TableHead>
               </TableRow>
             </TableHeader>
@@ -193,6 +185,12 @@ export default function FundManagement({ funds, cashflows, onAddFund }: FundMana
                         </span>
                       </div>
                     </TableCell>
+                    <TableCell className="text-right">
+                      {metrics.irr !== undefined ? `${metrics.irr.toFixed(1)}%` : 'N/A'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {metrics.pme !== undefined ? `${metrics.pme.toFixed(2)}x` : 'N/A'}
+                    </TableCell>
                     <TableCell>
                       <Button
                         variant="ghost"
@@ -214,8 +212,10 @@ export default function FundManagement({ funds, cashflows, onAddFund }: FundMana
       <FundDetailDialog
         fund={selectedFund}
         cashflows={cashflows}
+        fundRules={fundRules}
         open={showFundDetail}
         onOpenChange={setShowFundDetail}
+        benchmarkIndex={benchmarkIndex}
       />
 
       {/* Add Fund Dialog */}
@@ -224,6 +224,7 @@ export default function FundManagement({ funds, cashflows, onAddFund }: FundMana
           open={showAddFund}
           onOpenChange={setShowAddFund}
           onSubmit={onAddFund}
+          library={library}
         />
       )}
     </div>
@@ -2,7 +2,7 @@ import { useState } from 'react'
 import { Button } from './ui/button'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from './ui/dropdown-menu'
 import { Plus, TrendingUp, Upload, FileSpreadsheet, Download } from 'lucide-react'
-import { Fund, ExcelTemplate, Cashflow } from '../types'
+import { Fund, ExcelTemplate, Cashflow, FundTypeExpectation } from '../types'
 import FundForm from './FundForm'
 import CashflowForm from './CashflowForm'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
@@ -15,9 +15,10 @@ interface FundMenuProps {
   onImportExcel: (template: ExcelTemplate) => void
   onAddCashflow: (cashflowData: Omit<Cashflow, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => void
   funds: Fund[]
+  library: FundTypeExpectation[]
 }
 
-export default function FundMenu({ onAddFund, onImportExcel, onAddCashflow, funds }: FundMenuProps) {
+export default function FundMenu({ onAddFund, onImportExcel, onAddCashflow, funds, library }: FundMenuProps) {
   const [showFundForm, setShowFundForm] = useState(false)
   const [showCashflowForm, setShowCashflowForm] = useState(false)
   const [showExcelDialog, setShowExcelDialog] = useState(false)
@@ -104,6 +105,7 @@ Apollo Global Management Fund IX,2024,1,8000000,0,12500000,250000,0,0`
         open={showFundForm}
         onOpenChange={setShowFundForm}
         onSubmit={onAddFund}
+        library={library}
       />
 
       <CashflowForm
@@ -0,0 +1,456 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Alert, AlertDescription } from './ui/alert'
+import { Library, Plus, Edit, Trash2, RotateCcw, AlertCircle } from 'lucide-react'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { FundTypeExpectation, ProjectionModel } from '../types'
+import { defaultTakahashiAlexanderParams } from '../lib/takahashiAlexander'
+import { useToast } from '../hooks/use-toast'
+
+interface FundTypeLibraryProps {
+  library: FundTypeExpectation[]
+  onSave: (expectation: Omit<FundTypeExpectation, 'id'> & { id?: string }) => void
+  onDelete: (id: string) => void
+  onReset: () => void
+}
+
+// Editable form of a library entry; patterns are comma-separated percentages
+interface ExpectationDraft {
+  id?: string
+  fundType: string
+  strategy: string
+  avgLifespan: string
+  managementFeeRate: string
+  carriedInterestRate: string
+  avgMultiple: string
+  avgIRR: string
+  projectionModel: ProjectionModel
+  callPattern: string
+  distributionPattern: string
+  navPattern: string
+  managementFeePattern: string
+  carriedInterestPattern: string
+}
+
+const patternFields: { key: keyof ExpectationDraft; label: string; required: boolean }[] = [
+  { key: 'callPattern', label: 'Call Pattern', required: true },
+  { key: 'distributionPattern', label: 'Distribution Pattern', required: true },
+  { key: 'navPattern', label: 'NAV Pattern', required: true },
+  { key: 'managementFeePattern', label: 'Management Fee Pattern', required: false },
+  { key: 'carriedInterestPattern', label: 'Carried Interest Pattern', required: false }
+]
+
+const emptyDraft: ExpectationDraft = {
+  fundType: '',
+  strategy: '',
+  avgLifespan: '10',
+  managementFeeRate: '2.0',
+  carriedInterestRate: '20.0',
+  avgMultiple: '2.0',
+  avgIRR: '15.0',
+  projectionModel: 'pattern',
+  callPattern: '',
+  distributionPattern: '',
+  navPattern: '',
+  managementFeePattern: '',
+  carriedInterestPattern: ''
+}
+
+const toDraft = (expectation: FundTypeExpectation): ExpectationDraft => ({
+  id: expectation.id,
+  fundType: expectation.fundType,
+  strategy: expectation.strategy || '',
+  avgLifespan: String(expectation.avgLifespan),
+  managementFeeRate: String(expectation.managementFeeRate ?? ''),
+  carriedInterestRate: String(expectation.carriedInterestRate ?? ''),
+  avgMultiple: String(expectation.avgMultiple),
+  avgIRR: String(expectation.avgIRR),
+  projectionModel: expectation.projectionModel || 'pattern',
+  callPattern: expectation.callPattern.join(', '),
+  distributionPattern: expectation.distributionPattern.join(', '),
+  navPattern: expectation.navPattern.join(', '),
+  managementFeePattern: (expectation.managementFeePattern || []).join(', '),
+  carriedInterestPattern: (expectation.carriedInterestPattern || []).join(', ')
+})
+
+const parsePattern = (text: string) =>
+  text.split(/[,;\s]+/).filter(value => value !== '').map(value => Number(value))
+
+// Check the draft and turn it into a library entry; returns the problems instead when there are any
+const parseDraft = (
+  draft: ExpectationDraft,
+  library: FundTypeExpectation[],
+  original?: FundTypeExpectation
+): { expectation?: Omit<FundTypeExpectation, 'id'> & { id?: string }; errors: string[] } => {
+  const errors: string[] = []
+  const fundType = draft.fundType.trim()
+  const strategy = draft.strategy.trim()
+  const lifespan = Number(draft.avgLifespan)
+
+  if (!fundType) errors.push('Fund type is required')
+  if (!Number.isInteger(lifespan) || lifespan < 1 || lifespan > 30) errors.push('Lifespan must be a whole number of years between 1 and 30')
+
+  const duplicate = library.find(entry =>
+    entry.id !== draft.id &&
+    entry.fundType.toLowerCase() === fundType.toLowerCase() &&
+    (entry.strategy || '').toLowerCase() === strategy.toLowerCase()
+  )
+  if (duplicate) {
+    errors.push(strategy ? `${fundType} already has a ${strategy} curve` : `${fundType} already has a default curve`)
+  }
+
+  const patterns: Partial<Record<keyof ExpectationDraft, number[]>> = {}
+  patternFields.forEach(({ key, label, required }) => {
+    const text = String(draft[key]).trim()
+    if (!text && !required) return
+    const values = parsePattern(text)
+    if (values.some(value => isNaN(value) || value < 0)) {
+      errors.push(`${label} must be non-negative numbers separated by commas`)
+    } else if (values.length !== lifespan) {
+      errors.push(`${label} has ${values.length} values; expected ${draft.avgLifespan} (one per year)`)
+    }
+    patterns[key] = values
+  })
+
+  const numbers = {
+    managementFeeRate: Number(draft.managementFeeRate),
+    carriedInterestRate: Number(draft.carriedInterestRate),
+    avgMultiple: Number(draft.avgMultiple),
+    avgIRR: Number(draft.avgIRR)
+  }
+  if (Object.values(numbers).some(value => isNaN(value))) errors.push('Fees, carry, multiple and IRR must be numbers')
+
+  if (errors.length > 0) return { errors }
+
+  // Takahashi-Alexander parameters are kept from the original entry, with the fund life following the lifespan
+  const takahashiAlexander = original?.takahashiAlexander || defaultTakahashiAlexanderParams
+  return {
+    errors,
+    expectation: {
+      ...original,
+      id: draft.id,
+      fundType,
+      strategy: strategy || undefined,
+      avgLifespan: lifespan,
+      ...numbers,
+      projectionModel: draft.projectionModel,
+      callPattern: patterns.callPattern || [],
+      distributionPattern: patterns.distributionPattern || [],
+      navPattern: patterns.navPattern || [],
+      managementFeePattern: patterns.managementFeePattern,
+      carriedInterestPattern: patterns.carriedInterestPattern,
+      takahashiAlexander: { ...takahashiAlexander, lifespan }
+    }
+  }
+}
+
+// Calls below the zero line, distributions above it and NAV as a line, in % of commitment
+function CurvePreview({ callPattern, distributionPattern, navPattern }: Pick<FundTypeExpectation, 'callPattern' | 'distributionPattern' | 'navPattern'>) {
+  const length = Math.max(callPattern.length, distributionPattern.length, navPattern.length)
+  const data = Array.from({ length }, (_, i) => ({
+    year: `Y${i + 1}`,
+    calls: -(callPattern[i] || 0),
+    distributions: distributionPattern[i] || 0,
+    nav: navPattern[i] || 0
+  }))
+
+  if (data.length === 0) {
+    return <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">No curve to preview</div>
+  }
+
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="year" />
+          <YAxis tickFormatter={(value) => `${value}%`} />
+          <Tooltip formatter={(value: number, name: string) => [`${Math.abs(value).toFixed(1)}%`, name]} />
+          <Legend />
+          <ReferenceLine y={0} stroke="#666" />
+          <Bar dataKey="calls" name="Calls" fill="#ef4444" />
+          <Bar dataKey="distributions" name="Distributions" fill="#22c55e" />
+          <Line type="monotone" dataKey="nav" name="NAV" stroke="#3b82f6" strokeWidth={2} dot={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
+
+export default function FundTypeLibrary({ library, onSave, onDelete, onReset }: FundTypeLibraryProps) {
+  const [selectedId, setSelectedId] = useState<string>('')
+  const [draft, setDraft] = useState<ExpectationDraft | null>(null)
+  const { toast } = useToast()
+
+  const selected = library.find(entry => entry.id === selectedId) || library[0]
+  const original = draft?.id ? library.find(entry => entry.id === draft.id) : undefined
+  const parsed = draft ? parseDraft(draft, library, original) : null
+  const fundTypes = Array.from(new Set(library.map(entry => entry.fundType)))
+
+  // Rows grouped by fund type, default curve first
+  const sortedLibrary = [...library].sort((a, b) =>
+    fundTypes.indexOf(a.fundType) - fundTypes.indexOf(b.fundType) || (a.strategy ? 1 : 0) - (b.strategy ? 1 : 0)
+  )
+
+  const handleSave = () => {
+    if (!parsed?.expectation) return
+    onSave(parsed.expectation)
+    setDraft(null)
+    toast({
+      title: "Fund Type Saved",
+      description: `${parsed.expectation.fundType}${parsed.expectation.strategy ? ` / ${parsed.expectation.strategy}` : ''} curves were saved to the library.`
+    })
+  }
+
+  const handleReset = () => {
+    if (!window.confirm('Replace the whole library with the default fund types? Custom curves will be removed.')) return
+    onReset()
+    setSelectedId('')
+  }
+
+  const updateDraft = (field: keyof ExpectationDraft, value: string) => {
+    if (draft) setDraft({ ...draft, [field]: value })
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Library className="h-5 w-5" />
+                Fund Type Library
+              </CardTitle>
+              <CardDescription>
+                Expected call, distribution and NAV curves per fund type and sub-strategy. Every fund type list and
+                projection in the application reads from this library.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleReset}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset to Defaults
+              </Button>
+              <Button onClick={() => setDraft(emptyDraft)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Curve
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fund Type</TableHead>
+                <TableHead>Sub-Strategy</TableHead>
+                <TableHead className="text-right">Lifespan</TableHead>
+                <TableHead className="text-right">Mgmt Fee</TableHead>
+                <TableHead className="text-right">Carry</TableHead>
+                <TableHead className="text-right">Multiple</TableHead>
+                <TableHead className="text-right">IRR</TableHead>
+                <TableHead>Model</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedLibrary.map(entry => (
+                <TableRow
+                  key={entry.id}
+                  className={`cursor-pointer ${entry.id === selected?.id ? 'bg-muted/50' : ''}`}
+                  onClick={() => setSelectedId(entry.id)}
+                >
+                  <TableCell className="font-medium">{entry.fundType}</TableCell>
+                  <TableCell>
+                    {entry.strategy ? <Badge variant="outline">{entry.strategy}</Badge> : <span className="text-muted-foreground">Default</span>}
+                    {entry.peerGroup && (
+                      <span className="ml-2 text-xs text-muted-foreground">Peer curve, {entry.peerGroup.fundCount} funds</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{entry.avgLifespan} years</TableCell>
+                  <TableCell className="text-right">{entry.managementFeeRate !== undefined ? `${entry.managementFeeRate.toFixed(1)}%` : 'N/A'}</TableCell>
+                  <TableCell className="text-right">{entry.carriedInterestRate !== undefined ? `${entry.carriedInterestRate.toFixed(1)}%` : 'N/A'}</TableCell>
+                  <TableCell className="text-right">{entry.avgMultiple.toFixed(1)}x</TableCell>
+                  <TableCell className="text-right">{entry.avgIRR.toFixed(1)}%</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{entry.projectionModel === 'takahashi-alexander' ? 'Takahashi-Alexander' : 'Pattern'}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); setDraft(toDraft(entry)) }}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); onDelete(entry.id) }}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selected.fundType}{selected.strategy ? ` / ${selected.strategy}` : ''} Curves</CardTitle>
+            <CardDescription>Yearly calls, distributions and NAV as % of commitment</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CurvePreview
+              callPattern={selected.callPattern}
+              distributionPattern={selected.distributionPattern}
+              navPattern={selected.navPattern}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={draft !== null} onOpenChange={(open) => { if (!open) setDraft(null) }}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Fund Type Curve' : 'Add Fund Type Curve'}</DialogTitle>
+            <DialogDescription>
+              Leave the sub-strategy blank for the fund type's default curve. Patterns are percentages of
+              commitment, one value per year of the lifespan.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <Label htmlFor="library-fund-type">Fund Type *</Label>
+                  <Input
+                    id="library-fund-type"
+                    list="library-fund-types"
+                    value={draft.fundType}
+                    onChange={(e) => updateDraft('fundType', e.target.value)}
+                    placeholder="e.g., Private Equity"
+                  />
+                  <datalist id="library-fund-types">
+                    {fundTypes.map(type => <option key={type} value={type} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <Label htmlFor="library-strategy">Sub-Strategy</Label>
+                  <Input
+                    id="library-strategy"
+                    value={draft.strategy}
+                    onChange={(e) => updateDraft('strategy', e.target.value)}
+                    placeholder="Default curve"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="library-lifespan">Lifespan (years) *</Label>
+                  <Input
+                    id="library-lifespan"
+                    type="number"
+                    min="1"
+                    max="30"
+                    value={draft.avgLifespan}
+                    onChange={(e) => updateDraft('avgLifespan', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label>Projection Model</Label>
+                  <Select value={draft.projectionModel} onValueChange={(value) => updateDraft('projectionModel', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="pattern">Pattern</SelectItem>
+                      <SelectItem value="takahashi-alexander">Takahashi-Alexander</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="library-fee">Management Fee (%)</Label>
+                  <Input
+                    id="library-fee"
+                    type="number"
+                    step="0.1"
+                    value={draft.managementFeeRate}
+                    onChange={(e) => updateDraft('managementFeeRate', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="library-carry">Carried Interest (%)</Label>
+                  <Input
+                    id="library-carry"
+                    type="number"
+                    step="0.1"
+                    value={draft.carriedInterestRate}
+                    onChange={(e) => updateDraft('carriedInterestRate', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="library-multiple">Expected Multiple (x)</Label>
+                  <Input
+                    id="library-multiple"
+                    type="number"
+                    step="0.1"
+                    value={draft.avgMultiple}
+                    onChange={(e) => updateDraft('avgMultiple', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="library-irr">Expected IRR (%)</Label>
+                  <Input
+                    id="library-irr"
+                    type="number"
+                    step="0.1"
+                    value={draft.avgIRR}
+                    onChange={(e) => updateDraft('avgIRR', e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                {patternFields.map(({ key, label, required }) => (
+                  <div key={key}>
+                    <Label htmlFor={`library-${key}`}>{label} (%){required ? ' *' : ''}</Label>
+                    <Input
+                      id={`library-${key}`}
+                      value={String(draft[key])}
+                      onChange={(e) => updateDraft(key, e.target.value)}
+                      placeholder="e.g., 15, 25, 20, 15, 10, 8, 5, 2, 0, 0"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <CurvePreview
+                callPattern={parsePattern(draft.callPattern).map(value => value || 0)}
+                distributionPattern={parsePattern(draft.distributionPattern).map(value => value || 0)}
+                navPattern={parsePattern(draft.navPattern).map(value => value || 0)}
+              />
+
+              {parsed && parsed.errors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    {parsed.errors.map(error => <div key={error}>{error}</div>)}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={!parsed?.expectation}>Save Curve</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -8,13 +8,23 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '.
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
 import { Badge } from './ui/badge'
 import { Textarea } from './ui/textarea'
+import { Checkbox } from './ui/checkbox'
 import { Plus, Upload, Database, Edit, Trash2, Eye } from 'lucide-react'
-import { GeneralFund, GeneralFundNetCashflow, GeneralFundUpload } from '../types'
+import {
+  CarryWaterfallType, FundTypeExpectation, GeneralFund, GeneralFundNetCashflow, GeneralFundUpload, ProjectionModel
+} from '../types'
 import { useToast } from '../hooks/use-toast'
+import { defaultTakahashiAlexanderParams } from '../lib/takahashiAlexander'
+import { carryWaterfallTypes, defaultFundFeeTerms } from '../lib/feeEngine'
+import { getFundTypeStrategies, getFundTypes } from '../data/fundExpectations'
+import { validatePastedFund } from '../lib/fundImport'
+import FundComparison from './FundComparison'
+import FundImportReport from './FundImportReport'
 
 interface GeneralFundDatabaseProps {
   generalFunds: GeneralFund[]
   generalFundCashflows: GeneralFundNetCashflow[]
+  library: FundTypeExpectation[]
   onAddGeneralFund: (fund: Omit<GeneralFund, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => void
   onAddGeneralFundCashflows: (cashflows: Omit<GeneralFundNetCashflow, 'id' | 'createdAt' | 'updatedAt' | 'userId'>[]) => void
   onUpdateGeneralFund: (id: string, updates: Partial<GeneralFund>) => void
@@ -22,11 +32,6 @@ interface GeneralFundDatabaseProps {
   onBulkUpload: (upload: GeneralFundUpload) => void
 }
 
-const fundTypes = [
-  'Buyout', 'Growth', 'Venture Capital', 'Real Estate', 'Infrastructure', 
-  'Credit', 'Distressed', 'Secondary', 'Fund of Funds', 'Other'
-]
-
 const strategies = [
   'Large Buyout', 'Mid-Market Buyout', 'Small Buyout', 'Growth Equity',
   'Early Stage VC', 'Late Stage VC', 'Seed', 'Core Real Estate', 'Value-Add Real Estate',
@@ -34,6 +39,10 @@ const strategies = [
   'Direct Lending', 'Mezzanine', 'Distressed Debt', 'Special Situations', 'Other'
 ]
 
+// Sub-strategies with their own curve in the fund type library come first
+const getStrategyOptions = (library: FundTypeExpectation[], fundType: string) =>
+  Array.from(new Set([...getFundTypeStrategies(library, fundType), ...strategies]))
+
 const geographies = [
   'North America', 'United States', 'Europe', 'Asia Pacific', 'Global',
   'Emerging Markets', 'China', 'India', 'Latin America', 'Other'
@@ -42,6 +51,7 @@ const geographies = [
 export default function GeneralFundDatabase({
   generalFunds,
   generalFundCashflows,
+  library,
   onAddGeneralFund,
   onAddGeneralFundCashflows,
   onUpdateGeneralFund,
@@ -52,7 +62,9 @@ export default function GeneralFundDatabase({
   const [showBulkUpload, setShowBulkUpload] = useState(false)
   const [selectedFund, setSelectedFund] = useState<GeneralFund | null>(null)
   const [showCashflows, setShowCashflows] = useState(false)
+  const [comparedFundIds, setComparedFundIds] = useState<string[]>([])
   const { toast } = useToast()
+  const fundTypes = getFundTypes(library)
 
   // Form state for adding new fund
   const [formData, setFormData] = useState({
@@ -64,7 +76,13 @@ export default function GeneralFundDatabase({
     expectedLifespan: 10,
     managementFeeRate: 2.0,
     carriedInterestRate: 20.0,
-    description: ''
+    ...defaultFundFeeTerms,
+    description: '',
+    projectionModel: 'pattern' as ProjectionModel,
+    contributionRates: defaultTakahashiAlexanderParams.contributionRates.join(', '),
+    bow: defaultTakahashiAlexanderParams.bow,
+    growthRate: defaultTakahashiAlexanderParams.growthRate,
+    yield: defaultTakahashiAlexanderParams.yield
   })
 
   // Bulk upload form state
@@ -99,7 +117,24 @@ export default function GeneralFundDatabase({
       expectedLifespan: formData.expectedLifespan,
       managementFeeRate: formData.managementFeeRate,
       carriedInterestRate: formData.carriedInterestRate,
-      description: formData.description
+      feeTerms: {
+        investmentPeriodYears: formData.investmentPeriodYears,
+        waterfallType: formData.waterfallType,
+        hurdleRate: formData.hurdleRate,
+        catchUpRate: formData.catchUpRate
+      },
+      description: formData.description,
+      projectionModel: formData.projectionModel,
+      takahashiAlexander: formData.projectionModel === 'takahashi-alexander' ? {
+        contributionRates: formData.contributionRates
+          .split(',')
+          .map(rate => parseFloat(rate.trim()))
+          .filter(rate => !isNaN(rate)),
+        bow: formData.bow,
+        growthRate: formData.growthRate,
+        yield: formData.yield,
+        lifespan: formData.expectedLifespan
+      } : undefined
     })
 
     // Reset form
@@ -112,7 +147,13 @@ export default function GeneralFundDatabase({
       expectedLifespan: 10,
       managementFeeRate: 2.0,
       carriedInterestRate: 20.0,
-      description: ''
+      ...defaultFundFeeTerms,
+      description: '',
+      projectionModel: 'pattern',
+      contributionRates: defaultTakahashiAlexanderParams.contributionRates.join(', '),
+      bow: defaultTakahashiAlexanderParams.bow,
+      growthRate: defaultTakahashiAlexanderParams.growthRate,
+      yield: defaultTakahashiAlexanderParams.yield
     })
     setShowAddFund(false)
 
@@ -122,73 +163,47 @@ export default function GeneralFundDatabase({
     })
   }
 
+  // The pasted series is checked like an imported row; only a fund without errors can be uploaded
+  const { cashflowData, ...bulkFund } = bulkUploadData
+  const pastedFund = cashflowData.trim()
+    ? validatePastedFund(bulkFund, cashflowData, generalFunds, library)
+    : null
+  const pastedFundHasErrors = pastedFund?.issues.some(issue => issue.severity === 'error') ?? true
+
   const handleBulkUpload = () => {
-    if (!bulkUploadData.fundName || !bulkUploadData.fundType || !bulkUploadData.cashflowData) {
+    if (!pastedFund || pastedFundHasErrors) {
       toast({
         title: "Validation Error",
-        description: "Please fill in all required fields including cashflow data.",
+        description: "Please fill in all required fields and fix the errors in the cashflow data.",
         variant: "destructive"
       })
       return
     }
 
-    try {
-      // Parse cashflow data (expecting format: year,netCashflow%,contributions%,distributions%,nav%)
-      const lines = bulkUploadData.cashflowData.trim().split('\n')
-      const yearlyNetCashflows = lines.map(line => {
-        const [year, net, contrib, dist, nav] = line.split(',').map(s => s.trim())
-        return {
-          year: parseInt(year),
-          netCashflowPercentage: parseFloat(net) / 100,
-          contributionsPercentage: parseFloat(contrib) / 100,
-          distributionsPercentage: parseFloat(dist) / 100,
-          navPercentage: parseFloat(nav) / 100
-        }
-      })
-
-      const upload: GeneralFundUpload = {
-        fundName: bulkUploadData.fundName,
-        vintage: bulkUploadData.vintage,
-        fundType: bulkUploadData.fundType,
-        strategy: bulkUploadData.strategy,
-        geography: bulkUploadData.geography,
-        expectedLifespan: bulkUploadData.expectedLifespan,
-        managementFeeRate: bulkUploadData.managementFeeRate,
-        carriedInterestRate: bulkUploadData.carriedInterestRate,
-        yearlyNetCashflows
-      }
-
-      onBulkUpload(upload)
-      setShowBulkUpload(false)
-      setBulkUploadData({
-        fundName: '',
-        vintage: new Date().getFullYear(),
-        fundType: '',
-        strategy: '',
-        geography: '',
-        expectedLifespan: 10,
-        managementFeeRate: 2.0,
-        carriedInterestRate: 20.0,
-        cashflowData: ''
-      })
+    onBulkUpload(pastedFund.upload)
+    setShowBulkUpload(false)
+    setBulkUploadData({
+      fundName: '',
+      vintage: new Date().getFullYear(),
+      fundType: '',
+      strategy: '',
+      geography: '',
+      expectedLifespan: 10,
+      managementFeeRate: 2.0,
+      carriedInterestRate: 20.0,
+      cashflowData: ''
+    })
 
-      toast({
-        title: "Bulk Upload Complete",
-        description: `${bulkUploadData.fundName} and its cashflow data have been uploaded.`
-      })
-    } catch (error) {
-      toast({
-        title: "Upload Error",
-        description: "Failed to parse cashflow data. Please check the format.",
-        variant: "destructive"
-      })
-    }
+    toast({
+      title: "Bulk Upload Complete",
+      description: `${pastedFund.upload.fundName} and its cashflow data have been uploaded.`
+    })
   }
 
   const getFundCashflows = (fundId: string) => {
     return generalFundCashflows
       .filter(cf => cf.fundId === fundId)
-      .sort((a, b) => a.year - b.year)
+      .sort((a, b) => a.year - b.year || (a.quarter || 0) - (b.quarter || 0))
   }
 
   const formatPercentage = (value: number) => {
@@ -268,7 +283,7 @@ export default function GeneralFundDatabase({
                             <SelectValue placeholder="Select strategy" />
                           </SelectTrigger>
                           <SelectContent>
-                            {strategies.map(strategy => (
+                            {getStrategyOptions(library, bulkUploadData.fundType).map(strategy => (
                               <SelectItem key={strategy} value={strategy}>{strategy}</SelectItem>
                             ))}
                           </SelectContent>
@@ -299,15 +314,18 @@ export default function GeneralFundDatabase({
                         rows={8}
                       />
                       <p className="text-xs text-muted-foreground mt-1">
-                        Format: year,netCashflow%,contributions%,distributions%,nav% (one line per year)
+                        Format: year,netCashflow%,contributions%,distributions%,nav% (one line per year), or
+                        year,quarter,netCashflow%,contributions%,distributions%,nav% for a quarterly curve
                       </p>
                     </div>
 
+                    {pastedFund && <FundImportReport rows={[pastedFund]} />}
+
                     <div className="flex justify-end gap-2">
                       <Button variant="outline" onClick={() => setShowBulkUpload(false)}>
                         Cancel
                       </Button>
-                      <Button onClick={handleBulkUpload}>
+                      <Button onClick={handleBulkUpload} disabled={pastedFundHasErrors}>
                         Upload Fund & Cashflows
                       </Button>
                     </div>
@@ -372,7 +390,7 @@ export default function GeneralFundDatabase({
                             <SelectValue placeholder="Select strategy" />
                           </SelectTrigger>
                           <SelectContent>
-                            {strategies.map(strategy => (
+                            {getStrategyOptions(library, formData.fundType).map(strategy => (
                               <SelectItem key={strategy} value={strategy}>{strategy}</SelectItem>
                             ))}
                           </SelectContent>
@@ -425,6 +443,112 @@ export default function GeneralFundDatabase({
                       </div>
                     </div>
 
+                    <div className="grid grid-cols-4 gap-4">
+                      <div>
+                        <Label htmlFor="investmentPeriod">Investment Period (years)</Label>
+                        <Input
+                          id="investmentPeriod"
+                          type="number"
+                          value={formData.investmentPeriodYears}
+                          onChange={(e) => setFormData({...formData, investmentPeriodYears: parseInt(e.target.value)})}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="waterfallType">Carry Waterfall</Label>
+                        <Select value={formData.waterfallType} onValueChange={(value: CarryWaterfallType) => setFormData({...formData, waterfallType: value})}>
+                          <SelectTrigger id="waterfallType">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {carryWaterfallTypes.map(type => (
+                              <SelectItem key={type.id} value={type.id}>{type.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label htmlFor="hurdleRate">Hurdle (%)</Label>
+                        <Input
+                          id="hurdleRate"
+                          type="number"
+                          step="0.1"
+                          value={formData.hurdleRate}
+                          onChange={(e) => setFormData({...formData, hurdleRate: parseFloat(e.target.value)})}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="catchUpRate">GP Catch-up (%)</Label>
+                        <Input
+                          id="catchUpRate"
+                          type="number"
+                          step="1"
+                          value={formData.catchUpRate}
+                          onChange={(e) => setFormData({...formData, catchUpRate: parseFloat(e.target.value)})}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <Label htmlFor="projectionModel">Projection Model</Label>
+                        <Select value={formData.projectionModel} onValueChange={(value: ProjectionModel) => setFormData({...formData, projectionModel: value})}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="pattern">Fund Type Pattern</SelectItem>
+                            <SelectItem value="takahashi-alexander">Takahashi-Alexander</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {formData.projectionModel === 'takahashi-alexander' && (
+                        <div className="col-span-2">
+                          <Label htmlFor="contributionRates">Rate of Contribution by Year (%)</Label>
+                          <Input
+                            id="contributionRates"
+                            value={formData.contributionRates}
+                            onChange={(e) => setFormData({...formData, contributionRates: e.target.value})}
+                            placeholder="25, 33.3, 50"
+                          />
+                        </div>
+                      )}
+                    </div>
+
+                    {formData.projectionModel === 'takahashi-alexander' && (
+                      <div className="grid grid-cols-3 gap-4">
+                        <div>
+                          <Label htmlFor="bow">Bow Factor</Label>
+                          <Input
+                            id="bow"
+                            type="number"
+                            step="0.1"
+                            value={formData.bow}
+                            onChange={(e) => setFormData({...formData, bow: parseFloat(e.target.value)})}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="growthRate">Growth Rate (%)</Label>
+                          <Input
+                            id="growthRate"
+                            type="number"
+                            step="0.1"
+                            value={formData.growthRate}
+                            onChange={(e) => setFormData({...formData, growthRate: parseFloat(e.target.value)})}
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="yield">Yield (%)</Label>
+                          <Input
+                            id="yield"
+                            type="number"
+                            step="0.1"
+                            value={formData.yield}
+                            onChange={(e) => setFormData({...formData, yield: parseFloat(e.target.value)})}
+                          />
+                        </div>
+                      </div>
+                    )}
+
                     <div>
                       <Label htmlFor="description">Description</Label>
                       <Textarea
@@ -456,7 +580,7 @@ export default function GeneralFundDatabase({
         <CardHeader>
           <CardTitle>General Funds ({generalFunds.length})</CardTitle>
           <CardDescription>
-            Fund characteristics and metadata for portfolio building
+            Fund characteristics and metadata for portfolio building. Tick funds to compare their curves and peer quartiles.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -470,6 +594,7 @@ export default function GeneralFundDatabase({
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-10">Compare</TableHead>
                   <TableHead>Fund Name</TableHead>
                   <TableHead>Vintage</TableHead>
                   <TableHead>Type</TableHead>
@@ -482,9 +607,19 @@ export default function GeneralFundDatabase({
               </TableHeader>
               <TableBody>
                 {generalFunds.map((fund) => {
-                  const cashflowCount = generalFundCashflows.filter(cf => cf.fundId === fund.id).length
+                  const fundCashflows = generalFundCashflows.filter(cf => cf.fundId === fund.id)
+                  const cashflowCount = fundCashflows.length
+                  const isQuarterly = fundCashflows.some(cf => cf.quarter)
                   return (
                     <TableRow key={fund.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={comparedFundIds.includes(fund.id)}
+                          onCheckedChange={(checked) => setComparedFundIds(checked
+                            ? [...comparedFundIds, fund.id]
+                            : comparedFundIds.filter(id => id !== fund.id))}
+                        />
+                      </TableCell>
                       <TableCell>
                         <div>
                           <div className="font-medium">{fund.name}</div>
@@ -513,7 +648,7 @@ export default function GeneralFundDatabase({
                           disabled={cashflowCount === 0}
                         >
                           <Eye className="h-4 w-4 mr-1" />
-                          {cashflowCount} years
+                          {cashflowCount} {isQuarterly ? 'quarters' : 'years'}
                         </Button>
                       </TableCell>
                       <TableCell>
@@ -539,6 +674,15 @@ export default function GeneralFundDatabase({
         </CardContent>
       </Card>
 
+      {comparedFundIds.length > 0 && (
+        <FundComparison
+          funds={generalFunds.filter(fund => comparedFundIds.includes(fund.id))}
+          generalFunds={generalFunds}
+          generalFundCashflows={generalFundCashflows}
+          onClear={() => setComparedFundIds([])}
+        />
+      )}
+
       {/* Cashflow Details Dialog */}
       <Dialog open={showCashflows} onOpenChange={setShowCashflows}>
         <DialogContent className="max-w-4xl">
@@ -547,7 +691,7 @@ export default function GeneralFundDatabase({
               {selectedFund?.name} - Net Cashflow Data
             </DialogTitle>
             <DialogDescription>
-              Net cashflow percentages by year (as % of commitment)
+              Net cashflow percentages by year or quarter (as % of commitment)
             </DialogDescription>
           </DialogHeader>
           {selectedFund && (
@@ -580,7 +724,7 @@ export default function GeneralFundDatabase({
                 <TableBody>
                   {getFundCashflows(selectedFund.id).map((cf) => (
                     <TableRow key={cf.id}>
-                      <TableCell className="font-medium">{cf.year}</TableCell>
+                      <TableCell className="font-medium">{cf.quarter ? `${cf.year} Q${cf.quarter}` : cf.year}</TableCell>
                       <TableCell className={`text-right font-medium ${
                         cf.netCashflowPercentage >= 0 ? 'text-green-600' : 'text-red-600'
                       }`}>
@@ -0,0 +1,235 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { ArrowRightLeft, Play } from 'lucide-react'
+import {
+  Cashflow, Client, ClientFundPosition, Fund, FundTypeExpectation, GeneralFund, GeneralFundNetCashflow, Portfolio,
+  PortfolioPosition
+} from '../types'
+import { NewGeneralFundEntry, NewPortfolioEntry } from '../hooks/useDataStore'
+import { LegacyCashflowTotals, LegacyMigrationStatus, planLegacyMigration } from '../lib/legacyMigration'
+import { useToast } from '../hooks/use-toast'
+
+interface LegacyMigrationProps {
+  funds: Fund[]
+  cashflows: Cashflow[]
+  clients: Client[]
+  clientPositions: ClientFundPosition[]
+  generalFunds: GeneralFund[]
+  generalFundCashflows: GeneralFundNetCashflow[]
+  portfolios: Portfolio[]
+  portfolioPositions: PortfolioPosition[]
+  library: FundTypeExpectation[]
+  onAddGeneralFunds: (entries: NewGeneralFundEntry[]) => GeneralFund[]
+  onAddPortfolios: (entries: NewPortfolioEntry[]) => Portfolio[]
+}
+
+const statusStyles: Record<LegacyMigrationStatus, string> = {
+  new: 'bg-blue-100 text-blue-800',
+  migrated: 'bg-green-100 text-green-800',
+  skipped: 'bg-yellow-100 text-yellow-800'
+}
+
+const statusLabels: Record<LegacyMigrationStatus, string> = {
+  new: 'To migrate',
+  migrated: 'Migrated',
+  skipped: 'Skipped'
+}
+
+// Differences below a dollar are rounding in the percentage conversion
+const TOLERANCE = 1
+
+export default function LegacyMigration({
+  funds,
+  cashflows,
+  clients,
+  clientPositions,
+  generalFunds,
+  generalFundCashflows,
+  portfolios,
+  portfolioPositions,
+  library,
+  onAddGeneralFunds,
+  onAddPortfolios
+}: LegacyMigrationProps) {
+  const { toast } = useToast()
+
+  const plan = planLegacyMigration(
+    funds, cashflows, clients, clientPositions, generalFunds, generalFundCashflows, portfolios, portfolioPositions, library
+  )
+  const pendingCount = plan.fundEntries.length + plan.portfolioEntries.length
+
+  const formatCurrency = (amount: number) => {
+    if (Math.abs(amount) >= 1000000000) {
+      return `${(amount / 1000000000).toFixed(1)}B`
+    }
+    if (Math.abs(amount) >= 1000000) {
+      return `${(amount / 1000000).toFixed(1)}M`
+    }
+    return `${(amount / 1000).toFixed(0)}K`
+  }
+
+  const renderDifference = (before: number, after?: number) => {
+    if (after === undefined) return <span className="text-muted-foreground">N/A</span>
+    const difference = after - before
+    return Math.abs(difference) < TOLERANCE
+      ? <span className="text-green-600">Reconciled</span>
+      : <span className="text-red-600">{difference > 0 ? '+' : '-'}${formatCurrency(Math.abs(difference))}</span>
+  }
+
+  const renderTotals = (totals?: LegacyCashflowTotals) => totals ? (
+    <div className="text-sm">
+      <div>Calls ${formatCurrency(totals.calls)}</div>
+      <div>Dist. ${formatCurrency(totals.distributions)}</div>
+      <div>NAV ${formatCurrency(totals.nav)}</div>
+    </div>
+  ) : <span className="text-muted-foreground">N/A</span>
+
+  const handleMigrate = () => {
+    const newFunds = onAddGeneralFunds(plan.fundEntries)
+
+    // Legacy fund ids resolve to the general funds just created or migrated by an earlier run
+    const generalFundIds = new Map<string, string>()
+    ;[...generalFunds, ...newFunds].forEach(fund => {
+      if (fund.legacyFundId) generalFundIds.set(fund.legacyFundId, fund.id)
+    })
+    const newPortfolios = onAddPortfolios(plan.portfolioEntries.map(entry => ({
+      ...entry,
+      positions: entry.positions
+        .filter(pos => generalFundIds.has(pos.fundId))
+        .map(pos => ({ ...pos, fundId: generalFundIds.get(pos.fundId)! }))
+    })))
+
+    toast({
+      title: "Migration Complete",
+      description: `Created ${newFunds.length} general funds and ${newPortfolios.length} portfolios. Legacy data is unchanged.`
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ArrowRightLeft className="h-5 w-5" />
+                Migrate Legacy Data
+              </CardTitle>
+              <CardDescription>
+                Converts each legacy fund's dollar cashflows into a quarterly curve as % of its commitment in the general
+                fund database, and each client's current and target positions into portfolios. Legacy records are kept;
+                anything already migrated is not created again.
+              </CardDescription>
+            </div>
+            <Button onClick={handleMigrate} disabled={pendingCount === 0}>
+              <Play className="h-4 w-4 mr-2" />
+              {pendingCount === 0 ? 'Nothing to Migrate' : `Migrate ${plan.fundEntries.length} Funds, ${plan.portfolioEntries.length} Portfolios`}
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Fund Reconciliation</CardTitle>
+          <CardDescription>Legacy totals against the migrated curve scaled back by the fund's commitment</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fund</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Before</TableHead>
+                <TableHead>After</TableHead>
+                <TableHead className="text-right">Calls</TableHead>
+                <TableHead className="text-right">Distributions</TableHead>
+                <TableHead className="text-right">NAV</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.funds.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">No legacy funds</TableCell>
+                </TableRow>
+              ) : (
+                plan.funds.map(fund => (
+                  <TableRow key={fund.legacyFundId}>
+                    <TableCell>
+                      <div className="font-medium">{fund.name}</div>
+                      <div className="text-xs text-muted-foreground">Commitment ${formatCurrency(fund.commitmentAmount)}</div>
+                      {fund.note && <div className="text-xs text-muted-foreground">{fund.note}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={statusStyles[fund.status]} variant="outline">{statusLabels[fund.status]}</Badge>
+                    </TableCell>
+                    <TableCell>{renderTotals(fund.before)}</TableCell>
+                    <TableCell>{renderTotals(fund.after)}</TableCell>
+                    <TableCell className="text-right">{renderDifference(fund.before.calls, fund.after?.calls)}</TableCell>
+                    <TableCell className="text-right">{renderDifference(fund.before.distributions, fund.after?.distributions)}</TableCell>
+                    <TableCell className="text-right">{renderDifference(fund.before.nav, fund.after?.nav)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Client Position Reconciliation</CardTitle>
+          <CardDescription>
+            Each client's current and target positions become one portfolio each. Legacy NAV is shown for reference;
+            portfolios project NAV from the fund curves.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Client</TableHead>
+                <TableHead>Positions</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Legacy Positions</TableHead>
+                <TableHead className="text-right">Legacy Commitment</TableHead>
+                <TableHead className="text-right">Legacy NAV</TableHead>
+                <TableHead className="text-right">Portfolio Positions</TableHead>
+                <TableHead className="text-right">Portfolio Commitment</TableHead>
+                <TableHead className="text-right">Difference</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.portfolios.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-muted-foreground">No legacy client positions</TableCell>
+                </TableRow>
+              ) : (
+                plan.portfolios.map(entry => (
+                  <TableRow key={`${entry.clientId}-${entry.positionType}`}>
+                    <TableCell>
+                      <div className="font-medium">{entry.clientName}</div>
+                      {entry.note && <div className="text-xs text-muted-foreground">{entry.note}</div>}
+                    </TableCell>
+                    <TableCell className="capitalize">{entry.positionType}</TableCell>
+                    <TableCell>
+                      <Badge className={statusStyles[entry.status]} variant="outline">{statusLabels[entry.status]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{entry.before.positions}</TableCell>
+                    <TableCell className="text-right">${formatCurrency(entry.before.commitment)}</TableCell>
+                    <TableCell className="text-right">${formatCurrency(entry.before.nav)}</TableCell>
+                    <TableCell className="text-right">{entry.after.positions}</TableCell>
+                    <TableCell className="text-right">${formatCurrency(entry.after.commitment)}</TableCell>
+                    <TableCell className="text-right">{renderDifference(entry.before.commitment, entry.after.commitment)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
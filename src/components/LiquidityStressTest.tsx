@@ -0,0 +1,179 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Badge } from './ui/badge'
+import { ShieldAlert, ShieldCheck } from 'lucide-react'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { liquidityStressScenarios } from '../data/fundExpectations'
+import { LiquidityProjection, runLiquidityStressTest } from '../lib/liquidityStress'
+
+interface LiquidityStressTestProps {
+  projection: LiquidityProjection
+  startYear: number
+  defaultLiquidAssets: number
+}
+
+export default function LiquidityStressTest({ projection, startYear, defaultLiquidAssets }: LiquidityStressTestProps) {
+  const [liquidAssets, setLiquidAssets] = useState(defaultLiquidAssets)
+  const [annualInflows, setAnnualInflows] = useState(0)
+  const [horizonYears, setHorizonYears] = useState(10)
+  const [scenarioId, setScenarioId] = useState('gfc-2008')
+
+  const scenario = liquidityStressScenarios.find(s => s.id === scenarioId) || liquidityStressScenarios[0]
+  const result = runLiquidityStressTest(projection, { liquidAssets, annualInflows, startYear, horizonYears, scenario })
+
+  const formatCurrency = (amount: number) => {
+    if (Math.abs(amount) >= 1000000000) {
+      return `${(amount / 1000000000).toFixed(1)}B`
+    }
+    if (Math.abs(amount) >= 1000000) {
+      return `${(amount / 1000000).toFixed(0)}M`
+    }
+    return `${(amount / 1000).toFixed(0)}K`
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              {result.firstShortfallYear ? (
+                <ShieldAlert className="h-5 w-5 text-red-600" />
+              ) : (
+                <ShieldCheck className="h-5 w-5 text-green-600" />
+              )}
+              Liquidity Stress Test
+            </CardTitle>
+            <CardDescription>
+              ${formatCurrency(projection.unfundedCommitments)} unfunded commitments against liquid resources
+            </CardDescription>
+          </div>
+          {result.firstShortfallYear ? (
+            <Badge variant="destructive">Calls cannot be funded from {result.firstShortfallYear}</Badge>
+          ) : (
+            <Badge variant="secondary">Calls covered over {horizonYears} years</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor="liquidAssets">Liquid Assets</Label>
+            <Input
+              id="liquidAssets"
+              type="number"
+              min="0"
+              value={liquidAssets}
+              onChange={(e) => setLiquidAssets(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="annualInflows">Other Inflows per Year</Label>
+            <Input
+              id="annualInflows"
+              type="number"
+              value={annualInflows}
+              onChange={(e) => setAnnualInflows(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="stressScenario">Stress Scenario</Label>
+            <Select value={scenarioId} onValueChange={setScenarioId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {liquidityStressScenarios.map(s => (
+                  <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="stressHorizon">Horizon (years)</Label>
+            <Input
+              id="stressHorizon"
+              type="number"
+              min="1"
+              max="30"
+              value={horizonYears}
+              onChange={(e) => setHorizonYears(Math.min(parseInt(e.target.value) || 0, 30))}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">{scenario.description}</p>
+
+        <div className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={result.years}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="year" />
+              <YAxis yAxisId="amount" tickFormatter={(value) => formatCurrency(value)} />
+              <YAxis yAxisId="ratio" orientation="right" tickFormatter={(value) => `${value.toFixed(1)}x`} />
+              <Tooltip
+                formatter={(value: number, name: string) => name === 'Coverage Ratio'
+                  ? `${value.toFixed(2)}x`
+                  : `$${formatCurrency(value)}`}
+              />
+              <Legend />
+              <ReferenceLine yAxisId="amount" y={0} stroke="#666" strokeDasharray="2 2" />
+              <ReferenceLine yAxisId="ratio" y={1} stroke="#ef4444" strokeDasharray="5 5" />
+              <Bar yAxisId="amount" dataKey="calls" fill="#ef4444" name="Calls" />
+              <Bar yAxisId="amount" dataKey="distributions" fill="#22c55e" name="Distributions" />
+              <Line yAxisId="amount" type="monotone" dataKey="closingLiquidity" stroke="#3b82f6" strokeWidth={3} name="Closing Liquidity" />
+              <Line yAxisId="ratio" type="monotone" dataKey="coverageRatio" stroke="#8b5cf6" strokeWidth={2} name="Coverage Ratio" connectNulls />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Year</TableHead>
+                <TableHead className="text-right">Opening Liquidity</TableHead>
+                <TableHead className="text-right">Calls</TableHead>
+                <TableHead className="text-right">Distributions</TableHead>
+                <TableHead className="text-right">Other Inflows</TableHead>
+                <TableHead className="text-right">Closing Liquidity</TableHead>
+                <TableHead className="text-right">Unfunded</TableHead>
+                <TableHead className="text-right">Coverage</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.years.map(year => (
+                <TableRow key={year.year} className={year.year === result.firstShortfallYear ? 'bg-red-50' : undefined}>
+                  <TableCell className="font-medium">
+                    {year.year}
+                    {year.year - startYear < scenario.durationYears && (
+                      <Badge variant="outline" className="ml-2">Stress</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">${formatCurrency(year.openingLiquidity)}</TableCell>
+                  <TableCell className="text-right text-red-600">${formatCurrency(year.calls)}</TableCell>
+                  <TableCell className="text-right text-green-600">${formatCurrency(year.distributions)}</TableCell>
+                  <TableCell className="text-right">${formatCurrency(year.otherInflows)}</TableCell>
+                  <TableCell className={`text-right font-medium ${year.closingLiquidity < 0 ? 'text-red-600' : ''}`}>
+                    ${formatCurrency(year.closingLiquidity)}
+                  </TableCell>
+                  <TableCell className="text-right">${formatCurrency(year.unfundedCommitments)}</TableCell>
+                  <TableCell className="text-right">
+                    {year.coverageRatio !== undefined ? (
+                      <span className={year.coverageRatio < 1 ? 'text-red-600 font-medium' : ''}>
+                        {year.coverageRatio.toFixed(2)}x
+                      </span>
+                    ) : 'N/A'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
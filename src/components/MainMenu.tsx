@@ -4,6 +4,7 @@ import { Button } from './ui/button'
 import { Users, Database, ArrowLeft, Building2, Target } from 'lucide-react'
 import ClientDashboard from './ClientDashboard'
 import DatabaseManagement from './DatabaseManagement'
+import SyncStatusAlert from './SyncStatusAlert'
 
 type ViewType = 'menu' | 'clients' | 'database'
 
@@ -41,6 +42,7 @@ export default function MainMenu() {
           </div>
         </div>
       </div>
+      <SyncStatusAlert />
     </div>
   )
 
@@ -0,0 +1,297 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Badge } from './ui/badge'
+import { Dices, AlertTriangle } from 'lucide-react'
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { MonteCarloConfig, MonteCarloResult } from '../types'
+import { SimulationPosition, defaultMonteCarloConfig, runMonteCarloSimulation } from '../lib/monteCarlo'
+
+interface MonteCarloSimulationProps {
+  positions: SimulationPosition[]
+  totalCommitment: number
+}
+
+type SimulationMetric = 'netCashflow' | 'cumulativeNet' | 'nav'
+
+const metricLabels: Record<SimulationMetric, string> = {
+  netCashflow: 'Annual Net Cashflow',
+  cumulativeNet: 'Cumulative Net Cashflow',
+  nav: 'Portfolio NAV'
+}
+
+export default function MonteCarloSimulation({ positions, totalCommitment }: MonteCarloSimulationProps) {
+  const [config, setConfig] = useState<MonteCarloConfig>({
+    ...defaultMonteCarloConfig,
+    liquidityLimit: totalCommitment * 0.5
+  })
+  const [result, setResult] = useState<MonteCarloResult | null>(null)
+  const [metric, setMetric] = useState<SimulationMetric>('cumulativeNet')
+
+  const handleRun = () => {
+    setResult(runMonteCarloSimulation(positions, { ...config, paths: Math.min(config.paths, 20000) }))
+  }
+
+  const chartData = result?.years.map(year => ({
+    year: year.year,
+    band: [year[metric].p5, year[metric].p95],
+    p50: year[metric].p50
+  })) || []
+
+  const formatCurrency = (amount: number) => {
+    if (Math.abs(amount) >= 1000000000) {
+      return `${(amount / 1000000000).toFixed(1)}B`
+    }
+    if (Math.abs(amount) >= 1000000) {
+      return `${(amount / 1000000).toFixed(0)}M`
+    }
+    return `${(amount / 1000).toFixed(0)}K`
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Simulation Settings */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Dices className="h-5 w-5" />
+            Monte Carlo Simulation
+          </CardTitle>
+          <CardDescription>
+            Randomise call timing, distribution timing and fund multiples to see the range of portfolio cashflows
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="mcPaths">Paths</Label>
+              <Input
+                id="mcPaths"
+                type="number"
+                min="100"
+                max="20000"
+                step="100"
+                value={config.paths}
+                onChange={(e) => setConfig({...config, paths: parseInt(e.target.value) || 0})}
+              />
+            </div>
+            <div>
+              <Label htmlFor="mcCallTiming">Call Timing Std Dev (years)</Label>
+              <Input
+                id="mcCallTiming"
+                type="number"
+                min="0"
+                step="0.25"
+                value={config.callTimingStdDev}
+                onChange={(e) => setConfig({...config, callTimingStdDev: parseFloat(e.target.value) || 0})}
+              />
+            </div>
+            <div>
+              <Label htmlFor="mcDistributionTiming">Distribution Timing Std Dev (years)</Label>
+              <Input
+                id="mcDistributionTiming"
+                type="number"
+                min="0"
+                step="0.25"
+                value={config.distributionTimingStdDev}
+                onChange={(e) => setConfig({...config, distributionTimingStdDev: parseFloat(e.target.value) || 0})}
+              />
+            </div>
+            <div>
+              <Label htmlFor="mcSeed">Random Seed</Label>
+              <Input
+                id="mcSeed"
+                type="number"
+                value={config.seed}
+                onChange={(e) => setConfig({...config, seed: parseInt(e.target.value) || 0})}
+              />
+            </div>
+            <div>
+              <Label htmlFor="mcMultipleDistribution">Multiple Distribution</Label>
+              <Select
+                value={config.multipleDistribution}
+                onValueChange={(value: 'normal' | 'lognormal') => setConfig({...config, multipleDistribution: value})}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lognormal">Lognormal</SelectItem>
+                  <SelectItem value="normal">Normal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="mcMultipleVolatility">Multiple Volatility (%)</Label>
+              <Input
+                id="mcMultipleVolatility"
+                type="number"
+                min="0"
+                step="5"
+                value={config.multipleVolatility}
+                onChange={(e) => setConfig({...config, multipleVolatility: parseFloat(e.target.value) || 0})}
+              />
+            </div>
+            <div>
+              <Label htmlFor="mcCorrelation">Fund Type Correlation (0-1)</Label>
+              <Input
+                id="mcCorrelation"
+                type="number"
+                min="0"
+                max="1"
+                step="0.1"
+                value={config.fundTypeCorrelation}
+                onChange={(e) => setConfig({...config, fundTypeCorrelation: parseFloat(e.target.value) || 0})}
+              />
+            </div>
+            <div>
+              <Label htmlFor="mcLiquidityLimit">Liquidity Limit (max cumulative outflow)</Label>
+              <Input
+                id="mcLiquidityLimit"
+                type="number"
+                min="0"
+                value={config.liquidityLimit}
+                onChange={(e) => setConfig({...config, liquidityLimit: parseFloat(e.target.value) || 0})}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleRun} disabled={positions.length === 0}>
+              <Dices className="h-4 w-4 mr-2" />
+              Run Simulation
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {!result ? (
+        <Card>
+          <CardContent className="text-center py-8">
+            <Dices className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="text-muted-foreground">
+              {positions.length === 0
+                ? 'Add positions with cashflow data to run a simulation'
+                : 'Run the simulation to see P5 / P50 / P95 cashflow bands'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Liquidity Breach Probability */}
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <AlertTriangle className={`h-8 w-8 ${result.breachProbability > 5 ? 'text-red-600' : 'text-green-600'}`} />
+                  <div>
+                    <div className="text-sm text-muted-foreground">Probability of breaching liquidity limit</div>
+                    <div className="text-2xl font-bold">{result.breachProbability.toFixed(1)}%</div>
+                  </div>
+                </div>
+                <div className="text-right text-sm text-muted-foreground">
+                  <div>Cumulative outflow beyond ${formatCurrency(config.liquidityLimit)}</div>
+                  <div>{result.paths.toLocaleString()} simulated paths</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Percentile Bands Chart */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>{metricLabels[metric]}</CardTitle>
+                  <CardDescription>Median path with the 5th to 95th percentile band</CardDescription>
+                </div>
+                <Select value={metric} onValueChange={(value: SimulationMetric) => setMetric(value)}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(metricLabels) as SimulationMetric[]).map(key => (
+                      <SelectItem key={key} value={key}>{metricLabels[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="h-96">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="year" />
+                    <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                    <Tooltip
+                      formatter={(value: number | number[]) => Array.isArray(value)
+                        ? `$${formatCurrency(value[0])} to $${formatCurrency(value[1])}`
+                        : `$${formatCurrency(value)}`}
+                    />
+                    <Legend />
+                    <ReferenceLine y={0} stroke="#666" strokeDasharray="2 2" />
+                    {metric === 'cumulativeNet' && (
+                      <ReferenceLine y={-config.liquidityLimit} stroke="#ef4444" strokeDasharray="5 5" label="Liquidity Limit" />
+                    )}
+                    <Area type="monotone" dataKey="band" stroke="none" fill="#3b82f6" fillOpacity={0.2} name="P5 - P95" />
+                    <Line type="monotone" dataKey="p50" stroke="#1d4ed8" strokeWidth={3} name="P50" />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Percentile Table */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Percentiles by Year</CardTitle>
+              <CardDescription>P5 / P50 / P95 for net cashflow, cumulative net and NAV</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Year</TableHead>
+                      <TableHead className="text-right">Net P5</TableHead>
+                      <TableHead className="text-right">Net P50</TableHead>
+                      <TableHead className="text-right">Net P95</TableHead>
+                      <TableHead className="text-right">Cumulative P5</TableHead>
+                      <TableHead className="text-right">Cumulative P50</TableHead>
+                      <TableHead className="text-right">Cumulative P95</TableHead>
+                      <TableHead className="text-right">NAV P50</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.years.map(year => (
+                      <TableRow key={year.year}>
+                        <TableCell className="font-medium">{year.year}</TableCell>
+                        <TableCell className="text-right">${formatCurrency(year.netCashflow.p5)}</TableCell>
+                        <TableCell className="text-right font-medium">${formatCurrency(year.netCashflow.p50)}</TableCell>
+                        <TableCell className="text-right">${formatCurrency(year.netCashflow.p95)}</TableCell>
+                        <TableCell className="text-right">
+                          {year.cumulativeNet.p5 < -config.liquidityLimit ? (
+                            <Badge variant="destructive">${formatCurrency(year.cumulativeNet.p5)}</Badge>
+                          ) : (
+                            `$${formatCurrency(year.cumulativeNet.p5)}`
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">${formatCurrency(year.cumulativeNet.p50)}</TableCell>
+                        <TableCell className="text-right">${formatCurrency(year.cumulativeNet.p95)}</TableCell>
+                        <TableCell className="text-right">${formatCurrency(year.nav.p50)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
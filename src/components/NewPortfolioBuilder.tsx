@@ -8,10 +8,37 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '.
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
 import { Badge } from './ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
-import { Plus, Trash2, Target, BarChart3, TrendingUp, TrendingDown, Calculator } from 'lucide-react'
-import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts'
-import { GeneralFund, GeneralFundNetCashflow, Portfolio, PortfolioPosition, WaterfallChartData, PortfolioAnalysis, Client } from '../types'
+import { Alert, AlertDescription } from './ui/alert'
+import {
+  Plus, Trash2, Target, BarChart3, TrendingUp, TrendingDown, Calculator, CalendarRange, Dices, ShieldAlert, Copy, Crosshair, Edit, Check, X, Scale, AlertTriangle
+} from 'lucide-react'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts'
+import {
+  GeneralFund, GeneralFundNetCashflow, Portfolio, PortfolioPosition, WaterfallChartData, PortfolioAnalysis, Client,
+  CashflowGranularity, QuarterlySpreadRuleId, PortfolioScenario, PortfolioComparisonEntry, CashflowBasis,
+  FundTypeExpectation
+} from '../types'
 import { useToast } from '../hooks/use-toast'
+import {
+  getFundTypeCurves, getFundTypeExpectationById, getProjectionModel, quarterlySpreadRules, resolveFundType
+} from '../data/fundExpectations'
+import { getPeerStatisticLabel } from '../lib/peerCurves'
+import { aggregateCalendarCashflows, getCommitmentStart } from '../lib/calendarAlignment'
+import { getPositionCalendarCashflows, getPositionNetCashflows } from '../lib/portfolioCashflows'
+import { carryWaterfallTypes, getFundFeeRates, getFundFeeTerms } from '../lib/feeEngine'
+import { buildAllocationHoldings, checkAllocationTargets, getAllocationBreaches } from '../lib/allocationTargets'
+import {
+  getAllocationPercentage, getCommitmentAmount, getOverCommitment, rebalancePositions, recalculateAllocations
+} from '../lib/positionSizing'
+import { SimulationPosition } from '../lib/monteCarlo'
+import { buildPortfolioLiquidityProjection } from '../lib/liquidityStress'
+import CommitmentPacingPlanner from './CommitmentPacingPlanner'
+import MonteCarloSimulation from './MonteCarloSimulation'
+import LiquidityStressTest from './LiquidityStressTest'
+import PortfolioComparison from './PortfolioComparison'
+import AllocationTargets from './AllocationTargets'
+
+const scenarioColors = ['#8b5cf6', '#ef4444', '#22c55e', '#3b82f6', '#f97316', '#eab308']
 
 interface NewPortfolioBuilderProps {
   generalFunds: GeneralFund[]
@@ -20,9 +47,14 @@ interface NewPortfolioBuilderProps {
   portfolioPositions: PortfolioPosition[]
   clients: Client[]
   onCreatePortfolio: (portfolio: Omit<Portfolio, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => void
+  onUpdatePortfolio: (portfolioId: string, updates: Partial<Portfolio>) => void
+  onClonePortfolio: (portfolioId: string, name: string) => Portfolio
   onAddPosition: (position: Omit<PortfolioPosition, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => void
   onRemovePosition: (positionId: string) => void
   onUpdatePosition: (positionId: string, updates: Partial<PortfolioPosition>) => void
+  onUpdatePositions: (updatesById: Record<string, Partial<PortfolioPosition>>) => void
+  scenarios: PortfolioScenario[]
+  library: FundTypeExpectation[]
 }
 
 export default function NewPortfolioBuilder({
@@ -32,13 +64,29 @@ export default function NewPortfolioBuilder({
   portfolioPositions,
   clients,
   onCreatePortfolio,
+  onUpdatePortfolio,
+  onClonePortfolio,
   onAddPosition,
   onRemovePosition,
-  onUpdatePosition
+  onUpdatePosition,
+  onUpdatePositions,
+  scenarios,
+  library
 }: NewPortfolioBuilderProps) {
   const [selectedPortfolio, setSelectedPortfolio] = useState<string>('')
   const [showCreatePortfolio, setShowCreatePortfolio] = useState(false)
   const [showAddPosition, setShowAddPosition] = useState(false)
+  const [granularity, setGranularity] = useState<CashflowGranularity>('annual')
+  const [spreadRule, setSpreadRule] = useState<QuarterlySpreadRuleId>('even')
+  const [scenarioId, setScenarioId] = useState('neutral')
+  const [cashflowBasis, setCashflowBasis] = useState<CashflowBasis>('gross')
+  const [comparedScenarioIds, setComparedScenarioIds] = useState<string[]>([])
+  const [comparedPortfolioIds, setComparedPortfolioIds] = useState<string[]>([])
+  const [showClonePortfolio, setShowClonePortfolio] = useState(false)
+  const [cloneName, setCloneName] = useState('')
+  // Inline edit of one position; amounts are kept as typed and recalculated both ways
+  const [editingPosition, setEditingPosition] = useState<{ id: string; commitmentAmount: string; allocationPercentage: string } | null>(null)
+  const [totalSizeDraft, setTotalSizeDraft] = useState<string | null>(null)
   const { toast } = useToast()
 
   // Portfolio creation form
@@ -53,7 +101,9 @@ export default function NewPortfolioBuilder({
   const [positionForm, setPositionForm] = useState({
     fundId: '',
     commitmentAmount: 0,
-    allocationPercentage: 0
+    allocationPercentage: 0,
+    commitmentDate: new Date().toISOString().split('T')[0],
+    expectationId: ''
   })
 
   const handleCreatePortfolio = () => {
@@ -87,6 +137,97 @@ export default function NewPortfolioBuilder({
     })
   }
 
+  const startEditingPosition = (position: PortfolioPosition) => {
+    setEditingPosition({
+      id: position.id,
+      commitmentAmount: String(position.commitmentAmount),
+      allocationPercentage: position.allocationPercentage.toFixed(2)
+    })
+  }
+
+  // Typing either field recalculates the other from the portfolio size
+  const updateEditingPosition = (field: 'commitmentAmount' | 'allocationPercentage', value: string) => {
+    if (!editingPosition || !selectedPortfolioInfo) return
+    const amount = parseFloat(value)
+    if (isNaN(amount)) {
+      setEditingPosition({ ...editingPosition, [field]: value })
+      return
+    }
+    setEditingPosition(field === 'commitmentAmount'
+      ? { ...editingPosition, commitmentAmount: value, allocationPercentage: getAllocationPercentage(amount, selectedPortfolioInfo.totalSize).toFixed(2) }
+      : { ...editingPosition, allocationPercentage: value, commitmentAmount: String(Math.round(getCommitmentAmount(amount, selectedPortfolioInfo.totalSize))) })
+  }
+
+  const handleSavePosition = () => {
+    if (!editingPosition || !selectedPortfolioInfo) return
+    const commitmentAmount = parseFloat(editingPosition.commitmentAmount)
+    if (isNaN(commitmentAmount) || commitmentAmount <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter a valid commitment amount.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    onUpdatePosition(editingPosition.id, {
+      commitmentAmount,
+      allocationPercentage: getAllocationPercentage(commitmentAmount, selectedPortfolioInfo.totalSize)
+    })
+    setEditingPosition(null)
+  }
+
+  // A new portfolio size recomputes every position's allocation; commitments are unchanged
+  const handleSaveTotalSize = () => {
+    if (totalSizeDraft === null || !selectedPortfolioInfo) return
+    const totalSize = parseFloat(totalSizeDraft)
+    if (isNaN(totalSize) || totalSize <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter a valid portfolio size.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    onUpdatePortfolio(selectedPortfolioInfo.id, { totalSize })
+    onUpdatePositions(recalculateAllocations(currentPositions, totalSize))
+    setTotalSizeDraft(null)
+  }
+
+  const handleRebalance = () => {
+    if (!selectedPortfolioInfo) return
+    onUpdatePositions(rebalancePositions(currentPositions, selectedPortfolioInfo.totalSize))
+    setEditingPosition(null)
+    toast({
+      title: "Portfolio Rebalanced",
+      description: `Commitments were scaled to add up to $${formatCurrency(selectedPortfolioInfo.totalSize)}, keeping their relative weights.`
+    })
+  }
+
+  const handleClonePortfolio = () => {
+    const name = cloneName.trim()
+    if (!selectedPortfolio || !name) {
+      toast({
+        title: "Validation Error",
+        description: "Please provide a name for the copy.",
+        variant: "destructive"
+      })
+      return
+    }
+
+    const clone = onClonePortfolio(selectedPortfolio, name)
+    // Compare the proposal against the portfolio it was copied from
+    setComparedPortfolioIds([selectedPortfolio, clone.id])
+    setSelectedPortfolio(clone.id)
+    setShowClonePortfolio(false)
+
+    toast({
+      title: "Portfolio Cloned",
+      description: `${name} was created with ${currentPositions.length} positions. Edit it as a proposal.`
+    })
+  }
+
   const handleAddPosition = () => {
     if (!selectedPortfolio || !positionForm.fundId || positionForm.commitmentAmount <= 0) {
       toast({
@@ -98,19 +239,23 @@ export default function NewPortfolioBuilder({
     }
 
     const portfolio = portfolios.find(p => p.id === selectedPortfolio)!
-    const allocationPercentage = (positionForm.commitmentAmount / portfolio.totalSize) * 100
+    const allocationPercentage = getAllocationPercentage(positionForm.commitmentAmount, portfolio.totalSize)
 
     onAddPosition({
       portfolioId: selectedPortfolio,
       fundId: positionForm.fundId,
       commitmentAmount: positionForm.commitmentAmount,
-      allocationPercentage
+      allocationPercentage,
+      commitmentDate: positionForm.commitmentDate || undefined,
+      expectationId: positionForm.expectationId || undefined
     })
 
     setPositionForm({
       fundId: '',
       commitmentAmount: 0,
-      allocationPercentage: 0
+      allocationPercentage: 0,
+      commitmentDate: new Date().toISOString().split('T')[0],
+      expectationId: ''
     })
     setShowAddPosition(false)
 
@@ -121,50 +266,43 @@ export default function NewPortfolioBuilder({
     })
   }
 
+  // Library curves (e.g. peer curves) that can be applied to a fund: every curve of its fund type
+  const getExpectationOptions = (fund?: GeneralFund) => {
+    if (!fund) return []
+    return getFundTypeCurves(library, resolveFundType(library, fund.fundType) || fund.fundType)
+  }
+
+  const getExpectationLabel = (expectationId: string) => {
+    const expectation = getFundTypeExpectationById(library, expectationId)
+    if (!expectation) return 'Missing library curve'
+    const name = `${expectation.fundType} / ${expectation.strategy || 'Default'}`
+    return expectation.peerGroup
+      ? `${name} (peer ${getPeerStatisticLabel(expectation.peerGroup.statistic).toLowerCase()}, ${expectation.peerGroup.fundCount} funds)`
+      : name
+  }
+
+  const currentScenario = scenarios.find(s => s.id === scenarioId) || scenarios[0]
+
+  // Quarterly cashflows for each position under a scenario, placed on the calendar from its commitment
+  // date, gross or net of fees and carry. Annual curves are spread over quarters by the selected rule.
+  const getCalendarCashflows = (position: PortfolioPosition, scenario: PortfolioScenario = currentScenario) =>
+    cashflowBasis === 'net'
+      ? getPositionNetCashflows(position, generalFunds, generalFundCashflows, library, scenario, spreadRule)
+      : getPositionCalendarCashflows(position, generalFunds, generalFundCashflows, library, scenario, spreadRule)
+
   // Calculate portfolio analysis with waterfall data
-  const getPortfolioAnalysis = (portfolioId: string): PortfolioAnalysis | null => {
+  const getPortfolioAnalysis = (portfolioId: string, scenario: PortfolioScenario = currentScenario): PortfolioAnalysis | null => {
     const portfolio = portfolios.find(p => p.id === portfolioId)
     if (!portfolio) return null
 
     const positions = portfolioPositions.filter(p => p.portfolioId === portfolioId)
     if (positions.length === 0) return null
 
-    // Calculate waterfall data
-    const allYears = new Set<number>()
-    positions.forEach(position => {
-      const fundCashflows = generalFundCashflows.filter(cf => cf.fundId === position.fundId)
-      fundCashflows.forEach(cf => allYears.add(cf.year))
-    })
-
-    const waterfallData: WaterfallChartData[] = Array.from(allYears).sort().map(year => {
-      let totalContributions = 0
-      let totalDistributions = 0
-
-      positions.forEach(position => {
-        const yearCashflow = generalFundCashflows.find(cf => 
-          cf.fundId === position.fundId && cf.year === year
-        )
-        if (yearCashflow) {
-          totalContributions += position.commitmentAmount * yearCashflow.contributionsPercentage
-          totalDistributions += position.commitmentAmount * yearCashflow.distributionsPercentage
-        }
-      })
-
-      return {
-        year,
-        contributions: totalContributions, // Already negative from data
-        distributions: totalDistributions, // Already positive from data
-        netCashflow: totalContributions + totalDistributions,
-        cumulativeNet: 0 // Will be calculated below
-      }
-    })
-
-    // Calculate cumulative net cashflow
-    let cumulativeNet = 0
-    waterfallData.forEach(data => {
-      cumulativeNet += data.netCashflow
-      data.cumulativeNet = cumulativeNet
-    })
+    // Place each position's relative-year curve on the calendar from its commitment date, then aggregate
+    const calendarCashflows = positions.flatMap(position => getCalendarCashflows(position, scenario))
+    const waterfallData: WaterfallChartData[] = aggregateCalendarCashflows(calendarCashflows, granularity)
+    if (waterfallData.length === 0) return null
+    const cumulativeNet = waterfallData[waterfallData.length - 1].cumulativeNet
 
     // Find key metrics
     const peakOutflow = waterfallData.reduce((min, current) => 
@@ -173,15 +311,20 @@ export default function NewPortfolioBuilder({
     const peakInflow = waterfallData.reduce((max, current) => 
       current.netCashflow > max.netCashflow ? current : max
     )
-    const breakEvenYear = waterfallData.find(data => data.cumulativeNet >= 0)?.year
+    // Break-even is when the cumulative net is back to zero after the first outflow; leading periods
+    // without flows already sit at zero
+    const firstOutflowIndex = waterfallData.findIndex(data => data.cumulativeNet < 0)
+    const breakEvenYear = firstOutflowIndex === -1
+      ? undefined
+      : waterfallData.slice(firstOutflowIndex).find(data => data.cumulativeNet >= 0)?.year
 
     return {
       portfolio,
       positions,
       waterfallData,
       totalCommitment: positions.reduce((sum, pos) => sum + pos.commitmentAmount, 0),
-      peakOutflow: { year: peakOutflow.year, amount: peakOutflow.netCashflow },
-      peakInflow: { year: peakInflow.year, amount: peakInflow.netCashflow },
+      peakOutflow: { year: peakOutflow.year, period: peakOutflow.period, amount: peakOutflow.netCashflow },
+      peakInflow: { year: peakInflow.year, period: peakInflow.period, amount: peakInflow.netCashflow },
       breakEvenYear,
       finalCumulative: cumulativeNet
     }
@@ -198,7 +341,88 @@ export default function NewPortfolioBuilder({
   }
 
   const selectedPortfolioData = selectedPortfolio ? getPortfolioAnalysis(selectedPortfolio) : null
+  const scenarioComparison = selectedPortfolio
+    ? scenarios
+      .filter(s => comparedScenarioIds.includes(s.id))
+      .map(scenario => ({ scenario, analysis: getPortfolioAnalysis(selectedPortfolio, scenario) }))
+    : []
+
+  // Cumulative net per period with a column per compared scenario
+  const scenarioPeriods = Array.from(new Set(scenarioComparison.flatMap(c => c.analysis?.waterfallData.map(d => d.period) || [])))
+    .sort((a, b) => a.localeCompare(b))
+  // (held at its last value once a scenario has no further cashflows)
+  const lastCumulativeNet: Record<string, number> = {}
+  const scenarioChartData = scenarioPeriods.map(period => {
+    const row: Record<string, string | number> = { period }
+    scenarioComparison.forEach(({ scenario, analysis }) => {
+      const data = analysis?.waterfallData.find(d => d.period === period)
+      if (data) lastCumulativeNet[scenario.id] = data.cumulativeNet
+      if (lastCumulativeNet[scenario.id] !== undefined) row[scenario.id] = lastCumulativeNet[scenario.id]
+    })
+    return row
+  })
+  const selectedPortfolioInfo = portfolios.find(p => p.id === selectedPortfolio)
+
+  // Portfolios in the order they were picked for comparison; the first is the baseline
+  const portfolioComparison: PortfolioComparisonEntry[] = comparedPortfolioIds
+    .filter(id => portfolios.some(p => p.id === id))
+    .map(id => ({
+      portfolio: portfolios.find(p => p.id === id)!,
+      positions: portfolioPositions.filter(p => p.portfolioId === id),
+      analysis: getPortfolioAnalysis(id)
+    }))
   const currentPositions = selectedPortfolio ? portfolioPositions.filter(p => p.portfolioId === selectedPortfolio) : []
+  const simulationPositions: SimulationPosition[] = currentPositions.map(position => ({
+    fundType: generalFunds.find(f => f.id === position.fundId)?.fundType || 'Unknown',
+    cashflows: getCalendarCashflows(position)
+  }))
+  // Gross flows against fees, carry and net-to-LP flows per position under the current scenario
+  const feeBreakdown = currentPositions.map(position => {
+    const fund = generalFunds.find(f => f.id === position.fundId)
+    const netCashflows = getPositionNetCashflows(
+      position, generalFunds, generalFundCashflows, library, currentScenario, spreadRule
+    )
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+    const managementFees = sum(netCashflows.map(cf => cf.managementFee))
+    const carriedInterest = sum(netCashflows.map(cf => cf.carriedInterest))
+    const netCalls = -sum(netCashflows.map(cf => cf.contributions))
+    const netDistributions = sum(netCashflows.map(cf => cf.distributions))
+    return {
+      position,
+      fund,
+      grossCalls: netCalls - managementFees,
+      managementFees,
+      grossDistributions: netDistributions + carriedInterest,
+      carriedInterest,
+      netCalls,
+      netDistributions
+    }
+  })
+  const feeTotals = {
+    grossCalls: feeBreakdown.reduce((sum, row) => sum + row.grossCalls, 0),
+    managementFees: feeBreakdown.reduce((sum, row) => sum + row.managementFees, 0),
+    grossDistributions: feeBreakdown.reduce((sum, row) => sum + row.grossDistributions, 0),
+    carriedInterest: feeBreakdown.reduce((sum, row) => sum + row.carriedInterest, 0),
+    netCalls: feeBreakdown.reduce((sum, row) => sum + row.netCalls, 0),
+    netDistributions: feeBreakdown.reduce((sum, row) => sum + row.netDistributions, 0)
+  }
+  const formatMultiple = (distributions: number, calls: number) => calls > 0 ? `${(distributions / calls).toFixed(2)}x` : 'N/A'
+
+  const currentTotalCommitment = currentPositions.reduce((sum, position) => sum + position.commitmentAmount, 0)
+  const overCommitment = selectedPortfolioInfo ? getOverCommitment(currentPositions, selectedPortfolioInfo.totalSize) : 0
+  const currentYear = new Date().getFullYear()
+  const allocationBreaches = selectedPortfolioInfo
+    ? getAllocationBreaches(checkAllocationTargets(
+      selectedPortfolioInfo.allocationTargets || [],
+      buildAllocationHoldings(currentPositions, generalFunds, getCalendarCashflows, currentYear),
+      library
+    ))
+    : []
+  const liquidityProjection = buildPortfolioLiquidityProjection(
+    simulationPositions.flatMap(position => position.cashflows),
+    currentTotalCommitment,
+    currentYear
+  )
 
   // Custom tooltip for waterfall chart
   const CustomTooltip = ({ active, payload, label }: any) => {
@@ -206,7 +430,7 @@ export default function NewPortfolioBuilder({
       const data = payload[0].payload
       return (
         <div className="bg-background border rounded-lg p-3 shadow-lg">
-          <p className="font-medium">Year {label}</p>
+          <p className="font-medium">{granularity === 'annual' ? `Year ${label}` : label}</p>
           <p className="text-red-600">
             Contributions: ${formatCurrency(Math.abs(data.contributions))}
           </p>
@@ -346,12 +570,75 @@ export default function NewPortfolioBuilder({
                 <div className="text-sm text-muted-foreground">
                   Total: ${formatCurrency(selectedPortfolioData.totalCommitment)}
                 </div>
-                <div className="text-sm text-muted-foreground">
+                <div className={`text-sm ${overCommitment > 0 ? 'text-red-600 font-medium' : 'text-muted-foreground'}`}>
                   Allocated: {((selectedPortfolioData.totalCommitment / selectedPortfolioData.portfolio.totalSize) * 100).toFixed(1)}%
                 </div>
+                {allocationBreaches.length > 0 && (
+                  <Badge variant="destructive">
+                    {allocationBreaches.length} allocation {allocationBreaches.length === 1 ? 'breach' : 'breaches'}
+                  </Badge>
+                )}
               </div>
             )}
             
+            {selectedPortfolioInfo && (
+              <Select
+                value={!selectedPortfolioInfo.clientId
+                  ? 'none'
+                  : clients.some(c => c.id === selectedPortfolioInfo.clientId) ? selectedPortfolioInfo.clientId : ''}
+                onValueChange={(value) => onUpdatePortfolio(selectedPortfolioInfo.id, { clientId: value === 'none' ? undefined : value })}
+              >
+                <SelectTrigger className="w-48" title="Client the portfolio belongs to">
+                  <SelectValue placeholder="Archived client" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No client</SelectItem>
+                  {clients.map(client => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {client.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {selectedPortfolioInfo && (
+              <Dialog open={showClonePortfolio} onOpenChange={setShowClonePortfolio}>
+                <DialogTrigger asChild>
+                  <Button variant="outline" size="sm" onClick={() => setCloneName(`${selectedPortfolioInfo.name} (Proposed)`)}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Clone
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Clone Portfolio</DialogTitle>
+                    <DialogDescription>
+                      Copy {selectedPortfolioInfo.name} and its {currentPositions.length} positions as the starting point for a proposal
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div>
+                      <Label htmlFor="cloneName">Portfolio Name *</Label>
+                      <Input
+                        id="cloneName"
+                        value={cloneName}
+                        onChange={(e) => setCloneName(e.target.value)}
+                      />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" onClick={() => setShowClonePortfolio(false)}>
+                        Cancel
+                      </Button>
+                      <Button onClick={handleClonePortfolio}>
+                        Clone Portfolio
+                      </Button>
+                    </div>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            )}
+
             {selectedPortfolio === 'standalone' && (
               <div className="flex items-center gap-4">
                 <Badge variant="outline">
@@ -363,12 +650,40 @@ export default function NewPortfolioBuilder({
               </div>
             )}
           </div>
+
+          {portfolios.length > 1 && (
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              <span className="text-sm text-muted-foreground">Compare:</span>
+              {portfolios.map(portfolio => {
+                const isCompared = comparedPortfolioIds.includes(portfolio.id)
+                return (
+                  <Button
+                    key={portfolio.id}
+                    variant={isCompared ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setComparedPortfolioIds(isCompared
+                      ? comparedPortfolioIds.filter(id => id !== portfolio.id)
+                      : [...comparedPortfolioIds, portfolio.id])}
+                  >
+                    {portfolio.name}
+                  </Button>
+                )
+              })}
+              {portfolioComparison.length === 1 && (
+                <span className="text-sm text-muted-foreground">Select another portfolio to compare against</span>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {portfolioComparison.length > 1 && (
+        <PortfolioComparison entries={portfolioComparison} generalFunds={generalFunds} library={library} />
+      )}
+
       {selectedPortfolio && selectedPortfolio !== 'standalone' && (
         <Tabs defaultValue="analysis" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="analysis" className="flex items-center gap-2">
               <BarChart3 className="h-4 w-4" />
               Net Cashflow Analysis
@@ -377,6 +692,22 @@ export default function NewPortfolioBuilder({
               <Target className="h-4 w-4" />
               Portfolio Positions
             </TabsTrigger>
+            <TabsTrigger value="pacing" className="flex items-center gap-2">
+              <CalendarRange className="h-4 w-4" />
+              Pacing Planner
+            </TabsTrigger>
+            <TabsTrigger value="simulation" className="flex items-center gap-2">
+              <Dices className="h-4 w-4" />
+              Monte Carlo
+            </TabsTrigger>
+            <TabsTrigger value="liquidity" className="flex items-center gap-2">
+              <ShieldAlert className="h-4 w-4" />
+              Liquidity
+            </TabsTrigger>
+            <TabsTrigger value="allocation" className="flex items-center gap-2">
+              <Crosshair className="h-4 w-4" />
+              Allocation
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="analysis" className="space-y-6">
@@ -407,7 +738,7 @@ export default function NewPortfolioBuilder({
                         ${formatCurrency(Math.abs(selectedPortfolioData.peakOutflow.amount))}
                       </div>
                       <p className="text-xs text-muted-foreground">
-                        Year {selectedPortfolioData.peakOutflow.year}
+                        {granularity === 'annual' ? 'Year ' : ''}{selectedPortfolioData.peakOutflow.period}
                       </p>
                     </CardContent>
                   </Card>
@@ -422,7 +753,7 @@ export default function NewPortfolioBuilder({
                         ${formatCurrency(selectedPortfolioData.peakInflow.amount)}
                       </div>
                       <p className="text-xs text-muted-foreground">
-                        Year {selectedPortfolioData.peakInflow.year}
+                        {granularity === 'annual' ? 'Year ' : ''}{selectedPortfolioData.peakInflow.period}
                       </p>
                     </CardContent>
                   </Card>
@@ -446,17 +777,61 @@ export default function NewPortfolioBuilder({
                 {/* Waterfall Chart */}
                 <Card>
                   <CardHeader>
-                    <CardTitle>Net Cashflow Waterfall</CardTitle>
-                    <CardDescription>
-                      Contributions below zero line (red bars), distributions above zero line (green bars), with cumulative net line
-                    </CardDescription>
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <CardTitle>Net Cashflow Waterfall</CardTitle>
+                        <CardDescription>
+                          {granularity === 'annual' ? 'Calendar-year' : 'Calendar-quarter'} contributions below zero line (red bars), distributions above zero line (green bars), with cumulative net line. Each fund's curve starts at its commitment date
+                        </CardDescription>
+                      </div>
+                      <div className="flex gap-2">
+                        <Select value={cashflowBasis} onValueChange={(value: CashflowBasis) => setCashflowBasis(value)}>
+                          <SelectTrigger className="w-32" title="Show cashflows before or after fees and carry">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="gross">Gross</SelectItem>
+                            <SelectItem value="net">Net to LP</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Select value={currentScenario.id} onValueChange={setScenarioId}>
+                          <SelectTrigger className="w-40" title="Scenario applied to every position">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {scenarios.map(scenario => (
+                              <SelectItem key={scenario.id} value={scenario.id}>{scenario.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select value={granularity} onValueChange={(value: CashflowGranularity) => setGranularity(value)}>
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="annual">Annual</SelectItem>
+                            <SelectItem value="quarterly">Quarterly</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Select value={spreadRule} onValueChange={(value: QuarterlySpreadRuleId) => setSpreadRule(value)}>
+                          <SelectTrigger className="w-44" title="How annual curves are spread over quarters">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {quarterlySpreadRules.map(rule => (
+                              <SelectItem key={rule.id} value={rule.id}>{rule.name} spread</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
                   </CardHeader>
                   <CardContent>
                     <div className="h-96">
                       <ResponsiveContainer width="100%" height="100%">
                         <ComposedChart data={selectedPortfolioData.waterfallData}>
                           <CartesianGrid strokeDasharray="3 3" />
-                          <XAxis dataKey="year" />
+                          <XAxis dataKey="period" />
                           <YAxis tickFormatter={(value) => formatCurrency(value)} />
                           <Tooltip content={<CustomTooltip />} />
                           <ReferenceLine y={0} stroke="#666" strokeDasharray="2 2" />
@@ -490,10 +865,168 @@ export default function NewPortfolioBuilder({
                   </CardContent>
                 </Card>
 
+                {/* Fees & Carry */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Fees & Carried Interest</CardTitle>
+                    <CardDescription>
+                      Management fee on commitment during the investment period and on invested capital afterwards, carry
+                      after the hurdle and GP catch-up. Switch the waterfall to Net to LP to project with these flows
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Fund</TableHead>
+                          <TableHead>Terms</TableHead>
+                          <TableHead className="text-right">Gross Calls</TableHead>
+                          <TableHead className="text-right">Mgmt Fees</TableHead>
+                          <TableHead className="text-right">Gross Dist.</TableHead>
+                          <TableHead className="text-right">Carry</TableHead>
+                          <TableHead className="text-right">Net Dist.</TableHead>
+                          <TableHead className="text-right">Gross / Net Multiple</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {feeBreakdown.map(row => {
+                          const rates = row.fund ? getFundFeeRates(row.fund, library) : null
+                          const terms = getFundFeeTerms(row.fund)
+                          return (
+                            <TableRow key={row.position.id}>
+                              <TableCell className="font-medium">{row.fund?.name || 'Unknown Fund'}</TableCell>
+                              <TableCell className="text-sm">
+                                {rates ? (
+                                  <>
+                                    <div>{rates.managementFeeRate}% / {rates.carriedInterestRate}%, {terms.investmentPeriodYears}y investment period</div>
+                                    <div className="text-xs text-muted-foreground">
+                                      {carryWaterfallTypes.find(t => t.id === terms.waterfallType)?.label}, {terms.hurdleRate}% hurdle, {terms.catchUpRate}% catch-up
+                                    </div>
+                                  </>
+                                ) : 'N/A'}
+                              </TableCell>
+                              <TableCell className="text-right">${formatCurrency(row.grossCalls)}</TableCell>
+                              <TableCell className="text-right text-red-600">${formatCurrency(row.managementFees)}</TableCell>
+                              <TableCell className="text-right">${formatCurrency(row.grossDistributions)}</TableCell>
+                              <TableCell className="text-right text-red-600">${formatCurrency(row.carriedInterest)}</TableCell>
+                              <TableCell className="text-right">${formatCurrency(row.netDistributions)}</TableCell>
+                              <TableCell className="text-right">
+                                {formatMultiple(row.grossDistributions, row.grossCalls)} / {formatMultiple(row.netDistributions, row.netCalls)}
+                              </TableCell>
+                            </TableRow>
+                          )
+                        })}
+                        <TableRow className="font-medium">
+                          <TableCell>Total</TableCell>
+                          <TableCell />
+                          <TableCell className="text-right">${formatCurrency(feeTotals.grossCalls)}</TableCell>
+                          <TableCell className="text-right text-red-600">${formatCurrency(feeTotals.managementFees)}</TableCell>
+                          <TableCell className="text-right">${formatCurrency(feeTotals.grossDistributions)}</TableCell>
+                          <TableCell className="text-right text-red-600">${formatCurrency(feeTotals.carriedInterest)}</TableCell>
+                          <TableCell className="text-right">${formatCurrency(feeTotals.netDistributions)}</TableCell>
+                          <TableCell className="text-right">
+                            {formatMultiple(feeTotals.grossDistributions, feeTotals.grossCalls)} / {formatMultiple(feeTotals.netDistributions, feeTotals.netCalls)}
+                          </TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+
+                {/* Scenario Comparison */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Scenario Comparison</CardTitle>
+                    <CardDescription>
+                      The portfolio's cumulative net cashflow and key figures under each selected scenario, side by side
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex flex-wrap gap-2">
+                      {scenarios.map(scenario => {
+                        const isCompared = comparedScenarioIds.includes(scenario.id)
+                        return (
+                          <Button
+                            key={scenario.id}
+                            variant={isCompared ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setComparedScenarioIds(isCompared
+                              ? comparedScenarioIds.filter(id => id !== scenario.id)
+                              : [...comparedScenarioIds, scenario.id])}
+                          >
+                            {scenario.name}
+                          </Button>
+                        )
+                      })}
+                    </div>
+
+                    {scenarioComparison.length > 0 && (
+                      <>
+                        <div className="h-72">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <ComposedChart data={scenarioChartData}>
+                              <CartesianGrid strokeDasharray="3 3" />
+                              <XAxis dataKey="period" />
+                              <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                              <Tooltip formatter={(value: number) => `$${formatCurrency(value)}`} />
+                              <Legend />
+                              <ReferenceLine y={0} stroke="#666" strokeDasharray="2 2" />
+                              {scenarioComparison.map(({ scenario }, index) => (
+                                <Line
+                                  key={scenario.id}
+                                  type="monotone"
+                                  dataKey={scenario.id}
+                                  name={scenario.name}
+                                  stroke={scenarioColors[index % scenarioColors.length]}
+                                  strokeWidth={2}
+                                  dot={false}
+                                />
+                              ))}
+                            </ComposedChart>
+                          </ResponsiveContainer>
+                        </div>
+
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Scenario</TableHead>
+                              <TableHead className="text-right">Peak Outflow</TableHead>
+                              <TableHead className="text-right">Peak Inflow</TableHead>
+                              <TableHead className="text-right">Deepest Cumulative</TableHead>
+                              <TableHead className="text-right">Break-Even</TableHead>
+                              <TableHead className="text-right">Final Cumulative</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {scenarioComparison.map(({ scenario, analysis }) => (
+                              <TableRow key={scenario.id}>
+                                <TableCell className="font-medium">{scenario.name}</TableCell>
+                                <TableCell className="text-right text-red-600">
+                                  {analysis ? `$${formatCurrency(Math.abs(analysis.peakOutflow.amount))} (${analysis.peakOutflow.period})` : 'N/A'}
+                                </TableCell>
+                                <TableCell className="text-right text-green-600">
+                                  {analysis ? `$${formatCurrency(analysis.peakInflow.amount)} (${analysis.peakInflow.period})` : 'N/A'}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {analysis ? `$${formatCurrency(Math.min(0, ...analysis.waterfallData.map(d => d.cumulativeNet)))}` : 'N/A'}
+                                </TableCell>
+                                <TableCell className="text-right">{analysis?.breakEvenYear || 'N/A'}</TableCell>
+                                <TableCell className="text-right font-medium">
+                                  {analysis ? `$${formatCurrency(analysis.finalCumulative)}` : 'N/A'}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+
                 {/* Detailed Table */}
                 <Card>
                   <CardHeader>
-                    <CardTitle>Year-by-Year Analysis</CardTitle>
+                    <CardTitle>{granularity === 'annual' ? 'Year-by-Year' : 'Quarter-by-Quarter'} Analysis</CardTitle>
                     <CardDescription>
                       Detailed breakdown of contributions, distributions, and cumulative net cashflow
                     </CardDescription>
@@ -502,7 +1035,7 @@ export default function NewPortfolioBuilder({
                     <Table>
                       <TableHeader>
                         <TableRow>
-                          <TableHead>Year</TableHead>
+                          <TableHead>{granularity === 'annual' ? 'Year' : 'Quarter'}</TableHead>
                           <TableHead className="text-right">Contributions</TableHead>
                           <TableHead className="text-right">Distributions</TableHead>
                           <TableHead className="text-right">Net Cashflow</TableHead>
@@ -512,8 +1045,8 @@ export default function NewPortfolioBuilder({
                       </TableHeader>
                       <TableBody>
                         {selectedPortfolioData.waterfallData.map((data) => (
-                          <TableRow key={data.year}>
-                            <TableCell className="font-medium">{data.year}</TableCell>
+                          <TableRow key={data.period}>
+                            <TableCell className="font-medium">{data.period}</TableCell>
                             <TableCell className="text-right text-red-600 font-medium">
                               ${formatCurrency(Math.abs(data.contributions))}
                             </TableCell>
@@ -561,75 +1094,171 @@ export default function NewPortfolioBuilder({
                   <div>
                     <CardTitle>Portfolio Positions</CardTitle>
                     <CardDescription>
-                      Manage fund positions in this portfolio
+                      Manage fund positions in this portfolio. Edit a commitment or its allocation and the other follows
                     </CardDescription>
                   </div>
-                  <Dialog open={showAddPosition} onOpenChange={setShowAddPosition}>
-                    <DialogTrigger asChild>
-                      <Button>
-                        <Plus className="h-4 w-4 mr-2" />
-                        Add Position
-                      </Button>
-                    </DialogTrigger>
-                    <DialogContent>
-                      <DialogHeader>
-                        <DialogTitle>Add Fund Position</DialogTitle>
-                        <DialogDescription>
-                          Select a fund from the general database and set commitment amount
-                        </DialogDescription>
-                      </DialogHeader>
-                      <div className="space-y-4">
-                        <div>
-                          <Label htmlFor="fundSelect">Select Fund</Label>
-                          <Select value={positionForm.fundId} onValueChange={(value) => setPositionForm({...positionForm, fundId: value})}>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Choose a fund" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {generalFunds
-                                .filter(fund => !currentPositions.some(pos => pos.fundId === fund.id))
-                                .map(fund => (
-                                  <SelectItem key={fund.id} value={fund.id}>
-                                    {fund.name} ({fund.vintage}) - {fund.fundType}
-                                  </SelectItem>
-                                ))
-                              }
-                            </SelectContent>
-                          </Select>
-                        </div>
+                  <div className="flex items-center gap-2">
+                    {selectedPortfolioInfo && (
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="portfolioTotalSize" className="text-sm whitespace-nowrap">Portfolio Size</Label>
+                        {totalSizeDraft === null ? (
+                          <>
+                            <span className="font-medium">${formatCurrency(selectedPortfolioInfo.totalSize)}</span>
+                            <Button variant="ghost" size="sm" onClick={() => setTotalSizeDraft(String(selectedPortfolioInfo.totalSize))}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          </>
+                        ) : (
+                          <>
+                            <Input
+                              id="portfolioTotalSize"
+                              type="number"
+                              className="w-40"
+                              value={totalSizeDraft}
+                              onChange={(e) => setTotalSizeDraft(e.target.value)}
+                            />
+                            <Button variant="ghost" size="sm" onClick={handleSaveTotalSize}>
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setTotalSizeDraft(null)}>
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                    <Button
+                      variant="outline"
+                      onClick={handleRebalance}
+                      disabled={currentPositions.length === 0}
+                      title="Scale all commitments to add up to the portfolio size"
+                    >
+                      <Scale className="h-4 w-4 mr-2" />
+                      Rebalance to 100%
+                    </Button>
+                    <Dialog open={showAddPosition} onOpenChange={setShowAddPosition}>
+                      <DialogTrigger asChild>
+                        <Button>
+                          <Plus className="h-4 w-4 mr-2" />
+                          Add Position
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>Add Fund Position</DialogTitle>
+                          <DialogDescription>
+                            Select a fund from the general database and set commitment amount
+                          </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-4">
+                          <div>
+                            <Label htmlFor="fundSelect">Select Fund</Label>
+                            <Select value={positionForm.fundId} onValueChange={(value) => setPositionForm({...positionForm, fundId: value, expectationId: ''})}>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Choose a fund" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {generalFunds
+                                  .filter(fund => !currentPositions.some(pos => pos.fundId === fund.id))
+                                  .map(fund => (
+                                    <SelectItem key={fund.id} value={fund.id}>
+                                      {fund.name} ({fund.vintage}) - {fund.fundType}
+                                    </SelectItem>
+                                  ))
+                                }
+                              </SelectContent>
+                            </Select>
+                          </div>
                         
-                        <div>
-                          <Label htmlFor="commitmentAmount">Commitment Amount</Label>
-                          <Input
-                            id="commitmentAmount"
-                            type="number"
-                            value={positionForm.commitmentAmount}
-                            onChange={(e) => setPositionForm({...positionForm, commitmentAmount: parseFloat(e.target.value)})}
-                            placeholder="100000000"
-                          />
-                        </div>
+                          {positionForm.fundId && (
+                            <div>
+                              <Label>Expectation Curve</Label>
+                              <Select
+                                value={positionForm.expectationId || 'fund'}
+                                onValueChange={(value) => setPositionForm({...positionForm, expectationId: value === 'fund' ? '' : value})}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="fund">Fund's own cashflows / projection</SelectItem>
+                                  {getExpectationOptions(generalFunds.find(f => f.id === positionForm.fundId)).map(exp => (
+                                    <SelectItem key={exp.id} value={exp.id}>{getExpectationLabel(exp.id)}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                A library curve replaces the fund's uploaded cashflows in this portfolio's projections
+                              </p>
+                            </div>
+                          )}
+
+                          <div>
+                            <Label htmlFor="commitmentAmount">Commitment Amount</Label>
+                            <Input
+                              id="commitmentAmount"
+                              type="number"
+                              value={positionForm.commitmentAmount}
+                              onChange={(e) => setPositionForm({...positionForm, commitmentAmount: parseFloat(e.target.value)})}
+                              placeholder="100000000"
+                            />
+                          </div>
                         
-                        {selectedPortfolioData && positionForm.commitmentAmount > 0 && (
-                          <div className="text-sm text-muted-foreground">
-                            Allocation: {((positionForm.commitmentAmount / selectedPortfolioData.portfolio.totalSize) * 100).toFixed(1)}% of portfolio
+                          {selectedPortfolioInfo && positionForm.commitmentAmount > 0 && (
+                            <div className="text-sm text-muted-foreground">
+                              Allocation: {getAllocationPercentage(positionForm.commitmentAmount, selectedPortfolioInfo.totalSize).toFixed(1)}% of portfolio
+                            </div>
+                          )}
+
+                          {selectedPortfolioInfo && positionForm.commitmentAmount > 0 &&
+                            currentTotalCommitment + positionForm.commitmentAmount > selectedPortfolioInfo.totalSize && (
+                            <div className="text-sm text-red-600">
+                              Commitments would total ${formatCurrency(currentTotalCommitment + positionForm.commitmentAmount)},
+                              ${formatCurrency(currentTotalCommitment + positionForm.commitmentAmount - selectedPortfolioInfo.totalSize)} over
+                              the portfolio size
+                            </div>
+                          )}
+
+                          <div>
+                            <Label htmlFor="commitmentDate">Commitment / First Close Date</Label>
+                            <Input
+                              id="commitmentDate"
+                              type="date"
+                              value={positionForm.commitmentDate}
+                              onChange={(e) => setPositionForm({...positionForm, commitmentDate: e.target.value})}
+                            />
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Year 1 of the fund's cashflow curve starts in this quarter
+                            </p>
                           </div>
-                        )}
                         
-                        <div className="flex justify-end gap-2">
-                          <Button variant="outline" onClick={() => setShowAddPosition(false)}>
-                            Cancel
-                          </Button>
-                          <Button onClick={handleAddPosition}>
-                            Add Position
-                          </Button>
+                          <div className="flex justify-end gap-2">
+                            <Button variant="outline" onClick={() => setShowAddPosition(false)}>
+                              Cancel
+                            </Button>
+                            <Button onClick={handleAddPosition}>
+                              Add Position
+                            </Button>
+                          </div>
                         </div>
-                      </div>
-                    </DialogContent>
-                  </Dialog>
+                      </DialogContent>
+                    </Dialog>
+                  </div>
                 </div>
               </CardHeader>
             </Card>
 
+            {selectedPortfolioInfo && overCommitment > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Commitments total ${formatCurrency(currentTotalCommitment)}
+                  {' '}({getAllocationPercentage(currentTotalCommitment, selectedPortfolioInfo.totalSize).toFixed(1)}% of the portfolio),
+                  ${formatCurrency(overCommitment)} over its size. Reduce positions, raise the portfolio size or rebalance to 100%.
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Positions Table */}
             <Card>
               <CardContent>
@@ -645,15 +1274,22 @@ export default function NewPortfolioBuilder({
                       <TableRow>
                         <TableHead>Fund</TableHead>
                         <TableHead>Details</TableHead>
+                        <TableHead>Commitment Date</TableHead>
                         <TableHead className="text-right">Commitment</TableHead>
                         <TableHead className="text-right">Allocation</TableHead>
-                        <TableHead className="w-12">Actions</TableHead>
+                        <TableHead className="w-24">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {currentPositions.map((position) => {
                         const fund = generalFunds.find(f => f.id === position.fundId)!
                         const cashflowCount = generalFundCashflows.filter(cf => cf.fundId === fund.id).length
+                        const commitmentStart = getCommitmentStart(position, fund)
+                        const isEditing = editingPosition?.id === position.id
+                        // Over-commitment if the edited amount were saved
+                        const editedOverCommitment = isEditing && selectedPortfolioInfo
+                          ? Math.max(currentTotalCommitment - position.commitmentAmount + (parseFloat(editingPosition.commitmentAmount) || 0) - selectedPortfolioInfo.totalSize, 0)
+                          : 0
                         return (
                           <TableRow key={position.id}>
                             <TableCell>
@@ -668,25 +1304,81 @@ export default function NewPortfolioBuilder({
                               <div className="space-y-1">
                                 <Badge variant="outline">{fund.strategy}</Badge>
                                 <div className="text-xs text-muted-foreground">
-                                  {fund.geography} • {cashflowCount} years data
+                                  {fund.geography} • {position.expectationId
+                                    ? getExpectationLabel(position.expectationId)
+                                    : cashflowCount > 0
+                                    ? `${cashflowCount} years data`
+                                    : getProjectionModel(library, fund) === 'takahashi-alexander'
+                                      ? 'Takahashi-Alexander projection'
+                                      : 'Fund type pattern projection'}
                                 </div>
                               </div>
                             </TableCell>
-                            <TableCell className="text-right font-medium">
-                              ${formatCurrency(position.commitmentAmount)}
-                            </TableCell>
-                            <TableCell className="text-right">
-                              {position.allocationPercentage.toFixed(1)}%
-                            </TableCell>
                             <TableCell>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => onRemovePosition(position.id)}
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              <div className="text-sm">
+                                {position.commitmentDate || `${commitmentStart.year} (vintage)`}
+                                <div className="text-xs text-muted-foreground">Q{commitmentStart.quarter} {commitmentStart.year}</div>
+                              </div>
                             </TableCell>
+                            {isEditing ? (
+                              <>
+                                <TableCell className="text-right">
+                                  <Input
+                                    type="number"
+                                    className="w-36 ml-auto text-right"
+                                    value={editingPosition.commitmentAmount}
+                                    onChange={(e) => updateEditingPosition('commitmentAmount', e.target.value)}
+                                  />
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  <Input
+                                    type="number"
+                                    step="0.1"
+                                    className="w-24 ml-auto text-right"
+                                    value={editingPosition.allocationPercentage}
+                                    onChange={(e) => updateEditingPosition('allocationPercentage', e.target.value)}
+                                  />
+                                  {editedOverCommitment > 0 && (
+                                    <div className="text-xs text-red-600 mt-1">
+                                      ${formatCurrency(editedOverCommitment)} over portfolio size
+                                    </div>
+                                  )}
+                                </TableCell>
+                                <TableCell>
+                                  <div className="flex items-center gap-1">
+                                    <Button variant="ghost" size="sm" onClick={handleSavePosition}>
+                                      <Check className="h-4 w-4" />
+                                    </Button>
+                                    <Button variant="ghost" size="sm" onClick={() => setEditingPosition(null)}>
+                                      <X className="h-4 w-4" />
+                                    </Button>
+                                  </div>
+                                </TableCell>
+                              </>
+                            ) : (
+                              <>
+                                <TableCell className="text-right font-medium">
+                                  ${formatCurrency(position.commitmentAmount)}
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {position.allocationPercentage.toFixed(1)}%
+                                </TableCell>
+                                <TableCell>
+                                  <div className="flex items-center gap-1">
+                                    <Button variant="ghost" size="sm" onClick={() => startEditingPosition(position)}>
+                                      <Edit className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => onRemovePosition(position.id)}
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </div>
+                                </TableCell>
+                              </>
+                            )}
                           </TableRow>
                         )
                       })}
@@ -696,6 +1388,42 @@ export default function NewPortfolioBuilder({
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="pacing">
+            {selectedPortfolioInfo && (
+              <CommitmentPacingPlanner portfolio={selectedPortfolioInfo} library={library} />
+            )}
+          </TabsContent>
+
+          <TabsContent value="simulation">
+            <MonteCarloSimulation
+              key={selectedPortfolio}
+              positions={simulationPositions}
+              totalCommitment={currentTotalCommitment}
+            />
+          </TabsContent>
+
+          <TabsContent value="liquidity">
+            <LiquidityStressTest
+              key={selectedPortfolio}
+              projection={liquidityProjection}
+              startYear={currentYear}
+              defaultLiquidAssets={(selectedPortfolioInfo?.totalSize || 0) * 0.1}
+            />
+          </TabsContent>
+
+          <TabsContent value="allocation">
+            {selectedPortfolioInfo && (
+              <AllocationTargets
+                portfolio={selectedPortfolioInfo}
+                positions={currentPositions}
+                generalFunds={generalFunds}
+                library={library}
+                getPositionCashflows={getCalendarCashflows}
+                onSaveTargets={(targets) => onUpdatePortfolio(selectedPortfolioInfo.id, { allocationTargets: targets })}
+              />
+            )}
+          </TabsContent>
         </Tabs>
       )}
 
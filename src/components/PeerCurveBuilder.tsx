@@ -0,0 +1,302 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Alert, AlertDescription } from './ui/alert'
+import { Users, Save, AlertCircle } from 'lucide-react'
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { FundTypeExpectation, GeneralFund, GeneralFundNetCashflow, PeerGroupFilter, PeerStatistic } from '../types'
+import { getFundTypes, resolveFundType } from '../data/fundExpectations'
+import {
+  buildPeerCurves, buildPeerExpectation, filterPeerFunds, getPeerCurveFundCount, getPeerStatisticLabel, peerStatistics
+} from '../lib/peerCurves'
+import { useToast } from '../hooks/use-toast'
+
+interface PeerCurveBuilderProps {
+  generalFunds: GeneralFund[]
+  generalFundCashflows: GeneralFundNetCashflow[]
+  library: FundTypeExpectation[]
+  onSave: (expectation: Omit<FundTypeExpectation, 'id'> & { id?: string }) => void
+}
+
+type PeerCurveMetric = 'contributions' | 'distributions' | 'nav'
+
+const metricLabels: Record<PeerCurveMetric, string> = {
+  contributions: 'Calls',
+  distributions: 'Distributions',
+  nav: 'NAV'
+}
+
+// Select value for an unset filter
+const ALL = 'all'
+
+const uniqueSorted = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort()
+
+export default function PeerCurveBuilder({ generalFunds, generalFundCashflows, library, onSave }: PeerCurveBuilderProps) {
+  const [filter, setFilter] = useState<PeerGroupFilter>({})
+  const [statistic, setStatistic] = useState<PeerStatistic>('median')
+  const [metric, setMetric] = useState<PeerCurveMetric>('contributions')
+  const [curveName, setCurveName] = useState('')
+  const { toast } = useToast()
+
+  const peers = filterPeerFunds(generalFunds, filter)
+  const curves = buildPeerCurves(peers, generalFundCashflows)
+  const fundCount = getPeerCurveFundCount(curves)
+
+  // Options narrow down with the filters above them
+  const fundTypes = uniqueSorted([...getFundTypes(library), ...generalFunds.map(fund => fund.fundType)])
+  const typeFunds = filterPeerFunds(generalFunds, { fundType: filter.fundType })
+  const strategies = uniqueSorted(typeFunds.map(fund => fund.strategy))
+  const geographies = uniqueSorted(typeFunds.map(fund => fund.geography))
+
+  const chartData = curves.map(year => ({
+    year: `Y${year.year}`,
+    quartiles: [year[metric].lowerQuartile, year[metric].upperQuartile],
+    median: year[metric].median,
+    mean: year[metric].mean
+  }))
+
+  const libraryFundType = filter.fundType ? resolveFundType(library, filter.fundType) || filter.fundType : ''
+  const name = curveName.trim()
+  const saveErrors: string[] = []
+  if (!filter.fundType) saveErrors.push('Choose a fund type to save the curve to the library')
+  if (curves.length === 0) saveErrors.push('No fund in the peer group has cashflow data')
+  if (!name) saveErrors.push('Enter a name for the curve')
+  if (name && library.some(entry => entry.fundType === libraryFundType && entry.strategy?.toLowerCase() === name.toLowerCase())) {
+    saveErrors.push(`${libraryFundType} already has a curve named "${name}"`)
+  }
+
+  const updateFilter = (updates: PeerGroupFilter) => setFilter({ ...filter, ...updates })
+
+  const parseVintage = (value: string) => (value === '' ? undefined : parseInt(value))
+
+  const handleSave = () => {
+    if (saveErrors.length > 0) return
+    const expectation = buildPeerExpectation(curves, peers, filter, statistic, name)
+    onSave({ ...expectation, fundType: libraryFundType })
+    setCurveName('')
+    toast({
+      title: "Peer Curve Saved",
+      description: `${libraryFundType} / ${name} (${getPeerStatisticLabel(statistic).toLowerCase()} of ${fundCount} funds) was added to the fund type library.`
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Peer Curve Builder
+          </CardTitle>
+          <CardDescription>
+            Build expected call, distribution and NAV curves from the cashflows of comparable funds in the general
+            database and save them to the fund type library
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div>
+              <Label>Fund Type</Label>
+              <Select
+                value={filter.fundType || ALL}
+                onValueChange={(value) => updateFilter({ fundType: value === ALL ? undefined : value, strategy: undefined, geography: undefined })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All fund types</SelectItem>
+                  {fundTypes.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Strategy</Label>
+              <Select value={filter.strategy || ALL} onValueChange={(value) => updateFilter({ strategy: value === ALL ? undefined : value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All strategies</SelectItem>
+                  {strategies.map(strategy => <SelectItem key={strategy} value={strategy}>{strategy}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Geography</Label>
+              <Select value={filter.geography || ALL} onValueChange={(value) => updateFilter({ geography: value === ALL ? undefined : value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All geographies</SelectItem>
+                  {geographies.map(geography => <SelectItem key={geography} value={geography}>{geography}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="peer-vintage-from">Vintage From</Label>
+              <Input
+                id="peer-vintage-from"
+                type="number"
+                value={filter.vintageFrom ?? ''}
+                onChange={(e) => updateFilter({ vintageFrom: parseVintage(e.target.value) })}
+                placeholder="Any"
+              />
+            </div>
+            <div>
+              <Label htmlFor="peer-vintage-to">Vintage To</Label>
+              <Input
+                id="peer-vintage-to"
+                type="number"
+                value={filter.vintageTo ?? ''}
+                onChange={(e) => updateFilter({ vintageTo: parseVintage(e.target.value) })}
+                placeholder="Any"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Badge variant="secondary">{peers.length} funds match</Badge>
+            <Badge variant="outline">{fundCount} with cashflow data</Badge>
+          </div>
+        </CardContent>
+      </Card>
+
+      {curves.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No fund in this peer group has cashflow data. Widen the filters or upload cashflows for the funds.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Peer {metricLabels[metric]} by Year</CardTitle>
+                  <CardDescription>Mean and median with the interquartile range, as % of commitment</CardDescription>
+                </div>
+                <div className="w-48">
+                  <Select value={metric} onValueChange={(value) => setMetric(value as PeerCurveMetric)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(metricLabels) as PeerCurveMetric[]).map(key => (
+                        <SelectItem key={key} value={key}>{metricLabels[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="year" />
+                    <YAxis tickFormatter={(value) => `${value}%`} />
+                    <Tooltip
+                      formatter={(value: number | number[]) => Array.isArray(value)
+                        ? `${value[0].toFixed(1)}% to ${value[1].toFixed(1)}%`
+                        : `${value.toFixed(1)}%`}
+                    />
+                    <Legend />
+                    <Area type="monotone" dataKey="quartiles" stroke="none" fill="#3b82f6" fillOpacity={0.2} name="Lower - Upper Quartile" />
+                    <Line type="monotone" dataKey="median" stroke="#1d4ed8" strokeWidth={3} name="Median" />
+                    <Line type="monotone" dataKey="mean" stroke="#f59e0b" strokeWidth={2} strokeDasharray="5 5" name="Mean" />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>{getPeerStatisticLabel(statistic)} Curve</CardTitle>
+                  <CardDescription>
+                    Each fund counts in the years it has cashflow data for
+                  </CardDescription>
+                </div>
+                <div className="w-48">
+                  <Select value={statistic} onValueChange={(value) => setStatistic(value as PeerStatistic)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {peerStatistics.map(s => <SelectItem key={s.id} value={s.id}>{s.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Year</TableHead>
+                      <TableHead className="text-right">Funds</TableHead>
+                      <TableHead className="text-right">Calls</TableHead>
+                      <TableHead className="text-right">Distributions</TableHead>
+                      <TableHead className="text-right">NAV</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {curves.map(year => (
+                      <TableRow key={year.year}>
+                        <TableCell className="font-medium">Year {year.year}</TableCell>
+                        <TableCell className="text-right">{year.fundCount}</TableCell>
+                        <TableCell className="text-right text-red-600">{year.contributions[statistic].toFixed(1)}%</TableCell>
+                        <TableCell className="text-right text-green-600">{year.distributions[statistic].toFixed(1)}%</TableCell>
+                        <TableCell className="text-right">{year.nav[statistic].toFixed(1)}%</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex items-end gap-4">
+                <div className="flex-1">
+                  <Label htmlFor="peer-curve-name">Curve Name</Label>
+                  <Input
+                    id="peer-curve-name"
+                    value={curveName}
+                    onChange={(e) => setCurveName(e.target.value)}
+                    placeholder="e.g., Europe 2010-2015 Peers"
+                  />
+                </div>
+                <Button onClick={handleSave} disabled={saveErrors.length > 0}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save to Library
+                </Button>
+              </div>
+
+              {name && saveErrors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    {saveErrors.map(error => <div key={error}>{error}</div>)}
+                  </AlertDescription>
+                </Alert>
+              )}
+              <p className="text-xs text-muted-foreground">
+                The curve is saved as a sub-strategy of the fund type and can be chosen for new portfolio positions.
+              </p>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
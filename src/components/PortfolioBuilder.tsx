@@ -9,12 +9,13 @@ import { Label } from './ui/label'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog'
 import { Plus, Trash2, TrendingUp, TrendingDown, Calculator, Target, BarChart3 } from 'lucide-react'
-import { Fund } from '../types'
+import { Fund, FundTypeExpectation } from '../types'
 import { calculateExpectedCashflows, portfolioScenarios, getFundTypeExpectation } from '../data/fundExpectations'
 import CashflowUpload from './CashflowUpload'
 
 interface PortfolioBuilderProps {
   availableFunds: Fund[]
+  library: FundTypeExpectation[]
 }
 
 interface TestPortfolioPosition {
@@ -42,7 +43,7 @@ interface ScenarioAnalysis {
   peakDistributionYear: number
 }
 
-export default function PortfolioBuilder({ availableFunds }: PortfolioBuilderProps) {
+export default function PortfolioBuilder({ availableFunds, library }: PortfolioBuilderProps) {
   const [testPortfolio, setTestPortfolio] = useState<TestPortfolioPosition[]>([])
   const [selectedScenario, setSelectedScenario] = useState(portfolioScenarios[1].id)
   const [totalPortfolioSize, setTotalPortfolioSize] = useState('1000000000') // $1B default
@@ -188,6 +189,7 @@ export default function PortfolioBuilder({ availableFunds }: PortfolioBuilderPro
           <CashflowUpload 
             funds={availableFunds}
             onCashflowsUploaded={handleCashflowsUploaded}
+            library={library}
             existingCashflows={uploadedCashflows}
           />
 
@@ -0,0 +1,234 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { GitCompare } from 'lucide-react'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { FundTypeExpectation, GeneralFund, PortfolioComparisonEntry } from '../types'
+import { resolveFundType } from '../data/fundExpectations'
+
+interface PortfolioComparisonProps {
+  entries: PortfolioComparisonEntry[] // The first entry is the baseline the others are compared against
+  generalFunds: GeneralFund[]
+  library: FundTypeExpectation[]
+}
+
+type ComparisonSeries = 'cumulativeNet' | 'netCashflow'
+
+const seriesLabels: Record<ComparisonSeries, string> = {
+  cumulativeNet: 'Cumulative Net Cashflow',
+  netCashflow: 'Net Cashflow per Period'
+}
+
+const portfolioColors = ['#3b82f6', '#f97316', '#8b5cf6', '#22c55e', '#ef4444', '#06b6d4']
+
+export default function PortfolioComparison({ entries, generalFunds, library }: PortfolioComparisonProps) {
+  const [series, setSeries] = useState<ComparisonSeries>('cumulativeNet')
+
+  const formatCurrency = (amount: number) => {
+    if (Math.abs(amount) >= 1000000000) {
+      return `${(amount / 1000000000).toFixed(1)}B`
+    }
+    if (Math.abs(amount) >= 1000000) {
+      return `${(amount / 1000000).toFixed(0)}M`
+    }
+    return `${(amount / 1000).toFixed(0)}K`
+  }
+
+  const formatDelta = (delta: number, format: (value: number) => string) =>
+    delta === 0 ? 'No change' : `${delta > 0 ? '+' : '-'}${format(Math.abs(delta))} vs baseline`
+
+  // One row per period with a column per portfolio. Net cashflow is zero outside a portfolio's
+  // periods; cumulative net is held at its last value.
+  const periods = Array.from(new Set(entries.flatMap(e => e.analysis?.waterfallData.map(d => d.period) || [])))
+    .sort((a, b) => a.localeCompare(b))
+  const lastCumulativeNet: Record<string, number> = {}
+  const chartData = periods.map(period => {
+    const row: Record<string, string | number> = { period }
+    entries.forEach(({ portfolio, analysis }) => {
+      const data = analysis?.waterfallData.find(d => d.period === period)
+      if (series === 'netCashflow') {
+        row[portfolio.id] = data ? data.netCashflow : 0
+        return
+      }
+      if (data) lastCumulativeNet[portfolio.id] = data.cumulativeNet
+      if (lastCumulativeNet[portfolio.id] !== undefined) row[portfolio.id] = lastCumulativeNet[portfolio.id]
+    })
+    return row
+  })
+
+  // Share of each portfolio's commitments by fund type, in %
+  const getFundType = (fundId: string) => {
+    const fund = generalFunds.find(f => f.id === fundId)
+    return fund ? resolveFundType(library, fund.fundType) || fund.fundType : 'Unknown'
+  }
+  const allocations = entries.map(({ positions }) => {
+    const total = positions.reduce((sum, pos) => sum + pos.commitmentAmount, 0)
+    const byType: Record<string, number> = {}
+    positions.forEach(pos => {
+      const fundType = getFundType(pos.fundId)
+      byType[fundType] = (byType[fundType] || 0) + (total > 0 ? (pos.commitmentAmount / total) * 100 : 0)
+    })
+    return byType
+  })
+  const fundTypes = Array.from(new Set(allocations.flatMap(byType => Object.keys(byType)))).sort()
+
+  const baseline = entries[0]
+  const totalCommitment = (entry: PortfolioComparisonEntry) => entry.positions.reduce((sum, pos) => sum + pos.commitmentAmount, 0)
+
+  // Metric rows: the display value of each portfolio and, after the baseline, its difference to it
+  const metricRows: {
+    label: string
+    value: (entry: PortfolioComparisonEntry) => number | undefined
+    format: (value: number) => string
+    note?: (entry: PortfolioComparisonEntry) => string | undefined
+  }[] = [
+    { label: 'Total Commitment', value: totalCommitment, format: (value) => `$${formatCurrency(value)}` },
+    {
+      label: 'Peak Outflow',
+      value: (entry) => entry.analysis ? Math.abs(entry.analysis.peakOutflow.amount) : undefined,
+      format: (value) => `$${formatCurrency(value)}`,
+      note: (entry) => entry.analysis?.peakOutflow.period
+    },
+    { label: 'Break-Even Year', value: (entry) => entry.analysis?.breakEvenYear, format: (value) => String(value) },
+    {
+      label: 'Final Cumulative',
+      value: (entry) => entry.analysis?.finalCumulative,
+      format: (value) => `$${formatCurrency(value)}`
+    }
+  ]
+
+  const renderCell = (value: number | undefined, baselineValue: number | undefined, index: number, format: (value: number) => string, deltaFormat = format) => (
+    <>
+      <div>{value !== undefined ? format(value) : 'N/A'}</div>
+      {index > 0 && value !== undefined && baselineValue !== undefined && (
+        <div className="text-xs text-muted-foreground">{formatDelta(value - baselineValue, deltaFormat)}</div>
+      )}
+    </>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Portfolio Comparison ({entries.length})
+            </CardTitle>
+            <CardDescription>
+              Calendar cashflows of each portfolio under the selected scenario. Differences are measured
+              against the baseline, {baseline.portfolio.name}.
+            </CardDescription>
+          </div>
+          <div className="w-64">
+            <Select value={series} onValueChange={(value) => setSeries(value as ComparisonSeries)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(seriesLabels) as ComparisonSeries[]).map(key => (
+                  <SelectItem key={key} value={key}>{seriesLabels[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {chartData.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            None of the selected portfolios has positions with cashflows to compare
+          </div>
+        ) : (
+          <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" />
+                <YAxis tickFormatter={(value) => formatCurrency(value)} />
+                <Tooltip formatter={(value: number) => `$${formatCurrency(value)}`} />
+                <Legend />
+                <ReferenceLine y={0} stroke="#666" strokeDasharray="2 2" />
+                {entries.map(({ portfolio }, index) => series === 'netCashflow' ? (
+                  <Bar
+                    key={portfolio.id}
+                    dataKey={portfolio.id}
+                    name={portfolio.name}
+                    fill={portfolioColors[index % portfolioColors.length]}
+                  />
+                ) : (
+                  <Line
+                    key={portfolio.id}
+                    type="monotone"
+                    dataKey={portfolio.id}
+                    name={portfolio.name}
+                    stroke={portfolioColors[index % portfolioColors.length]}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metric</TableHead>
+                {entries.map(({ portfolio }, index) => (
+                  <TableHead key={portfolio.id} className="text-right">
+                    {portfolio.name}
+                    {index === 0 && <Badge variant="outline" className="ml-2">Baseline</Badge>}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {metricRows.map(row => (
+                <TableRow key={row.label}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  {entries.map((entry, index) => (
+                    <TableCell key={entry.portfolio.id} className="text-right">
+                      {renderCell(
+                        row.value(entry),
+                        row.value(baseline),
+                        index,
+                        (value) => `${row.format(value)}${row.note?.(entry) ? ` (${row.note(entry)})` : ''}`,
+                        row.label === 'Break-Even Year' ? (value) => `${value} yr` : row.format
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell colSpan={entries.length + 1} className="font-medium text-muted-foreground">
+                  Allocation by Fund Type
+                </TableCell>
+              </TableRow>
+              {fundTypes.map(fundType => (
+                <TableRow key={fundType}>
+                  <TableCell>{fundType}</TableCell>
+                  {entries.map((entry, index) => (
+                    <TableCell key={entry.portfolio.id} className="text-right">
+                      {renderCell(
+                        allocations[index][fundType] || 0,
+                        allocations[0][fundType] || 0,
+                        index,
+                        (value) => `${value.toFixed(1)}%`,
+                        (value) => `${value.toFixed(1)} pts`
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
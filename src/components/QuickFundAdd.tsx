@@ -6,38 +6,29 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
 import { Plus, Check, X, Zap } from 'lucide-react'
-import { Fund } from '../types'
+import { Fund, FundTypeExpectation } from '../types'
+import { getFundTypeExpectation, getFundTypes } from '../data/fundExpectations'
 
 interface QuickFundAddProps {
   onAddFund: (fundData: Omit<Fund, 'id' | 'createdAt' | 'updatedAt' | 'userId'>) => void
+  library: FundTypeExpectation[]
   className?: string
 }
 
-const fundTypes = [
-  'Private Equity',
-  'Venture Capital', 
-  'Real Estate',
-  'Infrastructure',
-  'Credit',
-  'Hedge Fund',
-  'Fund of Funds',
-  'Secondary',
-  'Co-Investment'
+// Badge colors, assigned to the fund types of the library in order
+const fundTypeColors = [
+  'bg-blue-100 text-blue-800', 'bg-purple-100 text-purple-800', 'bg-green-100 text-green-800',
+  'bg-orange-100 text-orange-800', 'bg-red-100 text-red-800', 'bg-yellow-100 text-yellow-800',
+  'bg-indigo-100 text-indigo-800', 'bg-pink-100 text-pink-800', 'bg-teal-100 text-teal-800'
 ]
 
-const fundTypeDefaults = {
-  'Private Equity': { managementFee: 2.0, carriedInterest: 20.0, color: 'bg-blue-100 text-blue-800' },
-  'Venture Capital': { managementFee: 2.5, carriedInterest: 20.0, color: 'bg-purple-100 text-purple-800' },
-  'Real Estate': { managementFee: 1.5, carriedInterest: 15.0, color: 'bg-green-100 text-green-800' },
-  'Infrastructure': { managementFee: 2.0, carriedInterest: 15.0, color: 'bg-orange-100 text-orange-800' },
-  'Credit': { managementFee: 1.5, carriedInterest: 10.0, color: 'bg-red-100 text-red-800' },
-  'Hedge Fund': { managementFee: 2.0, carriedInterest: 20.0, color: 'bg-yellow-100 text-yellow-800' },
-  'Fund of Funds': { managementFee: 1.0, carriedInterest: 5.0, color: 'bg-indigo-100 text-indigo-800' },
-  'Secondary': { managementFee: 1.5, carriedInterest: 10.0, color: 'bg-pink-100 text-pink-800' },
-  'Co-Investment': { managementFee: 0.5, carriedInterest: 10.0, color: 'bg-teal-100 text-teal-800' }
+const getFundTypeColor = (fundTypes: string[], fundType: string) => {
+  const index = fundTypes.indexOf(fundType)
+  return index === -1 ? 'bg-gray-100 text-gray-800' : fundTypeColors[index % fundTypeColors.length]
 }
 
-export default function QuickFundAdd({ onAddFund, className = '' }: QuickFundAddProps) {
+export default function QuickFundAdd({ onAddFund, library, className = '' }: QuickFundAddProps) {
+  const fundTypes = getFundTypes(library)
   const [isExpanded, setIsExpanded] = useState(false)
   const [formData, setFormData] = useState({
     name: '',
@@ -57,11 +48,9 @@ export default function QuickFundAdd({ onAddFund, className = '' }: QuickFundAdd
       
       // Auto-populate fee defaults when fund type changes
       if (field === 'fundType' && typeof value === 'string') {
-        const defaults = fundTypeDefaults[value as keyof typeof fundTypeDefaults]
-        if (defaults) {
-          newData.managementFeeRate = defaults.managementFee
-          newData.carriedInterestRate = defaults.carriedInterest
-        }
+        const defaults = getFundTypeExpectation(library, value)
+        if (defaults?.managementFeeRate !== undefined) newData.managementFeeRate = defaults.managementFeeRate
+        if (defaults?.carriedInterestRate !== undefined) newData.carriedInterestRate = defaults.carriedInterestRate
       }
       
       return newData
@@ -154,7 +143,6 @@ export default function QuickFundAdd({ onAddFund, className = '' }: QuickFundAdd
     )
   }
 
-  const selectedTypeDefaults = formData.fundType ? fundTypeDefaults[formData.fundType as keyof typeof fundTypeDefaults] : null
 
   return (
     <Card className={`border-primary/50 shadow-md ${className}`}>
@@ -199,7 +187,7 @@ export default function QuickFundAdd({ onAddFund, className = '' }: QuickFundAdd
                   {fundTypes.map(type => (
                     <SelectItem key={type} value={type}>
                       <div className="flex items-center gap-2">
-                        <div className={`w-2 h-2 rounded-full ${fundTypeDefaults[type as keyof typeof fundTypeDefaults]?.color.split(' ')[0] || 'bg-gray-400'}`} />
+                        <div className={`w-2 h-2 rounded-full ${getFundTypeColor(fundTypes, type).split(' ')[0]}`} />
                         {type}
                       </div>
                     </SelectItem>
@@ -246,10 +234,10 @@ export default function QuickFundAdd({ onAddFund, className = '' }: QuickFundAdd
           </div>
 
           {/* Smart Defaults Display */}
-          {selectedTypeDefaults && (
+          {formData.fundType && (
             <div className="bg-muted/50 rounded-lg p-3">
               <div className="flex items-center gap-2 mb-2">
-                <Badge className={selectedTypeDefaults.color}>
+                <Badge className={getFundTypeColor(fundTypes, formData.fundType)}>
                   {formData.fundType}
                 </Badge>
                 <span className="text-sm text-muted-foreground">Smart defaults applied</span>
@@ -0,0 +1,303 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Alert, AlertDescription } from './ui/alert'
+import { SlidersHorizontal, Plus, Edit, Trash2, AlertCircle } from 'lucide-react'
+import { FundTypeExpectation, PortfolioScenario, ScenarioShocks } from '../types'
+import { getFundTypes } from '../data/fundExpectations'
+import { noScenarioShocks, scenarioShockFields } from '../lib/scenarioShocks'
+import { useToast } from '../hooks/use-toast'
+
+interface ScenarioManagerProps {
+  scenarios: PortfolioScenario[]
+  library: FundTypeExpectation[]
+  onSave: (scenario: Omit<PortfolioScenario, 'id'> & { id?: string }) => void
+  onDelete: (id: string) => void
+}
+
+// Editable form of a scenario; shock values are kept as typed
+type ShockDraft = Record<keyof ScenarioShocks, string>
+
+interface ScenarioDraft {
+  id?: string
+  name: string
+  description: string
+  shocks: ShockDraft
+  fundTypeShocks: { fundType: string; shocks: ShockDraft }[]
+}
+
+const toShockDraft = (shocks: ScenarioShocks = noScenarioShocks): ShockDraft => ({
+  callSpeed: String(shocks.callSpeed),
+  distributionDelay: String(shocks.distributionDelay),
+  multipleHaircut: String(shocks.multipleHaircut),
+  navMarkdown: String(shocks.navMarkdown)
+})
+
+const emptyDraft: ScenarioDraft = { name: '', description: '', shocks: toShockDraft(), fundTypeShocks: [] }
+
+const toDraft = (scenario: PortfolioScenario): ScenarioDraft => ({
+  id: scenario.id,
+  name: scenario.name,
+  description: scenario.description,
+  shocks: toShockDraft(scenario.shocks),
+  fundTypeShocks: Object.entries(scenario.shocksByFundType || {}).map(([fundType, shocks]) => ({
+    fundType,
+    shocks: toShockDraft(shocks)
+  }))
+})
+
+const parseShocks = (draft: ShockDraft, label: string, errors: string[]): ScenarioShocks => {
+  const shocks = { ...noScenarioShocks }
+  scenarioShockFields.forEach(({ key, label: fieldLabel }) => {
+    const value = draft[key].trim() === '' ? 0 : Number(draft[key])
+    if (isNaN(value)) errors.push(`${label}: ${fieldLabel} must be a number`)
+    else shocks[key] = value
+  })
+  if (shocks.callSpeed <= -90) errors.push(`${label}: Call Speed must be above -90%`)
+  if (shocks.multipleHaircut > 100 || shocks.navMarkdown > 100) errors.push(`${label}: Haircuts cannot exceed 100%`)
+  return shocks
+}
+
+const parseDraft = (draft: ScenarioDraft, scenarios: PortfolioScenario[]) => {
+  const errors: string[] = []
+  const name = draft.name.trim()
+  if (!name) errors.push('Name is required')
+  if (name && scenarios.some(s => s.id !== draft.id && s.name.toLowerCase() === name.toLowerCase())) {
+    errors.push(`A scenario named "${name}" already exists`)
+  }
+
+  const shocks = parseShocks(draft.shocks, 'All funds', errors)
+  const shocksByFundType: Record<string, ScenarioShocks> = {}
+  draft.fundTypeShocks.forEach(entry => {
+    if (!entry.fundType) errors.push('Choose a fund type for every override')
+    else if (shocksByFundType[entry.fundType]) errors.push(`${entry.fundType} has more than one override`)
+    else shocksByFundType[entry.fundType] = parseShocks(entry.shocks, entry.fundType, errors)
+  })
+
+  if (errors.length > 0) return { errors }
+  const scenario: Omit<PortfolioScenario, 'id'> & { id?: string } = {
+    id: draft.id,
+    name,
+    type: 'custom',
+    multiplier: 1,
+    description: draft.description.trim(),
+    shocks,
+    shocksByFundType: draft.fundTypeShocks.length > 0 ? shocksByFundType : undefined
+  }
+  return { errors, scenario }
+}
+
+const formatShocks = (shocks?: ScenarioShocks) => {
+  if (!shocks) return 'None'
+  const parts = scenarioShockFields
+    .filter(({ key }) => shocks[key] !== 0)
+    .map(({ key, label, unit }) => `${label} ${shocks[key] > 0 ? '+' : ''}${shocks[key]}${unit === '%' ? '%' : ` ${unit}`}`)
+  return parts.length > 0 ? parts.join(', ') : 'None'
+}
+
+export default function ScenarioManager({ scenarios, library, onSave, onDelete }: ScenarioManagerProps) {
+  const [draft, setDraft] = useState<ScenarioDraft | null>(null)
+  const { toast } = useToast()
+
+  const parsed = draft ? parseDraft(draft, scenarios) : null
+  const fundTypes = getFundTypes(library)
+
+  const handleSave = () => {
+    if (!parsed?.scenario) return
+    onSave(parsed.scenario)
+    setDraft(null)
+    toast({
+      title: "Scenario Saved",
+      description: `${parsed.scenario.name} can now be selected in the cashflow table and portfolio builder.`
+    })
+  }
+
+  const renderShockInputs = (shocks: ShockDraft, onChange: (shocks: ShockDraft) => void, idPrefix: string) => (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      {scenarioShockFields.map(({ key, label, unit }) => (
+        <div key={key}>
+          <Label htmlFor={`${idPrefix}-${key}`}>{label} ({unit})</Label>
+          <Input
+            id={`${idPrefix}-${key}`}
+            type="number"
+            step={key === 'distributionDelay' ? '1' : '5'}
+            value={shocks[key]}
+            onChange={(e) => onChange({ ...shocks, [key]: e.target.value })}
+          />
+        </div>
+      ))}
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5" />
+              Scenario Manager
+            </CardTitle>
+            <CardDescription>
+              Named scenarios that shock call speed, distribution timing, multiples and NAV, optionally per fund type
+            </CardDescription>
+          </div>
+          <Button onClick={() => setDraft(emptyDraft)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Scenario
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Scenario</TableHead>
+              <TableHead>Shocks</TableHead>
+              <TableHead>Fund Type Overrides</TableHead>
+              <TableHead className="w-24">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {scenarios.map(scenario => (
+              <TableRow key={scenario.id}>
+                <TableCell>
+                  <div className="font-medium">{scenario.name}</div>
+                  {scenario.description && (
+                    <div className="text-sm text-muted-foreground">{scenario.description}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {scenario.type === 'custom'
+                    ? formatShocks(scenario.shocks)
+                    : `Distributions and NAV x${scenario.multiplier.toFixed(2)}`}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {Object.entries(scenario.shocksByFundType || {}).map(([fundType, shocks]) => (
+                    <div key={fundType}>
+                      <span className="font-medium">{fundType}:</span> {formatShocks(shocks)}
+                    </div>
+                  ))}
+                  {!scenario.shocksByFundType && <span className="text-muted-foreground">None</span>}
+                </TableCell>
+                <TableCell>
+                  {scenario.type === 'custom' ? (
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => setDraft(toDraft(scenario))}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => onDelete(scenario.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <Badge variant="secondary">Built-in</Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => { if (!open) setDraft(null) }}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Scenario' : 'New Scenario'}</DialogTitle>
+            <DialogDescription>
+              Call speed above zero calls capital faster. A positive distribution delay pushes distributions out
+              by that many years. Haircuts reduce distributions and NAV.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="scenario-name">Name *</Label>
+                  <Input
+                    id="scenario-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    placeholder="e.g., Slow Exits"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="scenario-description">Description</Label>
+                  <Textarea
+                    id="scenario-description"
+                    rows={1}
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-sm font-medium">All Funds</div>
+                {renderShockInputs(draft.shocks, (shocks) => setDraft({ ...draft, shocks }), 'scenario')}
+              </div>
+
+              {draft.fundTypeShocks.map((entry, index) => {
+                const updateEntry = (updates: Partial<ScenarioDraft['fundTypeShocks'][number]>) => setDraft({
+                  ...draft,
+                  fundTypeShocks: draft.fundTypeShocks.map((e, i) => (i === index ? { ...e, ...updates } : e))
+                })
+                return (
+                  <div key={index} className="space-y-2 border rounded-lg p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <Select value={entry.fundType} onValueChange={(value) => updateEntry({ fundType: value })}>
+                        <SelectTrigger className="w-64">
+                          <SelectValue placeholder="Fund type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {fundTypes.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDraft({ ...draft, fundTypeShocks: draft.fundTypeShocks.filter((_, i) => i !== index) })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {renderShockInputs(entry.shocks, (shocks) => updateEntry({ shocks }), `scenario-${index}`)}
+                  </div>
+                )
+              })}
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, fundTypeShocks: [...draft.fundTypeShocks, { fundType: '', shocks: toShockDraft() }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Fund Type Override
+              </Button>
+
+              {parsed && parsed.errors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    {parsed.errors.map(error => <div key={error}>{error}</div>)}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={!parsed?.scenario}>Save Scenario</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,27 @@
+import { Alert, AlertDescription, AlertTitle } from './ui/alert'
+import { Button } from './ui/button'
+import { AlertTriangle, RefreshCw } from 'lucide-react'
+import { useDataStore } from '../hooks/useDataStore'
+
+// Shown while any collection could not be loaded from or saved to the backend
+export default function SyncStatusAlert() {
+  const { syncErrors, retrySync } = useDataStore()
+
+  if (syncErrors.length === 0) return null
+
+  return (
+    <div className="container mx-auto px-6 pt-4">
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Not everything is saved</AlertTitle>
+        <AlertDescription className="flex items-center justify-between gap-4">
+          <span>{syncErrors.join('. ')}. Changes stay on this page until they are saved.</span>
+          <Button variant="outline" size="sm" onClick={retrySync}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    </div>
+  )
+}
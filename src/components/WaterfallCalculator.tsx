@@ -0,0 +1,354 @@
+import { useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Checkbox } from './ui/checkbox'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table'
+import { Badge } from './ui/badge'
+import { Plus, RotateCcw, Trash2 } from 'lucide-react'
+import { Fund, Cashflow, FundRule } from '../types'
+import {
+  WaterfallFlow, applyFundRulesToWaterfall, calculateDistributionWaterfall, getRuleFeeFlows
+} from '../lib/distributionWaterfall'
+import { fundRuleBases, fundRuleTypeLabels } from '../lib/fundRules'
+
+interface WaterfallCalculatorProps {
+  fund: Fund
+  cashflows: Cashflow[]
+  rules: FundRule[] // The fund's active rules
+}
+
+const quarterEndDays = [31, 30, 30, 31]
+
+// Fund cashflows as dated flows at each quarter end, calls paid in and distributions as gross proceeds
+const getFundFlows = (fund: Fund, cashflows: Cashflow[]): WaterfallFlow[] =>
+  cashflows
+    .filter(cf => cf.fundId === fund.id)
+    .sort((a, b) => a.year - b.year || a.quarter - b.quarter)
+    .map(cf => ({
+      date: `${cf.year}-${String(cf.quarter * 3).padStart(2, '0')}-${quarterEndDays[cf.quarter - 1]}`,
+      contribution: cf.calls,
+      proceeds: cf.distributions
+    }))
+
+export default function WaterfallCalculator({ fund, cashflows, rules }: WaterfallCalculatorProps) {
+  const carryRules = rules.filter(rule => rule.ruleType === 'carried_interest')
+  const ruleCarryRate = carryRules.length > 0 ? carryRules.reduce((sum, rule) => sum + rule.ruleValue, 0) : undefined
+  const [flows, setFlows] = useState<WaterfallFlow[]>(() => getFundFlows(fund, cashflows))
+  const [terms, setTerms] = useState({
+    carriedInterestRate: ruleCarryRate ?? (fund.carriedInterestRate || 20),
+    hurdleRate: 8,
+    catchUpRate: 100
+  })
+  const [liquidateNav, setLiquidateNav] = useState(false)
+
+  const latestCashflow = cashflows
+    .filter(cf => cf.fundId === fund.id)
+    .sort((a, b) => b.year - a.year || b.quarter - a.quarter)[0]
+  const liquidationFlow = liquidateNav && latestCashflow && latestCashflow.nav > 0 && flows.length > 0
+    ? { date: flows.reduce((latest, flow) => flow.date > latest ? flow.date : latest, flows[0].date), contribution: 0, proceeds: latestCashflow.nav }
+    : null
+  const feeFlows = getRuleFeeFlows(flows, rules, fund.commitmentAmount)
+  const result = calculateDistributionWaterfall([...flows, ...feeFlows, ...(liquidationFlow ? [liquidationFlow] : [])], terms)
+  const ruleRows = applyFundRulesToWaterfall(result.rows, rules, fund.commitmentAmount)
+  const hasRuleDeductions = rules.some(rule => rule.ruleType === 'tax' || rule.ruleType === 'other')
+  const ruleTotals = rules.map(rule => ({
+    rule,
+    total: ruleRows.reduce((sum, row) =>
+      sum + row.ruleDeductions.filter(d => d.ruleId === rule.id).reduce((ruleSum, d) => ruleSum + d.amount, 0), 0)
+  }))
+
+  const formatCurrency = (amount: number) => {
+    if (Math.abs(amount) >= 1000000000) {
+      return `${(amount / 1000000000).toFixed(1)}B`
+    }
+    if (Math.abs(amount) >= 1000000) {
+      return `${(amount / 1000000).toFixed(1)}M`
+    }
+    return `${(amount / 1000).toFixed(0)}K`
+  }
+
+  const updateFlow = (index: number, updates: Partial<WaterfallFlow>) => {
+    setFlows(flows.map((flow, i) => i === index ? { ...flow, ...updates } : flow))
+  }
+
+  const addFlow = () => {
+    const lastDate = flows.length > 0 ? flows[flows.length - 1].date : `${fund.vintage}-12-31`
+    setFlows([...flows, { date: lastDate, contribution: 0, proceeds: 0 }])
+  }
+
+  const lpProfit = result.totals.lpTotal - result.totals.contributions
+  const tierRows: { label: string; lp: number; gp: number }[] = [
+    { label: 'Return of Capital', lp: result.totals.returnOfCapital, gp: 0 },
+    { label: `Preferred Return (${terms.hurdleRate}%)`, lp: result.totals.preferredReturn, gp: 0 },
+    { label: `GP Catch-up (${terms.catchUpRate}%)`, lp: result.totals.lpCatchUp, gp: result.totals.gpCatchUp },
+    { label: `Carried Interest Split (${100 - terms.carriedInterestRate}/${terms.carriedInterestRate})`, lp: result.totals.lpSplit, gp: result.totals.gpCarry }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Waterfall Terms</CardTitle>
+          <CardDescription>
+            Whole-fund waterfall: proceeds return the LP's capital, then the preferred return compounding on what is
+            still owed, then the GP catch-up, then the carry split
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="waterfall-carry">Carried Interest (%)</Label>
+              <Input
+                id="waterfall-carry"
+                type="number"
+                step="0.1"
+                value={terms.carriedInterestRate}
+                onChange={(e) => setTerms({ ...terms, carriedInterestRate: parseFloat(e.target.value) || 0 })}
+              />
+              {ruleCarryRate !== undefined && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {ruleCarryRate === terms.carriedInterestRate ? 'From' : 'Overrides'} fund rules: {carryRules.map(rule => rule.ruleName).join(', ')}
+                </p>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="waterfall-hurdle">Preferred Return (%)</Label>
+              <Input
+                id="waterfall-hurdle"
+                type="number"
+                step="0.1"
+                value={terms.hurdleRate}
+                onChange={(e) => setTerms({ ...terms, hurdleRate: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="waterfall-catch-up">GP Catch-up (%)</Label>
+              <Input
+                id="waterfall-catch-up"
+                type="number"
+                step="1"
+                value={terms.catchUpRate}
+                onChange={(e) => setTerms({ ...terms, catchUpRate: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="waterfall-liquidate"
+              checked={liquidateNav}
+              onCheckedChange={(checked) => setLiquidateNav(checked === true)}
+              disabled={!latestCashflow || latestCashflow.nav <= 0}
+            />
+            <Label htmlFor="waterfall-liquidate" className="font-normal">
+              Include current NAV{latestCashflow ? ` ($${formatCurrency(latestCashflow.nav)})` : ''} as final proceeds on the last date
+            </Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>LP Contributions & Gross Proceeds</CardTitle>
+              <CardDescription>Prefilled from the fund's cashflow history at quarter ends; edit freely</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setFlows(getFundFlows(fund, cashflows))}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reset
+              </Button>
+              <Button size="sm" onClick={addFlow}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Flow
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Contribution</TableHead>
+                <TableHead>Gross Proceeds</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {flows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">No flows yet</TableCell>
+                </TableRow>
+              ) : (
+                flows.map((flow, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Input type="date" value={flow.date} onChange={(e) => updateFlow(index, { date: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        value={flow.contribution}
+                        onChange={(e) => updateFlow(index, { contribution: parseFloat(e.target.value) || 0 })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        value={flow.proceeds}
+                        onChange={(e) => updateFlow(index, { proceeds: parseFloat(e.target.value) || 0 })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => setFlows(flows.filter((_, i) => i !== index))}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>LP / GP Split</CardTitle>
+          <CardDescription>
+            {result.gpShareOfProfit !== undefined
+              ? `GP holds ${result.gpShareOfProfit.toFixed(1)}% of the profit distributed; LP profit $${formatCurrency(lpProfit)}`
+              : 'No profit distributed yet'}
+            {result.unreturnedCapital > 0 && `. $${formatCurrency(result.unreturnedCapital)} of capital not yet returned`}
+            {result.unreturnedCapital <= 0 && result.unpaidPreferredReturn > 0 && `. $${formatCurrency(result.unpaidPreferredReturn)} of preferred return unpaid`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tier</TableHead>
+                <TableHead className="text-right">LP</TableHead>
+                <TableHead className="text-right">GP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tierRows.map(tier => (
+                <TableRow key={tier.label}>
+                  <TableCell>{tier.label}</TableCell>
+                  <TableCell className="text-right">${formatCurrency(tier.lp)}</TableCell>
+                  <TableCell className="text-right">${formatCurrency(tier.gp)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-medium">
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">${formatCurrency(result.totals.lpTotal)}</TableCell>
+                <TableCell className="text-right">${formatCurrency(result.totals.gpTotal)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {rules.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Fund Rule Deductions</CardTitle>
+            <CardDescription>
+              Management fees are paid in by the LP at each year-end and returned through the waterfall; carry rules set
+              the carry rate; tax rules take their rate of the LP's profit and other rules of the gross proceeds, both out
+              of the LP's distributions
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead className="text-right">Deducted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ruleTotals.map(({ rule, total }) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">{rule.ruleName}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{fundRuleTypeLabels[rule.ruleType]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{rule.ruleValue}% {fundRuleBases[rule.ruleType]}</TableCell>
+                    <TableCell className="text-right">${formatCurrency(total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Year-by-Year Breakdown</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Year</TableHead>
+                <TableHead className="text-right">Contributions</TableHead>
+                <TableHead className="text-right">Proceeds</TableHead>
+                <TableHead className="text-right">Return of Capital</TableHead>
+                <TableHead className="text-right">Pref. Return</TableHead>
+                <TableHead className="text-right">GP Catch-up</TableHead>
+                <TableHead className="text-right">LP Split</TableHead>
+                <TableHead className="text-right">GP Carry</TableHead>
+                <TableHead className="text-right">LP Total</TableHead>
+                <TableHead className="text-right">GP Total</TableHead>
+                {hasRuleDeductions && (
+                  <>
+                    <TableHead className="text-right">Tax / Other</TableHead>
+                    <TableHead className="text-right">LP Net</TableHead>
+                  </>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ruleRows.map(row => (
+                <TableRow key={row.year}>
+                  <TableCell className="font-medium">{row.year}</TableCell>
+                  <TableCell className="text-right text-red-600">${formatCurrency(row.contributions)}</TableCell>
+                  <TableCell className="text-right">${formatCurrency(row.proceeds)}</TableCell>
+                  <TableCell className="text-right">${formatCurrency(row.returnOfCapital)}</TableCell>
+                  <TableCell className="text-right">${formatCurrency(row.preferredReturn)}</TableCell>
+                  <TableCell className="text-right">${formatCurrency(row.gpCatchUp)}</TableCell>
+                  <TableCell className="text-right">${formatCurrency(row.lpSplit + row.lpCatchUp)}</TableCell>
+                  <TableCell className="text-right">${formatCurrency(row.gpCarry)}</TableCell>
+                  <TableCell className="text-right text-green-600">${formatCurrency(row.lpTotal)}</TableCell>
+                  <TableCell className="text-right">${formatCurrency(row.gpTotal)}</TableCell>
+                  {hasRuleDeductions && (
+                    <>
+                      <TableCell
+                        className="text-right"
+                        title={row.ruleDeductions
+                          .filter(d => d.ruleType === 'tax' || d.ruleType === 'other')
+                          .map(d => `${d.ruleName}: $${formatCurrency(d.amount)}`)
+                          .join('\n')}
+                      >
+                        ${formatCurrency(row.taxes + row.otherDeductions)}
+                      </TableCell>
+                      <TableCell className="text-right text-green-600">${formatCurrency(row.lpNet)}</TableCell>
+                    </>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
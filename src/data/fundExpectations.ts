@@ -1,10 +1,24 @@
-import { FundTypeExpectation, PortfolioScenario } from '../types'
+import {
+  FundTypeExpectation, PortfolioScenario, LiquidityStressScenario, GeneralFund, GeneralFundNetCashflow, ProjectionModel,
+  TakahashiAlexanderParams, CashflowGranularity, QuarterlySpreadRule, QuarterlySpreadRuleId, CashflowExpectation, FundRule
+} from '../types'
+import { defaultTakahashiAlexanderParams, projectTakahashiAlexander } from '../lib/takahashiAlexander'
+import { EVEN_QUARTER_WEIGHTS, spreadAnnualToQuarters } from '../lib/calendarAlignment'
+import { applyScenarioShocks, getScenarioShocks } from '../lib/scenarioShocks'
+import { applyFundRules } from '../lib/fundRules'
 
-// Industry-standard fund type expectations based on historical data
-export const fundTypeExpectations: FundTypeExpectation[] = [
+// Industry-standard fund type expectations based on historical data. This is the default fund type
+// library; the user's edited copy is persisted in the data store, and projections and forms pass it
+// to the helpers below. Each entry's Takahashi-Alexander parameters are fitted to its call and NAV
+// patterns (within about 5% of commitment a year) and return its avgMultiple. The distribution
+// patterns return 1.0x, so switching a fund to the Takahashi-Alexander model raises its distributions.
+export const defaultFundTypeExpectations: FundTypeExpectation[] = [
   {
+    id: 'private-equity',
     fundType: 'Private Equity',
     avgLifespan: 10,
+    managementFeeRate: 2.0,
+    carriedInterestRate: 20.0,
     // Typical PE call pattern: heavy in years 1-4, tapering off
     callPattern: [15, 25, 20, 15, 10, 8, 5, 2, 0, 0],
     // Typical PE distribution pattern: minimal early, heavy in years 5-8
@@ -16,11 +30,22 @@ export const fundTypeExpectations: FundTypeExpectation[] = [
     // Carried interest as % of distributions (typically 20%)
     carriedInterestPattern: [0, 0, 0, 0, 20, 20, 20, 20, 20, 20],
     avgMultiple: 2.2,
-    avgIRR: 15.5
+    avgIRR: 15.5,
+    projectionModel: 'pattern',
+    takahashiAlexander: {
+      contributionRates: [12.2, 23, 19.9],
+      bow: 1.67,
+      growthRate: 35,
+      yield: 2.2,
+      lifespan: 10
+    }
   },
   {
+    id: 'venture-capital',
     fundType: 'Venture Capital',
     avgLifespan: 10,
+    managementFeeRate: 2.5,
+    carriedInterestRate: 20.0,
     // VC call pattern: front-loaded with follow-on reserves
     callPattern: [20, 30, 25, 15, 5, 3, 2, 0, 0, 0],
     // VC distribution pattern: back-loaded, often lumpy
@@ -29,11 +54,22 @@ export const fundTypeExpectations: FundTypeExpectation[] = [
     managementFeePattern: [2.5, 2.5, 2.5, 2.5, 2.0, 2.0, 1.5, 1.5, 1.0, 1.0],
     carriedInterestPattern: [0, 0, 0, 30, 30, 30, 30, 30, 30, 30],
     avgMultiple: 3.1,
-    avgIRR: 18.2
+    avgIRR: 18.2,
+    projectionModel: 'pattern',
+    takahashiAlexander: {
+      contributionRates: [19, 33.3, 30.2],
+      bow: 2.03,
+      growthRate: 44.2,
+      yield: 30,
+      lifespan: 10
+    }
   },
   {
+    id: 'real-estate',
     fundType: 'Real Estate',
     avgLifespan: 8,
+    managementFeeRate: 1.5,
+    carriedInterestRate: 15.0,
     // Real estate: steady calls and distributions
     callPattern: [20, 25, 20, 15, 10, 5, 3, 2],
     distributionPattern: [5, 8, 12, 15, 20, 20, 15, 5],
@@ -41,11 +77,22 @@ export const fundTypeExpectations: FundTypeExpectation[] = [
     managementFeePattern: [1.5, 1.5, 1.5, 1.5, 1.0, 1.0, 0.5, 0.5],
     carriedInterestPattern: [0, 0, 20, 20, 20, 20, 20, 20],
     avgMultiple: 1.8,
-    avgIRR: 12.3
+    avgIRR: 12.3,
+    projectionModel: 'pattern',
+    takahashiAlexander: {
+      contributionRates: [14.3, 19.6, 21.1],
+      bow: 1.38,
+      growthRate: 41.8,
+      yield: 4.7,
+      lifespan: 8
+    }
   },
   {
+    id: 'infrastructure',
     fundType: 'Infrastructure',
     avgLifespan: 12,
+    managementFeeRate: 2.0,
+    carriedInterestRate: 15.0,
     // Infrastructure: steady, long-term pattern
     callPattern: [12, 18, 15, 12, 10, 8, 8, 6, 5, 3, 2, 1],
     distributionPattern: [2, 4, 6, 8, 10, 12, 14, 16, 14, 10, 8, 6],
@@ -53,11 +100,22 @@ export const fundTypeExpectations: FundTypeExpectation[] = [
     managementFeePattern: [1.5, 1.5, 1.5, 1.5, 1.5, 1.0, 1.0, 1.0, 1.0, 0.5, 0.5, 0.5],
     carriedInterestPattern: [0, 0, 0, 15, 15, 15, 15, 15, 15, 15, 15, 15],
     avgMultiple: 1.6,
-    avgIRR: 10.8
+    avgIRR: 10.8,
+    projectionModel: 'pattern',
+    takahashiAlexander: {
+      contributionRates: [12.5, 20, 17.3],
+      bow: 5.03,
+      growthRate: 20,
+      yield: 30,
+      lifespan: 12
+    }
   },
   {
+    id: 'credit',
     fundType: 'Credit',
     avgLifespan: 6,
+    managementFeeRate: 1.5,
+    carriedInterestRate: 10.0,
     // Credit: faster cycle, more regular distributions
     callPattern: [25, 30, 20, 15, 8, 2],
     distributionPattern: [8, 15, 20, 25, 20, 12],
@@ -65,11 +123,22 @@ export const fundTypeExpectations: FundTypeExpectation[] = [
     managementFeePattern: [1.0, 1.0, 1.0, 1.0, 0.5, 0.5],
     carriedInterestPattern: [10, 10, 10, 10, 10, 10],
     avgMultiple: 1.4,
-    avgIRR: 9.2
+    avgIRR: 9.2,
+    projectionModel: 'pattern',
+    takahashiAlexander: {
+      contributionRates: [18.9, 27.2, 32.3],
+      bow: 0.96,
+      growthRate: 38.2,
+      yield: 0,
+      lifespan: 6
+    }
   },
   {
+    id: 'hedge-fund',
     fundType: 'Hedge Fund',
     avgLifespan: 3,
+    managementFeeRate: 2.0,
+    carriedInterestRate: 20.0,
     // Hedge fund: liquid, regular pattern
     callPattern: [40, 35, 25],
     distributionPattern: [35, 35, 30],
@@ -77,10 +146,199 @@ export const fundTypeExpectations: FundTypeExpectation[] = [
     managementFeePattern: [2.0, 2.0, 2.0],
     carriedInterestPattern: [20, 20, 20],
     avgMultiple: 1.2,
-    avgIRR: 8.5
+    avgIRR: 8.5,
+    projectionModel: 'pattern',
+    takahashiAlexander: {
+      contributionRates: [39.2, 53.7, 100],
+      bow: 0.34,
+      growthRate: 60,
+      yield: 5,
+      lifespan: 3
+    }
+  },
+  {
+    id: 'fund-of-funds',
+    fundType: 'Fund of Funds',
+    avgLifespan: 12,
+    managementFeeRate: 1.0,
+    carriedInterestRate: 5.0,
+    // Fund of funds: underlying funds are committed over several years, so calls and distributions are spread out
+    callPattern: [10, 15, 18, 17, 14, 10, 7, 5, 3, 1, 0, 0],
+    distributionPattern: [0, 1, 3, 6, 10, 14, 17, 17, 14, 10, 6, 2],
+    navPattern: [10, 24, 38, 50, 56, 56, 50, 40, 30, 20, 10, 3],
+    managementFeePattern: [1.0, 1.0, 1.0, 1.0, 1.0, 1.0, 0.75, 0.75, 0.5, 0.5, 0.5, 0.5],
+    carriedInterestPattern: [0, 0, 0, 0, 5, 5, 5, 5, 5, 5, 5, 5],
+    avgMultiple: 1.8,
+    avgIRR: 13.0,
+    projectionModel: 'pattern',
+    takahashiAlexander: {
+      contributionRates: [9.9, 16.4, 27.1],
+      bow: 2.53,
+      growthRate: 22.3,
+      yield: 30,
+      lifespan: 12
+    }
+  },
+  {
+    id: 'secondary',
+    fundType: 'Secondary',
+    avgLifespan: 8,
+    managementFeeRate: 1.5,
+    carriedInterestRate: 10.0,
+    // Secondaries: capital is deployed quickly into mature assets, so distributions start early
+    callPattern: [35, 30, 20, 10, 5, 0, 0, 0],
+    distributionPattern: [8, 15, 20, 20, 17, 12, 6, 2],
+    navPattern: [30, 50, 55, 50, 38, 25, 12, 4],
+    managementFeePattern: [1.5, 1.5, 1.5, 1.5, 1.0, 1.0, 0.5, 0.5],
+    carriedInterestPattern: [10, 10, 10, 10, 10, 10, 10, 10],
+    avgMultiple: 1.6,
+    avgIRR: 14.5,
+    projectionModel: 'pattern',
+    takahashiAlexander: {
+      contributionRates: [28.8, 31.9, 30.5],
+      bow: 1.19,
+      growthRate: 26.5,
+      yield: 0,
+      lifespan: 8
+    }
+  },
+  {
+    id: 'co-investment',
+    fundType: 'Co-Investment',
+    avgLifespan: 7,
+    managementFeeRate: 0.5,
+    carriedInterestRate: 10.0,
+    // Co-investments: most capital is called at deal close
+    callPattern: [60, 30, 10, 0, 0, 0, 0],
+    distributionPattern: [0, 5, 15, 25, 30, 20, 5],
+    navPattern: [60, 90, 95, 80, 55, 25, 5],
+    managementFeePattern: [0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5],
+    carriedInterestPattern: [0, 0, 10, 10, 10, 10, 10],
+    avgMultiple: 2.0,
+    avgIRR: 17.0,
+    projectionModel: 'pattern',
+    takahashiAlexander: {
+      contributionRates: [57.5, 59.8, 29.6],
+      bow: 1.92,
+      growthRate: 25.9,
+      yield: 0,
+      lifespan: 7
+    }
+  },
+  {
+    id: 'private-equity--buyout',
+    fundType: 'Private Equity',
+    strategy: 'Buyout',
+    avgLifespan: 10,
+    managementFeeRate: 2.0,
+    carriedInterestRate: 20.0,
+    // Buyout: slightly slower deployment than the private equity average
+    callPattern: [12, 22, 22, 18, 12, 8, 4, 2, 0, 0],
+    distributionPattern: [0, 1, 4, 8, 14, 24, 22, 16, 8, 3],
+    navPattern: [12, 33, 52, 64, 70, 62, 48, 32, 16, 5],
+    managementFeePattern: [2.0, 2.0, 2.0, 2.0, 2.0, 1.5, 1.5, 1.0, 1.0, 0.5],
+    carriedInterestPattern: [0, 0, 0, 0, 20, 20, 20, 20, 20, 20],
+    avgMultiple: 2.1,
+    avgIRR: 15.0,
+    projectionModel: 'pattern',
+    takahashiAlexander: {
+      contributionRates: [9.7, 20, 22],
+      bow: 1.80,
+      growthRate: 32.3,
+      yield: 0,
+      lifespan: 10
+    }
+  },
+  {
+    id: 'private-equity--growth',
+    fundType: 'Private Equity',
+    strategy: 'Growth',
+    avgLifespan: 10,
+    managementFeeRate: 2.0,
+    carriedInterestRate: 20.0,
+    // Growth equity: faster calls into minority stakes, earlier distributions
+    callPattern: [20, 28, 22, 15, 8, 5, 2, 0, 0, 0],
+    distributionPattern: [0, 2, 6, 10, 16, 22, 20, 14, 7, 3],
+    navPattern: [20, 45, 62, 72, 72, 62, 46, 30, 15, 5],
+    managementFeePattern: [2.0, 2.0, 2.0, 2.0, 2.0, 1.5, 1.5, 1.0, 1.0, 0.5],
+    carriedInterestPattern: [0, 0, 0, 20, 20, 20, 20, 20, 20, 20],
+    avgMultiple: 2.4,
+    avgIRR: 17.0,
+    projectionModel: 'pattern',
+    takahashiAlexander: {
+      contributionRates: [19.7, 33.5, 36.3],
+      bow: 1.99,
+      growthRate: 33.7,
+      yield: 30,
+      lifespan: 10
+    }
+  },
+  {
+    id: 'credit--distressed',
+    fundType: 'Credit',
+    strategy: 'Distressed',
+    avgLifespan: 7,
+    managementFeeRate: 1.5,
+    carriedInterestRate: 20.0,
+    // Distressed debt: longer holds than direct lending, with equity-like carry
+    callPattern: [30, 30, 20, 12, 8, 0, 0],
+    distributionPattern: [2, 8, 15, 22, 25, 20, 8],
+    navPattern: [28, 50, 58, 52, 38, 20, 5],
+    managementFeePattern: [1.5, 1.5, 1.5, 1.5, 1.0, 1.0, 0.5],
+    carriedInterestPattern: [0, 0, 20, 20, 20, 20, 20],
+    avgMultiple: 1.6,
+    avgIRR: 13.0,
+    projectionModel: 'pattern',
+    takahashiAlexander: {
+      contributionRates: [25.8, 32.2, 32.8],
+      bow: 1.40,
+      growthRate: 28.9,
+      yield: 0.3,
+      lifespan: 7
+    }
   }
 ]
 
+// The library the helpers read: the user's library, or the defaults once every entry has been deleted
+const getActiveLibrary = (library: FundTypeExpectation[]) => (library.length > 0 ? library : defaultFundTypeExpectations)
+
+export const getFundTypeExpectationById = (library: FundTypeExpectation[], id: string) =>
+  getActiveLibrary(library).find(exp => exp.id === id) || null
+
+// Fund types in library order
+export const getFundTypes = (library: FundTypeExpectation[]) =>
+  Array.from(new Set(getActiveLibrary(library).map(exp => exp.fundType)))
+
+// Library curves of a fund type, the default curve and its sub-strategies
+export const getFundTypeCurves = (library: FundTypeExpectation[], fundType: string) =>
+  getActiveLibrary(library).filter(exp => exp.fundType === fundType)
+
+// Sub-strategies that have their own curve in the library
+export const getFundTypeStrategies = (library: FundTypeExpectation[], fundType: string) =>
+  getFundTypeCurves(library, fundType).filter(exp => exp.strategy).map(exp => exp.strategy as string)
+
+// Abbreviations used in upload files and fund types of earlier versions, mapped to a library fund type
+export const fundTypeAliases: Record<string, string> = {
+  'FOF': 'Fund of Funds',
+  'PE': 'Private Equity',
+  'VC': 'Venture Capital',
+  'RE': 'Real Estate',
+  'Infra': 'Infrastructure',
+  'Secondaries': 'Secondary',
+  'Buyout': 'Private Equity',
+  'Growth': 'Private Equity',
+  'Distressed': 'Credit'
+}
+
+// Resolve an uploaded fund type (case-insensitive, abbreviations allowed) to a library fund type
+export const resolveFundType = (library: FundTypeExpectation[], value: string): string | null => {
+  const normalized = value.trim().toLowerCase()
+  const known = getFundTypes(library).find(type => type.toLowerCase() === normalized)
+  if (known) return known
+  const alias = Object.keys(fundTypeAliases).find(key => key.toLowerCase() === normalized)
+  return alias ? fundTypeAliases[alias] : null
+}
+
 export const portfolioScenarios: PortfolioScenario[] = [
   {
     id: 'conservative',
@@ -105,17 +363,183 @@ export const portfolioScenarios: PortfolioScenario[] = [
   }
 ]
 
-// Helper function to get fund type expectation
-export const getFundTypeExpectation = (fundType: string): FundTypeExpectation | null => {
-  return fundTypeExpectations.find(exp => exp.fundType === fundType) || null
+// Liquidity stress scenarios for unfunded commitment coverage
+export const liquidityStressScenarios: LiquidityStressScenario[] = [
+  {
+    id: 'base',
+    name: 'Base Case',
+    callAcceleration: 0,
+    distributionReduction: 0,
+    durationYears: 0,
+    description: 'Calls and distributions follow the projected pattern'
+  },
+  {
+    id: 'gfc-2008',
+    name: '2008 Crisis',
+    callAcceleration: 30,
+    distributionReduction: 80,
+    durationYears: 2,
+    description: 'Calls accelerate by 30% and distributions almost freeze for two years, as in 2008-09'
+  },
+  {
+    id: 'severe',
+    name: 'Severe Freeze',
+    callAcceleration: 50,
+    distributionReduction: 100,
+    durationYears: 3,
+    description: 'Calls accelerate by 50% and distributions stop entirely for three years'
+  }
+]
+
+// Rules for spreading annual curves over quarters
+export const quarterlySpreadRules: QuarterlySpreadRule[] = [
+  {
+    id: 'even',
+    name: 'Even',
+    weights: EVEN_QUARTER_WEIGHTS,
+    description: 'A quarter of each annual amount in every quarter'
+  },
+  {
+    id: 'front-loaded',
+    name: 'Front-loaded',
+    weights: [0.4, 0.3, 0.2, 0.1],
+    description: 'Most of the year\'s flows early in the year (40/30/20/10)'
+  },
+  {
+    id: 'back-loaded',
+    name: 'Back-loaded',
+    weights: [0.1, 0.2, 0.3, 0.4],
+    description: 'Most of the year\'s flows late in the year (10/20/30/40)'
+  },
+  {
+    id: 'year-end',
+    name: 'Year-end',
+    weights: [0, 0, 0, 1],
+    description: 'All of the year\'s flows in the fourth quarter'
+  }
+]
+
+export const getQuarterlySpreadWeights = (ruleId: QuarterlySpreadRuleId) =>
+  (quarterlySpreadRules.find(rule => rule.id === ruleId) || quarterlySpreadRules[0]).weights
+
+// Helper function to get fund type expectation: the sub-strategy curve when the library has one,
+// otherwise the fund type's default curve. Fund types of earlier versions (e.g. 'Buyout') resolve
+// through the aliases to their fund type and sub-strategy.
+export const getFundTypeExpectation = (
+  library: FundTypeExpectation[],
+  fundType: string,
+  strategy?: string
+): FundTypeExpectation | null => {
+  const resolvedType = resolveFundType(library, fundType) || fundType
+  const candidates = getFundTypeCurves(library, resolvedType)
+  const strategies = [strategy, fundType].filter(Boolean).map(name => (name as string).trim().toLowerCase())
+  return candidates.find(exp => exp.strategy && strategies.includes(exp.strategy.toLowerCase()))
+    || candidates.find(exp => !exp.strategy)
+    || candidates[0]
+    || null
 }
 
-// Helper function to calculate expected cashflows for a fund
+// Helper function to resolve which projection model applies to a fund
+export const getProjectionModel = (
+  library: FundTypeExpectation[],
+  fund: { fundType: string; strategy?: string; projectionModel?: ProjectionModel }
+): ProjectionModel => {
+  return fund.projectionModel || getFundTypeExpectation(library, fund.fundType, fund.strategy)?.projectionModel || 'pattern'
+}
+
+// Helper function to resolve Takahashi-Alexander parameters (fund override, then fund type, then defaults)
+export const getTakahashiAlexanderParams = (
+  library: FundTypeExpectation[],
+  fund: { fundType: string; strategy?: string; takahashiAlexander?: TakahashiAlexanderParams }
+): TakahashiAlexanderParams => {
+  return fund.takahashiAlexander
+    || getFundTypeExpectation(library, fund.fundType, fund.strategy)?.takahashiAlexander
+    || defaultTakahashiAlexanderParams
+}
+
+// Helper function to calculate expected cashflows for a fund from the given fund type library. Annual
+// projections are stamped as quarter 4 (year-end); with quarterly granularity each year is spread over
+// its quarters. The fund's active rules, when given, are applied to every period.
 export const calculateExpectedCashflows = (
-  fund: { commitmentAmount: number; fundType: string; vintage: number },
-  scenario: PortfolioScenario = portfolioScenarios[1] // Default to neutral
+  library: FundTypeExpectation[],
+  fund: {
+    commitmentAmount: number
+    fundType: string
+    strategy?: string
+    vintage: number
+    projectionModel?: ProjectionModel
+    takahashiAlexander?: TakahashiAlexanderParams
+    expectationId?: string // Library curve chosen for this position; replaces the fund's own model
+  },
+  scenario: PortfolioScenario = portfolioScenarios[1], // Default to neutral
+  options: { granularity?: CashflowGranularity; spreadRule?: QuarterlySpreadRuleId; rules?: FundRule[] } = {}
+): CashflowExpectation[] => {
+  const cashflows = calculateExpectedCashflowsBeforeRules(library, fund, scenario, options)
+  if (!options.rules || options.rules.length === 0) return cashflows
+  return applyFundRules(cashflows, options.rules, fund.commitmentAmount, {
+    periodsPerYear: options.granularity === 'quarterly' ? 4 : 1
+  })
+}
+
+const calculateExpectedCashflowsBeforeRules = (
+  library: FundTypeExpectation[],
+  fund: Parameters<typeof calculateExpectedCashflows>[1],
+  scenario: PortfolioScenario,
+  options: { granularity?: CashflowGranularity; spreadRule?: QuarterlySpreadRuleId }
+): CashflowExpectation[] => {
+  const annualCashflows = applyScenarioShocksToProjection(
+    library,
+    fund,
+    calculateAnnualExpectedCashflows(library, fund, scenario),
+    scenario
+  )
+  if (options.granularity !== 'quarterly') return annualCashflows
+
+  const weights = getQuarterlySpreadWeights(options.spreadRule || 'even')
+  let previousNav = 0
+  return annualCashflows.flatMap(cf => {
+    const quarters = spreadAnnualToQuarters(
+      { contributions: cf.calls, distributions: cf.distributions, nav: cf.nav },
+      previousNav,
+      weights
+    )
+    previousNav = cf.nav
+    return quarters.map(q => ({
+      year: cf.year,
+      quarter: q.quarter,
+      calls: q.contributions,
+      distributions: q.distributions,
+      nav: q.nav,
+      isProjected: true
+    }))
+  })
+}
+
+const calculateAnnualExpectedCashflows = (
+  library: FundTypeExpectation[],
+  fund: Parameters<typeof calculateExpectedCashflows>[1],
+  scenario: PortfolioScenario
 ) => {
-  const expectation = getFundTypeExpectation(fund.fundType)
+  const selectedExpectation = fund.expectationId ? getFundTypeExpectationById(library, fund.expectationId) : null
+  const projectionModel = selectedExpectation
+    ? selectedExpectation.projectionModel || 'pattern'
+    : getProjectionModel(library, fund)
+
+  if (projectionModel === 'takahashi-alexander') {
+    const params = selectedExpectation
+      ? selectedExpectation.takahashiAlexander || defaultTakahashiAlexanderParams
+      : getTakahashiAlexanderParams(library, fund)
+    return projectTakahashiAlexander(fund.commitmentAmount, params).map(projection => ({
+      year: fund.vintage + projection.year - 1,
+      quarter: 4, // Assume year-end for projections
+      calls: projection.contributions,
+      distributions: projection.distributions * scenario.multiplier,
+      nav: projection.nav * scenario.multiplier,
+      isProjected: true
+    }))
+  }
+
+  const expectation = selectedExpectation || getFundTypeExpectation(library, fund.fundType, fund.strategy)
   if (!expectation) return []
 
   const expectedCashflows = []
@@ -137,4 +561,41 @@ export const calculateExpectedCashflows = (
   }
   
   return expectedCashflows
-}
\ No newline at end of file
+}
+
+// Scenario shocks on top of an annual projection (the scenario multiplier is already applied)
+const applyScenarioShocksToProjection = (
+  library: FundTypeExpectation[],
+  fund: { fundType: string },
+  cashflows: ReturnType<typeof calculateAnnualExpectedCashflows>,
+  scenario: PortfolioScenario
+) => {
+  const shocks = getScenarioShocks(scenario, resolveFundType(library, fund.fundType) || fund.fundType)
+  if (!shocks || cashflows.length === 0) return cashflows
+
+  return applyScenarioShocks(cashflows, shocks).map((period, i) => ({
+    year: cashflows[0].year + i,
+    quarter: 4, // Assume year-end for projections
+    ...period,
+    isProjected: true
+  }))
+}
+
+// Helper function to project a general fund's net cashflow curve (as fractions of commitment, relative years)
+// Used wherever a fund has no uploaded GeneralFundNetCashflow rows, or with the library curve chosen for a position
+export const calculateProjectedNetCashflowCurve = (
+  library: FundTypeExpectation[],
+  fund: GeneralFund,
+  expectationId?: string
+): Omit<GeneralFundNetCashflow, 'id' | 'createdAt' | 'updatedAt' | 'userId'>[] => {
+  const projectedCashflows = calculateExpectedCashflows(library, { ...fund, commitmentAmount: 1, expectationId })
+
+  return projectedCashflows.map(cf => ({
+    fundId: fund.id,
+    year: cf.year - fund.vintage + 1,
+    netCashflowPercentage: cf.distributions - cf.calls,
+    contributionsPercentage: -cf.calls,
+    distributionsPercentage: cf.distributions,
+    navPercentage: cf.nav
+  }))
+}
@@ -0,0 +1,122 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { CollectionName, PersistedCollections, ensureLocalStorageMigrated, listRecords, syncRecords } from '../blink/dataAccess'
+import { toast } from './use-toast'
+
+type Identified = { id: string }
+
+// Replay the edits made between base and edited onto records loaded since: changed and new records
+// replace or join the loaded ones by id, removed ones are dropped
+const mergeEdits = <T extends Identified>(base: T[], edited: T[], loaded: T[]): T[] => {
+  const baseById = new Map(base.map(record => [record.id, JSON.stringify(record)]))
+  const editedIds = new Set(edited.map(record => record.id))
+  const removedIds = new Set(base.filter(record => !editedIds.has(record.id)).map(record => record.id))
+  const changed = new Map(
+    edited.filter(record => baseById.get(record.id) !== JSON.stringify(record)).map(record => [record.id, record])
+  )
+
+  const merged = loaded.filter(record => !removedIds.has(record.id)).map(record => changed.get(record.id) || record)
+  const loadedIds = new Set(loaded.map(record => record.id))
+  return [...merged, ...Array.from(changed.values()).filter(record => !loadedIds.has(record.id))]
+}
+
+// 'generalFundCashflows' -> 'general fund cashflows'
+const toLabel = (name: CollectionName) => name.replace(/([A-Z])/g, ' $1').toLowerCase()
+
+// Same shape as useLocalStorage, but the collection is loaded from and written to the Blink backend.
+// initialValue is shown until the first load and whenever the user has no records yet. Edits made
+// before the first load are kept on screen and merged into the loaded records by id. error is set
+// while the collection cannot be loaded or saved; retry loads or saves again.
+export function useBlinkCollection<K extends CollectionName>(name: K, initialValue: PersistedCollections[K][]) {
+  const [storedValue, setStoredValue] = useState<PersistedCollections[K][]>(initialValue)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [loadAttempt, setLoadAttempt] = useState(0)
+  const initialValueRef = useRef(initialValue)
+  const loaded = useRef(false)
+  const editedBeforeLoad = useRef(false)
+  const syncing = useRef(false)
+  const persistedValue = useRef<PersistedCollections[K][]>([]) // What the backend holds
+  const latestValue = useRef<PersistedCollections[K][]>(initialValue) // What the user last set
+
+  // Save until the backend holds the latest value. One sync runs at a time and the backend copy
+  // only moves forward once a sync succeeds, so a failed save is diffed again on the next attempt.
+  const flush = useCallback(async () => {
+    if (syncing.current || !loaded.current) return
+    syncing.current = true
+    try {
+      while (persistedValue.current !== latestValue.current) {
+        const next = latestValue.current
+        await syncRecords(name, persistedValue.current, next)
+        persistedValue.current = next
+      }
+      setError(null)
+    } catch (err) {
+      console.error(`Error saving "${name}" to the backend:`, err)
+      setError(`Changes to ${toLabel(name)} could not be saved`)
+      toast({
+        title: "Changes Not Saved",
+        description: `Your latest changes to ${toLabel(name)} are only on this page. Retry from the banner at the top.`,
+        variant: 'destructive'
+      })
+    } finally {
+      syncing.current = false
+    }
+  }, [name])
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        await ensureLocalStorageMigrated()
+        const records = await listRecords(name)
+        if (cancelled) return
+        persistedValue.current = records
+        loaded.current = true
+        setError(null)
+
+        if (editedBeforeLoad.current) {
+          const shown = records.length > 0 ? records : initialValueRef.current
+          latestValue.current = mergeEdits(initialValueRef.current, latestValue.current, shown)
+          setStoredValue(latestValue.current)
+          flush()
+        } else if (records.length > 0) {
+          latestValue.current = records
+          setStoredValue(records)
+        }
+      } catch (err) {
+        console.error(`Error loading "${name}" from the backend:`, err)
+        if (!cancelled) setError(`Saved ${toLabel(name)} could not be loaded`)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => { cancelled = true }
+  }, [name, loadAttempt, flush])
+
+  // Update local state immediately and persist it in the background once the collection has loaded
+  const setValue = (value: PersistedCollections[K][] | ((val: PersistedCollections[K][]) => PersistedCollections[K][])) => {
+    const valueToStore = value instanceof Function ? value(latestValue.current) : value
+    latestValue.current = valueToStore
+    setStoredValue(valueToStore)
+
+    if (loaded.current) {
+      flush()
+    } else {
+      editedBeforeLoad.current = true
+    }
+  }
+
+  const retry = () => {
+    if (loaded.current) {
+      flush()
+    } else {
+      setLoading(true)
+      setLoadAttempt(attempt => attempt + 1)
+    }
+  }
+
+  return [storedValue, setValue, loading, { error, retry }] as const
+}
@@ -0,0 +1,103 @@
+import { createContext, useContext } from 'react'
+import {
+  Fund, Cashflow, Client, ClientFundPosition, FundCashflowTemplate, FundRule, ExcelTemplate, ExcelCashflowUpload,
+  GeneralFund, GeneralFundNetCashflow, GeneralFundUpload, Portfolio, PortfolioPosition, FundTypeExpectation,
+  PortfolioScenario, Household, BenchmarkIndexLevel, BenchmarkIndexObservation
+} from '../types'
+
+export type NewRecord<T> = Omit<T, 'id' | 'createdAt' | 'updatedAt' | 'userId'>
+
+// A new fund with its yearly cashflow rows; fundId is filled in once the fund has an id
+export interface NewGeneralFundEntry {
+  fund: NewRecord<GeneralFund>
+  cashflows: Omit<NewRecord<GeneralFundNetCashflow>, 'fundId'>[]
+}
+
+// A new portfolio with its positions; portfolioId is filled in once the portfolio has an id
+export interface NewPortfolioEntry {
+  portfolio: NewRecord<Portfolio>
+  positions: Omit<NewRecord<PortfolioPosition>, 'portfolioId'>[]
+}
+
+export interface DataStore {
+  loading: boolean
+  syncErrors: string[] // Collections that could not be loaded from or saved to the backend
+  retrySync: () => void
+
+  // General fund database
+  generalFunds: GeneralFund[]
+  generalFundCashflows: GeneralFundNetCashflow[]
+  addGeneralFund: (fundData: NewRecord<GeneralFund>) => GeneralFund
+  addGeneralFundCashflows: (cashflows: NewRecord<GeneralFundNetCashflow>[]) => void
+  addGeneralFundsWithCashflows: (entries: NewGeneralFundEntry[]) => GeneralFund[]
+  bulkUploadGeneralFund: (upload: GeneralFundUpload) => GeneralFund
+  bulkUploadGeneralFunds: (uploads: GeneralFundUpload[]) => GeneralFund[]
+  updateGeneralFund: (id: string, updates: Partial<GeneralFund>) => void
+  deleteGeneralFund: (id: string) => void
+  getGeneralFundCashflows: (fundId: string) => GeneralFundNetCashflow[]
+
+  // Portfolios
+  portfolios: Portfolio[]
+  portfolioPositions: PortfolioPosition[]
+  createPortfolio: (portfolioData: NewRecord<Portfolio>) => Portfolio
+  updatePortfolio: (id: string, updates: Partial<Portfolio>) => void
+  addPortfoliosWithPositions: (entries: NewPortfolioEntry[]) => Portfolio[]
+  clonePortfolio: (id: string, name: string) => Portfolio
+  deletePortfolio: (id: string) => void
+  addPosition: (positionData: NewRecord<PortfolioPosition>) => PortfolioPosition
+  removePosition: (positionId: string) => void
+  updatePosition: (positionId: string, updates: Partial<PortfolioPosition>) => void
+  updatePositions: (updatesById: Record<string, Partial<PortfolioPosition>>) => void
+  getPortfolioPositions: (portfolioId: string) => PortfolioPosition[]
+
+  // Clients, including archived ones, and the households they are grouped into
+  clients: Client[]
+  createClient: (clientData: NewRecord<Client>) => Client
+  updateClient: (id: string, updates: Partial<Client>) => void
+  households: Household[]
+  createHousehold: (householdData: NewRecord<Household>) => Household
+  updateHousehold: (id: string, updates: Partial<Household>) => void
+  deleteHousehold: (id: string) => void
+  clientPositions: ClientFundPosition[]
+  getClientPositions: (clientId: string) => ClientFundPosition[]
+
+  // Fund type library (expected curves per fund type and sub-strategy)
+  fundTypeLibrary: FundTypeExpectation[]
+  saveFundTypeExpectation: (expectation: Omit<FundTypeExpectation, 'id'> & { id?: string }) => FundTypeExpectation
+  deleteFundTypeExpectation: (id: string) => void
+  resetFundTypeLibrary: () => void
+
+  // Projection scenarios: the built-in scenarios followed by the user's own
+  scenarios: PortfolioScenario[]
+  saveScenario: (scenario: Omit<PortfolioScenario, 'id'> & { id?: string }) => PortfolioScenario
+  deleteScenario: (id: string) => void
+
+  // Public market index levels used as the PME benchmark (empty when none has been entered)
+  benchmarkIndex: BenchmarkIndexLevel[]
+  saveBenchmarkIndex: (levels: BenchmarkIndexObservation[]) => void
+
+  // Legacy funds, templates and rules
+  funds: Fund[]
+  cashflows: Cashflow[]
+  cashflowTemplates: FundCashflowTemplate[]
+  fundRules: FundRule[]
+  addFund: (fundData: NewRecord<Fund>) => Fund
+  addCashflow: (cashflowData: NewRecord<Cashflow>) => Cashflow
+  importExcelTemplate: (template: ExcelTemplate) => Fund
+  uploadExcelCashflows: (uploads: ExcelCashflowUpload[]) => void
+  addCashflowTemplate: (template: NewRecord<FundCashflowTemplate>) => void
+  addFundRule: (rule: NewRecord<FundRule>) => void
+  updateFundRule: (id: string, updates: Partial<FundRule>) => void
+  deleteFundRule: (id: string) => void
+}
+
+export const DataStoreContext = createContext<DataStore | null>(null)
+
+// Shared application data and actions, provided by DataStoreProvider
+export function useDataStore() {
+  const store = useContext(DataStoreContext)
+  if (!store) {
+    throw new Error('useDataStore must be used within a DataStoreProvider')
+  }
+  return store
+}
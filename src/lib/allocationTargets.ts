@@ -0,0 +1,100 @@
+import {
+  AllocationDimension, AllocationStatus, AllocationTarget, AllocationTargetCheck, FundTypeExpectation, GeneralFund,
+  PortfolioPosition
+} from '../types'
+import { resolveFundType } from '../data/fundExpectations'
+import { CalendarCashflow } from './calendarAlignment'
+import { getNavAtYearEnd } from './portfolioCashflows'
+
+// A position with its fund and projected NAV, as checked against the targets
+export interface AllocationHolding {
+  position: PortfolioPosition
+  fund?: GeneralFund
+  nav: number
+}
+
+export const allocationDimensions: { id: AllocationDimension; label: string }[] = [
+  { id: 'fundType', label: 'Fund Type' },
+  { id: 'strategy', label: 'Strategy' },
+  { id: 'geography', label: 'Geography' },
+  { id: 'vintage', label: 'Vintage Year' }
+]
+
+export const getAllocationDimensionLabel = (dimension: AllocationDimension) =>
+  allocationDimensions.find(d => d.id === dimension)?.label || dimension
+
+// Value of a fund for a dimension; fund types resolve to their library name
+export const getAllocationValue = (
+  fund: GeneralFund | undefined,
+  dimension: AllocationDimension,
+  library: FundTypeExpectation[]
+) => {
+  if (!fund) return 'Unknown'
+  switch (dimension) {
+    case 'fundType':
+      return resolveFundType(library, fund.fundType) || fund.fundType
+    case 'strategy':
+      return fund.strategy || 'Unknown'
+    case 'geography':
+      return fund.geography || 'Unknown'
+    case 'vintage':
+      return String(fund.vintage)
+  }
+}
+
+const matches = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+export const getAllocationStatus = (share: number, target: Pick<AllocationTarget, 'min' | 'max'>): AllocationStatus => {
+  if (target.min !== undefined && share < target.min) return 'below'
+  if (target.max !== undefined && share > target.max) return 'above'
+  return 'within'
+}
+
+// Committed and projected-NAV share of the holdings matching each target, with the band status
+export const checkAllocationTargets = (
+  targets: AllocationTarget[],
+  holdings: AllocationHolding[],
+  library: FundTypeExpectation[]
+): AllocationTargetCheck[] => {
+  const totalCommitment = holdings.reduce((sum, h) => sum + h.position.commitmentAmount, 0)
+  const totalNav = holdings.reduce((sum, h) => sum + h.nav, 0)
+
+  return targets.map(target => {
+    const matching = holdings.filter(h => matches(getAllocationValue(h.fund, target.dimension, library), target.value))
+    const committed = matching.reduce((sum, h) => sum + h.position.commitmentAmount, 0)
+    const nav = matching.reduce((sum, h) => sum + h.nav, 0)
+
+    const committedShare = totalCommitment > 0 ? (committed / totalCommitment) * 100 : 0
+    const navShare = totalNav > 0 ? (nav / totalNav) * 100 : undefined
+    return {
+      target,
+      committedShare,
+      committedStatus: getAllocationStatus(committedShare, target),
+      navShare,
+      navStatus: navShare !== undefined ? getAllocationStatus(navShare, target) : undefined
+    }
+  })
+}
+
+// Targets whose committed or projected-NAV exposure is outside the band
+export const getAllocationBreaches = (checks: AllocationTargetCheck[]) =>
+  checks.filter(check => check.committedStatus !== 'within' || (check.navStatus && check.navStatus !== 'within'))
+
+export const formatAllocationBand = (target: Pick<AllocationTarget, 'min' | 'max'>) => {
+  if (target.min !== undefined && target.max !== undefined) return `${target.min}-${target.max}%`
+  if (target.min !== undefined) return `≥ ${target.min}%`
+  if (target.max !== undefined) return `≤ ${target.max}%`
+  return 'Any'
+}
+
+// Holdings of a portfolio with the projected NAV of each position at the end of a calendar year
+export const buildAllocationHoldings = (
+  positions: PortfolioPosition[],
+  generalFunds: GeneralFund[],
+  getCashflows: (position: PortfolioPosition) => CalendarCashflow[],
+  navYear: number
+): AllocationHolding[] => positions.map(position => ({
+  position,
+  fund: generalFunds.find(f => f.id === position.fundId),
+  nav: getNavAtYearEnd(getCashflows(position), navYear)
+}))
@@ -0,0 +1,39 @@
+import { BenchmarkIndexObservation } from '../types'
+import { parseCsv, toNumber } from './workbook'
+
+export interface BenchmarkIndexParseResult {
+  levels: BenchmarkIndexObservation[] // Sorted by date, one per date (the last row wins)
+  errors: string[] // One message per line that could not be read
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+// Read "date,value" lines pasted or imported from a CSV file (tab separated lines from a spreadsheet
+// work too). Dates are ISO (YYYY-MM-DD); a header line at the top is skipped.
+export const parseBenchmarkIndex = (text: string): BenchmarkIndexParseResult => {
+  const byDate = new Map<string, number>()
+  const errors: string[] = []
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '' || line.trim().startsWith('#')) return
+    const [dateCell = '', valueCell = ''] = line.includes('\t') ? line.split('\t') : parseCsv(line)[0]
+    const date = dateCell.trim()
+    const value = toNumber(valueCell.trim())
+
+    if (index === 0 && value === undefined && !ISO_DATE.test(date)) return
+    if (!ISO_DATE.test(date) || isNaN(new Date(date).getTime())) {
+      errors.push(`Line ${index + 1}: "${date}" is not a YYYY-MM-DD date`)
+    } else if (value === undefined || value <= 0) {
+      errors.push(`Line ${index + 1}: index level must be a positive number`)
+    } else {
+      byDate.set(date, value)
+    }
+  })
+
+  const levels = Array.from(byDate, ([date, value]) => ({ date, value }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+  return { levels, errors }
+}
+
+export const formatBenchmarkIndex = (levels: BenchmarkIndexObservation[]) =>
+  levels.map(level => `${level.date},${level.value}`).join('\n')
@@ -0,0 +1,145 @@
+import { CashflowGranularity, GeneralFund, GeneralFundNetCashflow, PortfolioPosition, WaterfallChartData } from '../types'
+
+// Relative-year curve rows as stored in the general database (fractions of commitment)
+type RelativeCurve = Pick<
+  GeneralFundNetCashflow, 'year' | 'quarter' | 'contributionsPercentage' | 'distributionsPercentage' | 'navPercentage'
+>[]
+
+// A cashflow placed on the calendar (amounts in commitment currency)
+export interface CalendarCashflow {
+  year: number
+  quarter: number // 1-4
+  contributions: number // Always negative or zero
+  distributions: number // Always positive or zero
+  nav: number // NAV at the end of the quarter
+}
+
+export interface CalendarStart {
+  year: number
+  quarter: number
+}
+
+// Commitment date of a position, falling back to the start of the fund's vintage year
+export const getCommitmentStart = (
+  position: Pick<PortfolioPosition, 'commitmentDate'>,
+  fund?: Pick<GeneralFund, 'vintage'>
+): CalendarStart => {
+  // Date-only ISO strings parse as UTC midnight, so read them back in UTC to keep the calendar day
+  const date = position.commitmentDate ? new Date(position.commitmentDate) : null
+  if (date && !isNaN(date.getTime())) {
+    return { year: date.getUTCFullYear(), quarter: Math.floor(date.getUTCMonth() / 3) + 1 }
+  }
+  return { year: fund?.vintage || new Date().getFullYear(), quarter: 1 }
+}
+
+// Sortable index for a calendar quarter
+export const toQuarterIndex = (year: number, quarter: number) => year * 4 + (quarter - 1)
+
+export const fromQuarterIndex = (index: number): CalendarStart => ({
+  year: Math.floor(index / 4),
+  quarter: (index % 4) + 1
+})
+
+export const EVEN_QUARTER_WEIGHTS = [0.25, 0.25, 0.25, 0.25]
+
+// Split one year of flows over its quarters by the given weights. NAV moves from the previous
+// year-end value in step with the cumulative weight, reaching the year-end value in Q4.
+export const spreadAnnualToQuarters = (
+  annual: { contributions: number; distributions: number; nav: number },
+  previousNav: number,
+  weights: number[] = EVEN_QUARTER_WEIGHTS
+) => {
+  let cumulativeWeight = 0
+  return weights.map((weight, index) => {
+    cumulativeWeight += weight
+    return {
+      quarter: index + 1,
+      contributions: annual.contributions * weight,
+      distributions: annual.distributions * weight,
+      nav: index === weights.length - 1 ? annual.nav : previousNav + (annual.nav - previousNav) * cumulativeWeight
+    }
+  })
+}
+
+// Map a relative-year curve onto calendar quarters. Relative year 1 covers the four quarters
+// starting with the commitment quarter. Quarterly rows are placed as they are; annual rows are
+// spread over their four quarters by the quarter weights.
+export const alignCurveToCalendar = (
+  curve: RelativeCurve,
+  commitmentAmount: number,
+  start: CalendarStart,
+  quarterWeights: number[] = EVEN_QUARTER_WEIGHTS
+): CalendarCashflow[] => {
+  const startIndex = toQuarterIndex(start.year, start.quarter)
+  const sortedCurve = [...curve].sort((a, b) => a.year - b.year || (a.quarter || 0) - (b.quarter || 0))
+  const calendarCashflows: CalendarCashflow[] = []
+  let previousNav = 0
+
+  sortedCurve.forEach(row => {
+    const amounts = {
+      contributions: commitmentAmount * row.contributionsPercentage,
+      distributions: commitmentAmount * row.distributionsPercentage,
+      nav: commitmentAmount * row.navPercentage
+    }
+    const firstQuarterIndex = startIndex + (row.year - 1) * 4
+    const quarters = row.quarter
+      ? [{ ...amounts, quarter: row.quarter }]
+      : spreadAnnualToQuarters(amounts, previousNav, quarterWeights)
+
+    quarters.forEach(q => {
+      calendarCashflows.push({
+        ...fromQuarterIndex(firstQuarterIndex + q.quarter - 1),
+        contributions: q.contributions,
+        distributions: q.distributions,
+        nav: q.nav
+      })
+    })
+    previousNav = amounts.nav
+  })
+
+  return calendarCashflows
+}
+
+// Sum calendar cashflows by year or by quarter into waterfall rows with running cumulative net
+export const aggregateCalendarCashflows = (
+  cashflows: CalendarCashflow[],
+  granularity: CashflowGranularity = 'annual'
+): WaterfallChartData[] => {
+  const periods = new Map<number, { contributions: number; distributions: number }>()
+
+  cashflows.forEach(cf => {
+    const key = granularity === 'annual' ? cf.year : toQuarterIndex(cf.year, cf.quarter)
+    const period = periods.get(key) || { contributions: 0, distributions: 0 }
+    period.contributions += cf.contributions
+    period.distributions += cf.distributions
+    periods.set(key, period)
+  })
+
+  // NAV is a stock: take each curve's value at the end of the period
+  const navByPeriodEnd = new Map<number, number>()
+  cashflows.forEach(cf => {
+    const key = toQuarterIndex(cf.year, cf.quarter)
+    navByPeriodEnd.set(key, (navByPeriodEnd.get(key) || 0) + cf.nav)
+  })
+
+  let cumulativeNet = 0
+  return Array.from(periods.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([key, period]) => {
+      const { year, quarter } = granularity === 'annual' ? { year: key, quarter: undefined } : fromQuarterIndex(key)
+      const endIndex = granularity === 'annual' ? toQuarterIndex(key, 4) : key
+      const netCashflow = period.contributions + period.distributions
+      cumulativeNet += netCashflow
+
+      return {
+        year,
+        quarter,
+        period: quarter ? `${year} Q${quarter}` : String(year),
+        contributions: period.contributions,
+        distributions: period.distributions,
+        netCashflow,
+        cumulativeNet,
+        nav: navByPeriodEnd.get(endIndex) || 0
+      }
+    })
+}
@@ -0,0 +1,75 @@
+import { Client, ClientEntityType, Portfolio, PortfolioPosition } from '../types'
+
+export const clientEntityTypes: { id: ClientEntityType; label: string }[] = [
+  { id: 'individual', label: 'Individual' },
+  { id: 'trust', label: 'Trust' },
+  { id: 'company', label: 'Holding Company' },
+  { id: 'foundation', label: 'Foundation' },
+  { id: 'pension', label: 'Pension Fund' },
+  { id: 'endowment', label: 'Endowment' }
+]
+
+export const baseCurrencies = ['USD', 'EUR', 'GBP', 'CHF', 'JPY', 'AUD', 'CAD', 'SGD']
+
+export const getClientEntityTypeLabel = (entityType?: ClientEntityType) =>
+  clientEntityTypes.find(t => t.id === entityType)?.label || 'N/A'
+
+export const isClientActive = (client: Client) => !client.archivedAt
+
+// Commitments and mandate amounts of clients in one base currency
+export interface ClientCurrencyExposure {
+  currency: string
+  totalCommitment: number
+  investableAssets: number
+  annualLiquidityNeed: number
+  targetAmount?: number // Undefined when no client in this currency has a mandate
+  commitmentGap?: number // Positive while under-committed
+  privateMarketsShare?: number // Commitments as % of investable assets
+}
+
+// Clients without a mandate are taken to be in US dollars
+const getClientCurrency = (client: Client) => client.mandate?.baseCurrency || 'USD'
+
+// Portfolios and commitments linked to one or more clients, against their private-markets targets.
+// Amounts are never added across currencies: a client's portfolios count in its base currency and
+// every currency gets its own totals. Targets only count for clients with a mandate.
+export const getClientExposure = (
+  clients: Client[],
+  portfolios: Portfolio[],
+  portfolioPositions: PortfolioPosition[]
+) => {
+  const currencyByClient = new Map(clients.map(client => [client.id, getClientCurrency(client)]))
+  const clientPortfolios = portfolios.filter(portfolio => portfolio.clientId && currencyByClient.has(portfolio.clientId))
+  const currencyByPortfolio = new Map(clientPortfolios.map(portfolio => [portfolio.id, currencyByClient.get(portfolio.clientId!)!]))
+
+  const totals = new Map<string, Omit<ClientCurrencyExposure, 'commitmentGap' | 'privateMarketsShare'>>()
+  const totalsFor = (currency: string) => {
+    if (!totals.has(currency)) {
+      totals.set(currency, { currency, totalCommitment: 0, investableAssets: 0, annualLiquidityNeed: 0 })
+    }
+    return totals.get(currency)!
+  }
+
+  clients.forEach(client => {
+    const entry = totalsFor(getClientCurrency(client))
+    if (!client.mandate) return
+    entry.investableAssets += client.mandate.totalInvestableAssets
+    entry.annualLiquidityNeed += client.mandate.annualLiquidityNeed
+    entry.targetAmount = (entry.targetAmount || 0) + client.mandate.totalInvestableAssets * (client.mandate.privateMarketsTarget / 100)
+  })
+  portfolioPositions.forEach(pos => {
+    const currency = currencyByPortfolio.get(pos.portfolioId)
+    if (currency) totalsFor(currency).totalCommitment += pos.commitmentAmount
+  })
+
+  const byCurrency: ClientCurrencyExposure[] = Array.from(totals.values()).map(entry => ({
+    ...entry,
+    commitmentGap: entry.targetAmount !== undefined ? entry.targetAmount - entry.totalCommitment : undefined,
+    privateMarketsShare: entry.investableAssets > 0 ? (entry.totalCommitment / entry.investableAssets) * 100 : undefined
+  }))
+
+  return {
+    portfolios: clientPortfolios,
+    byCurrency
+  }
+}
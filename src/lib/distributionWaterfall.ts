@@ -0,0 +1,203 @@
+import { FundRule, FundRuleDeduction } from '../types'
+
+// Whole-fund distribution waterfall: gross proceeds go to return of capital, preferred return,
+// GP catch-up and the carried interest split, in that order
+
+export interface WaterfallFlow {
+  date: string // ISO date
+  contribution: number // LP capital paid in
+  proceeds: number // Gross proceeds available for distribution
+}
+
+export interface DistributionWaterfallTerms {
+  carriedInterestRate: number // GP share of profit, %
+  hurdleRate: number // Annual preferred return compounding on unreturned capital and unpaid preferred return, %
+  catchUpRate: number // Share of proceeds to the GP after the preferred return until it holds its carry share, %
+}
+
+// Amounts each tier received in one calendar year
+export interface WaterfallYearRow {
+  year: number
+  contributions: number
+  proceeds: number
+  returnOfCapital: number
+  preferredReturn: number
+  lpCatchUp: number // LP part of catch-up proceeds when the catch-up is below 100%
+  gpCatchUp: number
+  lpSplit: number
+  gpCarry: number
+  lpTotal: number
+  gpTotal: number
+}
+
+export interface DistributionWaterfallResult {
+  rows: WaterfallYearRow[]
+  totals: Omit<WaterfallYearRow, 'year'>
+  unreturnedCapital: number // Capital still owed to the LP after the last proceeds
+  unpaidPreferredReturn: number
+  gpShareOfProfit?: number // GP's share of profit distributed, %; undefined without profit
+}
+
+const DAYS_PER_YEAR = 365
+
+const emptyRow = (year: number): WaterfallYearRow => ({
+  year,
+  contributions: 0,
+  proceeds: 0,
+  returnOfCapital: 0,
+  preferredReturn: 0,
+  lpCatchUp: 0,
+  gpCatchUp: 0,
+  lpSplit: 0,
+  gpCarry: 0,
+  lpTotal: 0,
+  gpTotal: 0
+})
+
+export const calculateDistributionWaterfall = (
+  flows: WaterfallFlow[],
+  terms: DistributionWaterfallTerms
+): DistributionWaterfallResult => {
+  const carry = terms.carriedInterestRate / 100
+  const catchUp = terms.catchUpRate / 100
+  const datedFlows = flows
+    .map(flow => ({ ...flow, time: new Date(flow.date).getTime() }))
+    .filter(flow => !isNaN(flow.time))
+    .sort((a, b) => a.time - b.time)
+
+  const rows = new Map<number, WaterfallYearRow>()
+  let unreturnedCapital = 0
+  let unpaidPreferredReturn = 0
+  let profitDistributed = 0 // Preferred return, catch-up and split paid to date
+  let gpReceived = 0
+  let lastTime: number | null = null
+
+  datedFlows.forEach(flow => {
+    if (lastTime !== null) {
+      const years = (flow.time - lastTime) / (DAYS_PER_YEAR * 24 * 60 * 60 * 1000)
+      unpaidPreferredReturn += (unreturnedCapital + unpaidPreferredReturn) * (Math.pow(1 + terms.hurdleRate / 100, years) - 1)
+    }
+    lastTime = flow.time
+
+    // ISO dates parse as UTC midnight; a local year would move 1 January into the year before west of UTC
+    const year = new Date(flow.time).getUTCFullYear()
+    const row = rows.get(year) || emptyRow(year)
+    rows.set(year, row)
+
+    // Contributions on a date come in before that date's proceeds
+    row.contributions += flow.contribution
+    unreturnedCapital += flow.contribution
+
+    let remaining = flow.proceeds
+    row.proceeds += remaining
+
+    const returnOfCapital = Math.min(remaining, unreturnedCapital)
+    unreturnedCapital -= returnOfCapital
+    remaining -= returnOfCapital
+
+    const preferredReturn = Math.min(remaining, unpaidPreferredReturn)
+    unpaidPreferredReturn -= preferredReturn
+    remaining -= preferredReturn
+    profitDistributed += preferredReturn
+
+    // Each catch-up dollar raises the GP's target by the carry rate and pays it the catch-up rate
+    let catchUpAmount = 0
+    const gpShortfall = carry * profitDistributed - gpReceived
+    if (remaining > 0 && catchUp > carry && gpShortfall > 0) {
+      catchUpAmount = Math.min(remaining, gpShortfall / (catchUp - carry))
+      remaining -= catchUpAmount
+      profitDistributed += catchUpAmount
+      gpReceived += catchUpAmount * catchUp
+    }
+
+    const gpCarry = remaining * carry
+    profitDistributed += remaining
+    gpReceived += gpCarry
+
+    row.returnOfCapital += returnOfCapital
+    row.preferredReturn += preferredReturn
+    row.gpCatchUp += catchUpAmount * catchUp
+    row.lpCatchUp += catchUpAmount * (1 - catchUp)
+    row.gpCarry += gpCarry
+    row.lpSplit += remaining - gpCarry
+    row.gpTotal = row.gpCatchUp + row.gpCarry
+    row.lpTotal = row.proceeds - row.gpTotal
+  })
+
+  const sortedRows = Array.from(rows.values()).sort((a, b) => a.year - b.year)
+  const amountKeys = (Object.keys(emptyRow(0)) as (keyof WaterfallYearRow)[]).filter(key => key !== 'year')
+  const totals = Object.fromEntries(
+    amountKeys.map(key => [key, sortedRows.reduce((sum, row) => sum + row[key], 0)])
+  ) as DistributionWaterfallResult['totals']
+
+  return {
+    rows: sortedRows,
+    totals,
+    unreturnedCapital,
+    unpaidPreferredReturn,
+    gpShareOfProfit: profitDistributed > 0 ? (gpReceived / profitDistributed) * 100 : undefined
+  }
+}
+
+// Year-end fee contributions from the fund's management fee rules: their rate on the commitment in
+// every year from the first to the last flow, paid in by the LP ahead of the waterfall
+export const getRuleFeeFlows = (flows: WaterfallFlow[], rules: FundRule[], commitmentAmount: number): WaterfallFlow[] => {
+  const feeRate = rules.filter(rule => rule.ruleType === 'management_fee').reduce((sum, rule) => sum + rule.ruleValue, 0)
+  const years = flows.map(flow => new Date(flow.date).getUTCFullYear()).filter(year => !isNaN(year))
+  if (feeRate === 0 || years.length === 0) return []
+
+  const fees: WaterfallFlow[] = []
+  for (let year = Math.min(...years); year <= Math.max(...years); year++) {
+    fees.push({ date: `${year}-12-31`, contribution: commitmentAmount * feeRate / 100, proceeds: 0 })
+  }
+  return fees
+}
+
+export interface WaterfallRuleRow extends WaterfallYearRow {
+  taxes: number
+  otherDeductions: number
+  lpNet: number // LP total after tax and other deductions
+  ruleDeductions: FundRuleDeduction[]
+}
+
+// Attribute each year's amounts to the fund's rules: management fee rules to the fee contributions
+// (see getRuleFeeFlows), carry rules split the GP's take by their share of the carry rules' values (so
+// the split does not depend on the carry rate the waterfall ran with), tax rules take their rate of the
+// LP's profit and other rules of the gross proceeds, the base applyFundRules uses
+export const applyFundRulesToWaterfall = (
+  rows: WaterfallYearRow[],
+  rules: FundRule[],
+  commitmentAmount: number
+): WaterfallRuleRow[] => {
+  const carryRules = rules.filter(rule => rule.ruleType === 'carried_interest')
+  const carryRuleTotal = carryRules.reduce((sum, rule) => sum + rule.ruleValue, 0)
+  const carryShares = new Map(carryRules.map(rule => [rule.id, carryRuleTotal > 0 ? rule.ruleValue / carryRuleTotal : 0]))
+  const feeYears = rows.filter(row => row.contributions > 0 || row.proceeds > 0).map(row => row.year)
+  const firstFeeYear = Math.min(...feeYears)
+  const lastFeeYear = Math.max(...feeYears)
+
+  return rows.map(row => {
+    const lpProfit = row.preferredReturn + row.lpCatchUp + row.lpSplit
+    const ruleDeductions: FundRuleDeduction[] = []
+    let taxes = 0
+    let otherDeductions = 0
+    rules.forEach(rule => {
+      let amount = 0
+      if (rule.ruleType === 'management_fee') {
+        amount = row.year >= firstFeeYear && row.year <= lastFeeYear ? commitmentAmount * rule.ruleValue / 100 : 0
+      } else if (rule.ruleType === 'carried_interest') {
+        amount = row.gpTotal * (carryShares.get(rule.id) ?? 0)
+      } else if (rule.ruleType === 'tax') {
+        amount = lpProfit * rule.ruleValue / 100
+        taxes += amount
+      } else {
+        amount = row.proceeds * rule.ruleValue / 100
+        otherDeductions += amount
+      }
+      if (amount !== 0) {
+        ruleDeductions.push({ ruleId: rule.id, ruleName: rule.ruleName, ruleType: rule.ruleType, amount })
+      }
+    })
+    return { ...row, taxes, otherDeductions, lpNet: row.lpTotal - taxes - otherDeductions, ruleDeductions }
+  })
+}
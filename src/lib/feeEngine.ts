@@ -0,0 +1,141 @@
+import { CarryWaterfallType, FundFeeTerms, FundTypeExpectation, GeneralFund } from '../types'
+import { getFundTypeExpectation } from '../data/fundExpectations'
+import { CalendarCashflow, fromQuarterIndex, toQuarterIndex } from './calendarAlignment'
+
+export const defaultFundFeeTerms: FundFeeTerms = {
+  investmentPeriodYears: 5,
+  waterfallType: 'european',
+  hurdleRate: 8,
+  catchUpRate: 100
+}
+
+export const carryWaterfallTypes: { id: CarryWaterfallType; label: string }[] = [
+  { id: 'european', label: 'European (whole fund)' },
+  { id: 'american', label: 'American (deal by deal)' }
+]
+
+// A calendar cashflow net to the LP, with the fee and carry taken out of the gross flows
+export interface NetCalendarCashflow extends CalendarCashflow {
+  managementFee: number // Called from the LP on top of the gross contribution
+  carriedInterest: number // GP share withheld from the gross distribution
+}
+
+type FeeFund = Pick<GeneralFund, 'fundType' | 'strategy' | 'managementFeeRate' | 'carriedInterestRate' | 'feeTerms'>
+
+export const getFundFeeTerms = (fund?: Pick<GeneralFund, 'feeTerms'>): FundFeeTerms =>
+  ({ ...defaultFundFeeTerms, ...fund?.feeTerms })
+
+// Fee and carry rates of a fund, falling back to its fund type's defaults (no fee when neither is set)
+export const getFundFeeRates = (fund: FeeFund, library: FundTypeExpectation[]) => {
+  const expectation = getFundTypeExpectation(library, fund.fundType, fund.strategy)
+  return {
+    managementFeeRate: fund.managementFeeRate ?? expectation?.managementFeeRate ?? 0,
+    carriedInterestRate: fund.carriedInterestRate ?? expectation?.carriedInterestRate ?? 0
+  }
+}
+
+// Carry on the part of a distribution left once the LP has its capital and preferred return: the
+// GP takes the catch-up share until it holds its carry share of the profit, then the carry rate.
+// The shortfall is the carry the GP is owed on profit distributed so far.
+const getCarryAboveHurdle = (amount: number, gpShortfall: number, carry: number, catchUp: number) => {
+  let carriedInterest = 0
+  let remaining = amount
+  if (catchUp > carry && gpShortfall > 0) {
+    const catchUpAmount = Math.min(remaining, gpShortfall / (catchUp - carry))
+    carriedInterest += catchUpAmount * catchUp
+    remaining -= catchUpAmount
+  }
+  return carriedInterest + remaining * carry
+}
+
+// Net-to-LP cashflows from a position's gross calendar cashflows. Management fee is charged quarterly
+// on the commitment during the investment period and on invested capital (contributions not yet
+// realised) afterwards. Each distribution realises the cost of the NAV it comes from pro rata.
+// The LP's paid-in capital, fees included, compounds at the hurdle until it is distributed back.
+// European carry works on whole-fund totals; American carry on each distribution alone, with no
+// loss carry-forward or clawback. NAV stays gross of unrealised carry.
+export const applyFeesAndCarry = (
+  grossCashflows: CalendarCashflow[],
+  commitmentAmount: number,
+  library: FundTypeExpectation[],
+  fund?: FeeFund
+): NetCalendarCashflow[] => {
+  if (grossCashflows.length === 0) return []
+
+  const terms = getFundFeeTerms(fund)
+  const rates = fund ? getFundFeeRates(fund, library) : { managementFeeRate: 0, carriedInterestRate: 0 }
+  const quarterlyFeeRate = rates.managementFeeRate / 100 / 4
+  const carry = rates.carriedInterestRate / 100
+  const catchUp = terms.catchUpRate / 100
+  const hurdleGrowth = Math.pow(1 + terms.hurdleRate / 100, 0.25)
+
+  const grossByQuarter = new Map<number, CalendarCashflow>()
+  grossCashflows.forEach(cf => {
+    const index = toQuarterIndex(cf.year, cf.quarter)
+    const existing = grossByQuarter.get(index)
+    grossByQuarter.set(index, existing ? {
+      ...cf,
+      contributions: existing.contributions + cf.contributions,
+      distributions: existing.distributions + cf.distributions
+    } : cf)
+  })
+  const indexes = Array.from(grossByQuarter.keys())
+  const startIndex = Math.min(...indexes)
+  const endIndex = Math.max(...indexes)
+  const investmentPeriodEnd = startIndex + terms.investmentPeriodYears * 4
+
+  let investedCost = 0 // Gross contributions not yet realised
+  let paidIn = 0 // LP capital called, fees included
+  let unrealisedPaidIn = 0 // Paid-in capital not yet realised (American)
+  let hurdleBalance = 0 // Paid-in capital plus preferred return still owed to the LP
+  let distributed = 0 // Gross distributions to date (European)
+  let gpCarry = 0 // Carry paid to date (European)
+  let previousNav = 0
+  const netCashflows: NetCalendarCashflow[] = []
+
+  for (let index = startIndex; index <= endIndex; index++) {
+    const gross = grossByQuarter.get(index) || { ...fromQuarterIndex(index), contributions: 0, distributions: 0, nav: previousNav }
+    hurdleBalance *= hurdleGrowth
+
+    const managementFee = (index < investmentPeriodEnd ? commitmentAmount : investedCost) * quarterlyFeeRate
+    const called = -gross.contributions + managementFee
+    investedCost -= gross.contributions
+    paidIn += called
+    unrealisedPaidIn += called
+    hurdleBalance += called
+
+    let carriedInterest = 0
+    if (gross.distributions > 0) {
+      const realisedShare = gross.nav + gross.distributions > 0 ? gross.distributions / (gross.nav + gross.distributions) : 1
+      if (terms.waterfallType === 'american') {
+        const owed = hurdleBalance * realisedShare
+        const cost = unrealisedPaidIn * realisedShare
+        const toLp = Math.min(gross.distributions, owed)
+        carriedInterest = getCarryAboveHurdle(gross.distributions - toLp, carry * (toLp - cost), carry, catchUp)
+        hurdleBalance -= owed
+        unrealisedPaidIn -= cost
+      } else {
+        const toLp = Math.min(gross.distributions, hurdleBalance)
+        const profit = distributed + toLp - paidIn
+        carriedInterest = getCarryAboveHurdle(gross.distributions - toLp, carry * profit - gpCarry, carry, catchUp)
+        hurdleBalance = Math.max(hurdleBalance - (gross.distributions - carriedInterest), 0)
+        distributed += gross.distributions
+        gpCarry += carriedInterest
+      }
+      investedCost -= investedCost * realisedShare
+    }
+
+    netCashflows.push({
+      year: gross.year,
+      quarter: gross.quarter,
+      contributions: -called,
+      distributions: gross.distributions - carriedInterest,
+      nav: gross.nav,
+      managementFee,
+      carriedInterest
+    })
+    previousNav = gross.nav
+  }
+
+  return netCashflows
+}
@@ -0,0 +1,99 @@
+import { BenchmarkMetric, FundBenchmark, GeneralFund, GeneralFundNetCashflow, GeneralFundPerformance } from '../types'
+import { calculateXIRR, getQuarterEndDate } from './performanceMetrics'
+import { getFundYearlyCurve } from './peerCurves'
+
+export const benchmarkMetrics: { id: BenchmarkMetric; label: string }[] = [
+  { id: 'tvpi', label: 'TVPI' },
+  { id: 'dpi', label: 'DPI' },
+  { id: 'irr', label: 'IRR' }
+]
+
+// Performance of a fund from its stored curve. Relative years are placed on the calendar from the
+// vintage (annual rows at year-end) and the latest NAV is treated as a terminal inflow.
+export const calculateGeneralFundPerformance = (
+  fund: GeneralFund,
+  cashflows: GeneralFundNetCashflow[]
+): GeneralFundPerformance => {
+  const rows = cashflows
+    .filter(cf => cf.fundId === fund.id)
+    .map(cf => ({ ...cf, quarter: cf.quarter || 4 }))
+    .sort((a, b) => a.year - b.year || a.quarter - b.quarter)
+  const latest = rows[rows.length - 1]
+
+  const paidIn = rows.reduce((sum, cf) => sum - cf.contributionsPercentage, 0)
+  const distributed = rows.reduce((sum, cf) => sum + cf.distributionsPercentage, 0)
+  const nav = latest ? latest.navPercentage : 0
+
+  const irr = latest ? calculateXIRR([
+    ...rows.map(cf => ({
+      date: getQuarterEndDate(fund.vintage + cf.year - 1, cf.quarter),
+      amount: cf.distributionsPercentage + cf.contributionsPercentage
+    })),
+    { date: getQuarterEndDate(fund.vintage + latest.year - 1, latest.quarter), amount: nav }
+  ]) : undefined
+
+  return {
+    fundId: fund.id,
+    paidIn,
+    distributed,
+    nav,
+    tvpi: paidIn > 0 ? (distributed + nav) / paidIn : undefined,
+    dpi: paidIn > 0 ? distributed / paidIn : undefined,
+    irr: irr !== undefined ? irr * 100 : undefined
+  }
+}
+
+// Quartile of a value among the peer values (which include it); higher is better and ties share the better rank
+export const getQuartileRank = (value: number, peerValues: number[]) => {
+  const better = peerValues.filter(peerValue => peerValue > value).length
+  return Math.min(Math.floor((better / peerValues.length) * 4) + 1, 4)
+}
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+export const isBenchmarkPeer = (fund: GeneralFund, candidate: GeneralFund) =>
+  candidate.vintage === fund.vintage && normalize(candidate.strategy) === normalize(fund.strategy)
+
+// Quartile ranks of each fund by TVPI, DPI and IRR among the funds of the same vintage and strategy
+// that have cashflow data. Metrics a fund cannot be measured on, or without another peer to compare
+// against, are left unranked.
+export const benchmarkFunds = (
+  funds: GeneralFund[],
+  allFunds: GeneralFund[],
+  cashflows: GeneralFundNetCashflow[]
+): FundBenchmark[] => {
+  const fundsWithData = new Set(cashflows.map(cf => cf.fundId))
+  const performanceById = new Map<string, GeneralFundPerformance>()
+  const getPerformance = (fund: GeneralFund) => {
+    if (!performanceById.has(fund.id)) performanceById.set(fund.id, calculateGeneralFundPerformance(fund, cashflows))
+    return performanceById.get(fund.id) as GeneralFundPerformance
+  }
+
+  return funds.map(fund => {
+    const performance = getPerformance(fund)
+    const peers = allFunds.filter(candidate => fundsWithData.has(candidate.id) && isBenchmarkPeer(fund, candidate))
+    const peerPerformance = peers.map(getPerformance)
+
+    const quartiles: FundBenchmark['quartiles'] = {}
+    benchmarkMetrics.forEach(({ id }) => {
+      const value = performance[id]
+      const peerValues = peerPerformance
+        .map(p => p[id])
+        .filter((peerValue): peerValue is number => peerValue !== undefined)
+      if (value !== undefined && fundsWithData.has(fund.id) && peerValues.length > 1) quartiles[id] = getQuartileRank(value, peerValues)
+    })
+
+    return { fundId: fund.id, performance, peerCount: peers.length, quartiles }
+  })
+}
+
+// Cumulative net cashflow (J-curve) and NAV per relative year, in percentage points of commitment
+export const getFundComparisonCurve = (fundId: string, cashflows: GeneralFundNetCashflow[]) => {
+  let cumulativeNet = 0
+  return Array.from(getFundYearlyCurve(cashflows.filter(cf => cf.fundId === fundId)).entries())
+    .sort(([a], [b]) => a - b)
+    .map(([year, values]) => {
+      cumulativeNet += values.distributions - values.contributions
+      return { year, cumulativeNet, nav: values.nav }
+    })
+}
@@ -0,0 +1,355 @@
+import {
+  FundImportField, FundImportIssue, FundImportRow, FundImportTarget, FundTypeExpectation, FundUploadCashflow, GeneralFund,
+  GeneralFundUpload
+} from '../types'
+import { getFundTypeExpectation, resolveFundType } from '../data/fundExpectations'
+import { SheetCellValue, SheetTable, parseCsv, parseYearHeader, toNumber, toText } from './workbook'
+
+// Target of every source column, keyed by the source header
+export type FundImportMapping = Record<string, FundImportTarget>
+
+export const MAX_IMPORT_YEARS = 20
+const MIN_VINTAGE = 1980
+
+export const fundImportFields: { field: FundImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'fundName', label: 'Fund Name', required: true, aliases: ['fund', 'fund name', 'name'] },
+  { field: 'vintage', label: 'Vintage', required: true, aliases: ['vintage', 'vintage year'] },
+  { field: 'fundType', label: 'Fund Type', required: true, aliases: ['type', 'fund type', 'asset class'] },
+  { field: 'strategy', label: 'Strategy', aliases: ['strategy', 'subtype', 'sub-type'] },
+  { field: 'geography', label: 'Geography', aliases: ['geography', 'region'] },
+  { field: 'expectedLifespan', label: 'Expected Lifespan', aliases: ['lifespan', 'expected lifespan', 'fund life', 'term'] },
+  { field: 'managementFeeRate', label: 'Management Fee %', aliases: ['management fee', 'management fee rate', 'mgmt fee'] },
+  { field: 'carriedInterestRate', label: 'Carried Interest %', aliases: ['carry', 'carried interest', 'carried interest rate'] }
+]
+
+export const getFieldLabel = (target: FundImportTarget) => {
+  const year = getTargetYear(target)
+  if (year !== undefined) return `Year ${year} Net Cashflow`
+  return fundImportFields.find(f => f.field === target)?.label || 'Ignore'
+}
+
+export const getTargetYear = (target: FundImportTarget) =>
+  target.startsWith('year:') ? parseInt(target.slice(5)) : undefined
+
+// Lower-case header without units in brackets, e.g. 'Management Fee (%)' -> 'management fee'
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/\s*\(.*\)$/, '').replace(/[_\s]+/g, ' ')
+
+// Suggest a target for each source column from its header; each target is used at most once
+export const guessColumnMapping = (headers: string[]): FundImportMapping => {
+  const mapping: FundImportMapping = {}
+  const used = new Set<FundImportTarget>()
+
+  headers.filter(header => header).forEach(header => {
+    const year = parseYearHeader(header)
+    const field = fundImportFields.find(f => f.aliases.includes(normalizeHeader(header)))?.field
+    const target: FundImportTarget = year !== undefined && year >= 1 && year <= MAX_IMPORT_YEARS
+      ? `year:${year}`
+      : field || 'ignore'
+
+    mapping[header] = target !== 'ignore' && used.has(target) ? 'ignore' : target
+    used.add(mapping[header])
+  })
+  return mapping
+}
+
+// Mapping problems that have to be fixed before any row can be validated
+export const validateColumnMapping = (mapping: FundImportMapping): string[] => {
+  const errors: string[] = []
+  const targets = Object.values(mapping).filter(target => target !== 'ignore')
+
+  fundImportFields.filter(f => f.required).forEach(f => {
+    if (!targets.includes(f.field)) errors.push(`${f.label} is not mapped to a column`)
+  })
+  Array.from(new Set(targets)).forEach(target => {
+    if (targets.filter(t => t === target).length > 1) errors.push(`${getFieldLabel(target)} is mapped to more than one column`)
+  })
+  if (!targets.some(target => getTargetYear(target) !== undefined)) {
+    errors.push('No column is mapped to a yearly net cashflow')
+  }
+  return errors
+}
+
+// Net cashflow curve (percentage points per relative year) as database rows in fractions of commitment.
+// Net calls count as contributions and net distributions as distributions; NAV is estimated as the
+// paid-in capital that has not been returned yet.
+export const buildNetCashflowRows = (netByYear: number[]): GeneralFundUpload['yearlyNetCashflows'] => {
+  let nav = 0
+  return netByYear.map((netPoints, index) => {
+    const net = netPoints / 100
+    const contributions = net < 0 ? net : 0
+    const distributions = net > 0 ? net : 0
+    nav = Math.max(nav - contributions - distributions, 0)
+    return {
+      year: index + 1,
+      netCashflowPercentage: net,
+      contributionsPercentage: contributions,
+      distributionsPercentage: distributions,
+      navPercentage: nav
+    }
+  })
+}
+
+// Gross series (percentage points) as database rows, keeping every period including those without flows
+export const buildGrossCashflowRows = (cashflows: FundUploadCashflow[]): GeneralFundUpload['yearlyNetCashflows'] =>
+  cashflows.map(cf => ({
+    year: cf.year,
+    quarter: cf.quarter,
+    netCashflowPercentage: (cf.contributions + cf.distributions) / 100,
+    contributionsPercentage: cf.contributions / 100,
+    distributionsPercentage: cf.distributions / 100,
+    navPercentage: cf.nav / 100
+  }))
+
+const isBlank = (value: SheetCellValue) => value === null || toText(value) === ''
+
+// Sanity checks on a curve's total calls and distributions, in percentage points of commitment
+const validateCurveTotals = (called: number, distributed: number): FundImportIssue[] => {
+  const issues: FundImportIssue[] = []
+  if (called === 0) {
+    issues.push({ severity: 'error', message: 'Curve has no capital calls (calls are negative values)' })
+  } else if (called > 150) {
+    issues.push({ severity: 'error', message: `Curve calls ${called.toFixed(1)}% of commitment (more than 150%)` })
+  } else if (called < 50) {
+    issues.push({ severity: 'warning', message: `Curve only calls ${called.toFixed(1)}% of commitment` })
+  }
+  if (called > 0 && (distributed / called < 0.25 || distributed / called > 5)) {
+    issues.push({ severity: 'warning', message: `Curve returns ${(distributed / called).toFixed(2)}x of called capital` })
+  }
+  return issues
+}
+
+// Apply the mapping to every row and collect the problems of each row. Rows with errors are meant to be
+// left out of the import; warnings are informational. A row with a gross series in grossCashflows
+// (keyed by source row number) uses it instead of its yearly net cashflow columns.
+export const validateImportRows = (
+  table: SheetTable,
+  mapping: FundImportMapping,
+  existingFunds: Pick<GeneralFund, 'name' | 'vintage'>[],
+  library: FundTypeExpectation[],
+  grossCashflows: Map<number, FundUploadCashflow[]> = new Map()
+): FundImportRow[] => {
+  const columnFor = (field: FundImportField) => Object.keys(mapping).find(header => mapping[header] === field)
+  const yearColumns = Object.keys(mapping)
+    .map(header => ({ header, year: getTargetYear(mapping[header]) }))
+    .filter((col): col is { header: string; year: number } => col.year !== undefined)
+  const curveLength = Math.max(...yearColumns.map(col => col.year))
+
+  const existingKeys = new Set(existingFunds.map(fund => `${fund.name.trim().toLowerCase()}|${fund.vintage}`))
+  const firstRowByKey = new Map<string, number>()
+  const maxVintage = new Date().getFullYear() + 5
+
+  return table.rows.map((row, index) => {
+    const rowNumber = table.rowNumbers[index]
+    const issues: FundImportIssue[] = []
+    const cell = (field: FundImportField) => {
+      const column = columnFor(field)
+      return { column, value: column ? row[column] : null }
+    }
+
+    // Optional numeric field: blank uses the default, anything else has to be a number in range
+    const readNumber = (field: FundImportField, fallback: number, min: number, max: number) => {
+      const { column, value } = cell(field)
+      if (isBlank(value)) return fallback
+      const parsed = toNumber(value)
+      const label = fundImportFields.find(f => f.field === field)?.label
+      if (parsed === undefined) {
+        issues.push({ severity: 'error', column, message: `${label} "${toText(value)}" is not a number` })
+        return fallback
+      }
+      if (parsed < min || parsed > max) {
+        issues.push({ severity: 'error', column, message: `${label} ${parsed} is outside ${min}-${max}` })
+      }
+      return parsed
+    }
+
+    const name = cell('fundName')
+    const fundName = toText(name.value)
+    if (!fundName) issues.push({ severity: 'error', column: name.column, message: 'Fund name is missing' })
+
+    const vintageCell = cell('vintage')
+    const vintage = toNumber(vintageCell.value)
+    const validVintage = vintage !== undefined && Number.isInteger(vintage) && vintage >= MIN_VINTAGE && vintage <= maxVintage
+    if (!validVintage) {
+      issues.push({
+        severity: 'error',
+        column: vintageCell.column,
+        message: isBlank(vintageCell.value)
+          ? 'Vintage is missing'
+          : `Vintage "${toText(vintageCell.value)}" is not a year between ${MIN_VINTAGE} and ${maxVintage}`
+      })
+    }
+
+    const typeCell = cell('fundType')
+    const rawType = toText(typeCell.value)
+    const fundType = resolveFundType(library, rawType)
+    if (!rawType) {
+      issues.push({ severity: 'error', column: typeCell.column, message: 'Fund type is missing' })
+    } else if (!fundType) {
+      issues.push({ severity: 'error', column: typeCell.column, message: `Unknown fund type "${rawType}"` })
+    }
+
+    // Blank optional fields default to the fund type library
+    const expectation = fundType ? getFundTypeExpectation(library, fundType, toText(cell('strategy').value)) : null
+    const expectedLifespan = readNumber('expectedLifespan', expectation?.avgLifespan ?? 10, 1, 30)
+    const managementFeeRate = readNumber('managementFeeRate', expectation?.managementFeeRate ?? 2.0, 0, 10)
+    const carriedInterestRate = readNumber('carriedInterestRate', expectation?.carriedInterestRate ?? 20.0, 0, 50)
+
+    // Curve: blank years are zero, anything else has to be a number
+    const grossSeries = grossCashflows.get(rowNumber)
+    const netByYear = Array.from({ length: curveLength }, () => 0)
+    if (!grossSeries) {
+      yearColumns.forEach(({ header, year }) => {
+        const value = row[header]
+        if (isBlank(value)) return
+        const parsed = toNumber(value)
+        if (parsed === undefined) {
+          issues.push({ severity: 'error', column: header, message: `Year ${year} value "${toText(value)}" is not a number` })
+        } else {
+          netByYear[year - 1] = parsed
+        }
+      })
+    }
+
+    const called = grossSeries
+      ? -grossSeries.reduce((sum, cf) => sum + cf.contributions, 0)
+      : netByYear.reduce((sum, value) => sum + (value < 0 ? -value : 0), 0)
+    const distributed = grossSeries
+      ? grossSeries.reduce((sum, cf) => sum + cf.distributions, 0)
+      : netByYear.reduce((sum, value) => sum + (value > 0 ? value : 0), 0)
+    issues.push(...validateCurveTotals(called, distributed))
+
+    if (fundName && validVintage) {
+      const key = `${fundName.toLowerCase()}|${vintage}`
+      if (existingKeys.has(key)) {
+        issues.push({ severity: 'error', message: `${fundName} (${vintage}) already exists in the database` })
+      } else if (firstRowByKey.has(key)) {
+        issues.push({ severity: 'error', message: `Duplicate of row ${firstRowByKey.get(key)} (same name and vintage)` })
+      } else {
+        firstRowByKey.set(key, rowNumber)
+      }
+    }
+
+    const resolvedType = fundType || rawType
+    const upload: GeneralFundUpload = {
+      fundName,
+      vintage: vintage || 0,
+      fundType: resolvedType,
+      strategy: toText(cell('strategy').value) || resolvedType,
+      geography: toText(cell('geography').value) || 'Global',
+      expectedLifespan,
+      managementFeeRate,
+      carriedInterestRate,
+      yearlyNetCashflows: grossSeries ? buildGrossCashflowRows(grossSeries) : buildNetCashflowRows(netByYear)
+    }
+
+    return { rowNumber, upload, issues }
+  })
+}
+
+const PASTED_ANNUAL_FIELDS = ['Year', 'Net Cashflow', 'Contributions', 'Distributions', 'NAV']
+const PASTED_QUARTERLY_FIELDS = ['Year', 'Quarter', 'Net Cashflow', 'Contributions', 'Distributions', 'NAV']
+
+// Gross series pasted as CSV lines of year,netCashflow%,contributions%,distributions%,nav% (annual) or
+// year,quarter,netCashflow%,contributions%,distributions%,nav% (quarterly). Calls may be entered with or
+// without a minus sign; the net column is only checked against contributions plus distributions.
+const readPastedCashflows = (text: string) => {
+  const cashflows: FundUploadCashflow[] = []
+  const issues: FundImportIssue[] = []
+  const periods = new Set<string>()
+  let quarterly: boolean | undefined
+
+  parseCsv(text).forEach((fields, index) => {
+    const column = `Line ${index + 1}`
+    if (fields.every(field => field.trim() === '')) return
+    const error = (message: string) => issues.push({ severity: 'error', column, message })
+
+    const headers = fields.length === PASTED_QUARTERLY_FIELDS.length ? PASTED_QUARTERLY_FIELDS : PASTED_ANNUAL_FIELDS
+    if (fields.length !== headers.length) {
+      error(`${fields.length} values; expected ${PASTED_ANNUAL_FIELDS.length} (annual) or ${PASTED_QUARTERLY_FIELDS.length} (quarterly)`)
+      return
+    }
+    const values: Record<string, number> = {}
+    headers.forEach((header, i) => {
+      const parsed = toNumber(fields[i])
+      if (parsed === undefined) error(`${header} "${fields[i].trim()}" is not a number`)
+      else values[header] = parsed
+    })
+    if (Object.keys(values).length < headers.length) return
+
+    const year = values['Year']
+    const quarter = headers === PASTED_QUARTERLY_FIELDS ? values['Quarter'] : undefined
+    if (!Number.isInteger(year) || year < 1 || year > MAX_IMPORT_YEARS) {
+      error(`Year ${year} is not a whole number between 1 and ${MAX_IMPORT_YEARS}`)
+      return
+    }
+    if (quarter !== undefined && ![1, 2, 3, 4].includes(quarter)) {
+      error(`Quarter ${quarter} is not 1-4`)
+      return
+    }
+    if (quarterly !== undefined && quarterly !== (quarter !== undefined)) {
+      error('Annual and quarterly lines cannot be mixed')
+      return
+    }
+    quarterly = quarter !== undefined
+    const period = quarter !== undefined ? `Year ${year} Q${quarter}` : `Year ${year}`
+    if (periods.has(period)) {
+      error(`${period} is entered more than once`)
+      return
+    }
+    periods.add(period)
+
+    const contributions = -Math.abs(values['Contributions'])
+    const distributions = Math.abs(values['Distributions'])
+    if (Math.abs(values['Net Cashflow'] - (contributions + distributions)) > 0.05) {
+      issues.push({
+        severity: 'warning',
+        column,
+        message: `Net cashflow ${values['Net Cashflow']}% is not contributions plus distributions ` +
+          `(${(contributions + distributions).toFixed(2)}%); the gross values are used`
+      })
+    }
+    cashflows.push({ year, quarter, contributions, distributions, nav: values['NAV'] })
+  })
+
+  if (periods.size === 0 && issues.length === 0) issues.push({ severity: 'error', message: 'Cashflow data is missing' })
+  cashflows.sort((a, b) => a.year - b.year || (a.quarter || 0) - (b.quarter || 0))
+  return { cashflows, issues }
+}
+
+// Fund entered in a form with a pasted gross series, validated with the same checks as an imported row
+export const validatePastedFund = (
+  fund: Omit<GeneralFundUpload, 'yearlyNetCashflows'>,
+  cashflowText: string,
+  existingFunds: Pick<GeneralFund, 'name' | 'vintage'>[],
+  library: FundTypeExpectation[]
+): FundImportRow => {
+  const values: Record<FundImportField, SheetCellValue> = {
+    fundName: fund.fundName,
+    vintage: Number.isFinite(fund.vintage) ? fund.vintage : null,
+    fundType: fund.fundType,
+    strategy: fund.strategy,
+    geography: fund.geography,
+    expectedLifespan: fund.expectedLifespan ?? null,
+    managementFeeRate: fund.managementFeeRate ?? null,
+    carriedInterestRate: fund.carriedInterestRate ?? null
+  }
+  const table: SheetTable = {
+    sheetName: 'Pasted data',
+    headers: [...fundImportFields.map(f => f.label), 'Year 1'],
+    rows: [{
+      ...Object.fromEntries(fundImportFields.map(f => [f.label, values[f.field]])),
+      'Year 1': null
+    }],
+    rowNumbers: [1]
+  }
+  const mapping: FundImportMapping = {
+    ...Object.fromEntries(fundImportFields.map(f => [f.label, f.field])),
+    'Year 1': 'year:1'
+  }
+
+  const { cashflows, issues } = readPastedCashflows(cashflowText)
+  const grossCashflows = new Map<number, FundUploadCashflow[]>(cashflows.length > 0 ? [[1, cashflows]] : [])
+  const [row] = validateImportRows(table, mapping, existingFunds, library, grossCashflows)
+  return { ...row, issues: [...issues, ...row.issues] }
+}
@@ -0,0 +1,73 @@
+import { CashflowExpectation, FundRule, FundRuleDeduction } from '../types'
+
+export const fundRuleTypeLabels: Record<FundRule['ruleType'], string> = {
+  management_fee: 'Management Fee',
+  carried_interest: 'Carried Interest',
+  tax: 'Tax',
+  other: 'Other'
+}
+
+// What a rule's percentage is taken of
+export const fundRuleBases: Record<FundRule['ruleType'], string> = {
+  management_fee: 'of commitment per year',
+  carried_interest: 'of profit distributed',
+  tax: 'of profit distributed after carry',
+  other: 'of distributions'
+}
+
+export const isFundRuleActive = (rule: FundRule) => rule.isActive !== false
+
+export const getActiveFundRules = (fundRules: FundRule[], fundId: string) =>
+  fundRules.filter(rule => rule.fundId === fundId && isFundRuleActive(rule))
+
+type RuleDeductions = Required<Pick<
+  CashflowExpectation, 'managementFees' | 'carriedInterest' | 'taxes' | 'otherDeductions' | 'ruleDeductions'
+>>
+
+// Apply a fund's rules to projected periods in date order. Management fees are called on top of the
+// calls; carry, tax and other deductions come out of the distributions. Profit is the part of the
+// distributions above everything paid in to date, fees included. Paid-in and distributed to date
+// before the first period (e.g. actuals ahead of a re-projection) count towards the profit hurdle.
+// NAV is left as projected, before rules: carry and tax on unrealised value are not accrued.
+export const applyFundRules = <T extends Pick<CashflowExpectation, 'calls' | 'distributions'>>(
+  cashflows: T[],
+  rules: FundRule[],
+  commitmentAmount: number,
+  options: { periodsPerYear?: number; paidIn?: number; distributed?: number } = {}
+): (T & RuleDeductions)[] => {
+  const periodsPerYear = options.periodsPerYear || 1
+  const rulesOfType = (ruleType: FundRule['ruleType']) => rules.filter(rule => rule.ruleType === ruleType)
+  let paidIn = options.paidIn || 0
+  let distributed = options.distributed || 0
+
+  return cashflows.map(cf => {
+    const ruleDeductions: FundRuleDeduction[] = []
+    const deduct = (ruleType: FundRule['ruleType'], base: number) => rulesOfType(ruleType).reduce((total, rule) => {
+      const amount = Math.max(base, 0) * rule.ruleValue / 100
+      if (amount !== 0) {
+        ruleDeductions.push({ ruleId: rule.id, ruleName: rule.ruleName, ruleType: rule.ruleType, amount })
+      }
+      return total + amount
+    }, 0)
+
+    const managementFees = deduct('management_fee', commitmentAmount / periodsPerYear)
+    paidIn += cf.calls + managementFees
+    const profit = Math.max(distributed + cf.distributions - paidIn, 0) - Math.max(distributed - paidIn, 0)
+    distributed += cf.distributions
+
+    const carriedInterest = deduct('carried_interest', profit)
+    const taxes = deduct('tax', profit - carriedInterest)
+    const otherDeductions = deduct('other', cf.distributions)
+
+    return {
+      ...cf,
+      calls: cf.calls + managementFees,
+      distributions: cf.distributions - carriedInterest - taxes - otherDeductions,
+      managementFees,
+      carriedInterest,
+      taxes,
+      otherDeductions,
+      ruleDeductions
+    }
+  })
+}
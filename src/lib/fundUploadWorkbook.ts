@@ -0,0 +1,205 @@
+import {
+  FundImportIssue, FundImportRow, FundTypeExpectation, FundUploadCashflow, FundUploadRow, GeneralFund
+} from '../types'
+import { WorkbookColumn, downloadWorkbook, readTable, readTables, toNumber, toText } from './workbook'
+import { guessColumnMapping, validateColumnMapping, validateImportRows } from './fundImport'
+
+export const FUND_UPLOAD_YEARS = 12
+const FUND_SHEET = 'Funds'
+const CASHFLOW_SHEET = 'Cashflows'
+
+export interface FundUploadReadResult {
+  rows: FundImportRow[]
+  unmatchedCashflowRows: number[] // Rows of the cashflow sheet whose fund is not on the fund sheet
+}
+
+const fundUploadColumns: WorkbookColumn[] = [
+  { header: 'Fund', key: 'fund', width: 30 },
+  { header: 'Vintage', key: 'vintage', kind: 'integer' },
+  { header: 'Type', key: 'type', width: 16 },
+  { header: 'Subtype', key: 'subtype', width: 18 },
+  { header: 'Geography', key: 'geography', width: 18 },
+  ...Array.from({ length: FUND_UPLOAD_YEARS }, (_, i): WorkbookColumn => ({
+    header: `Year ${i + 1}`,
+    key: String(i + 1),
+    kind: 'percent'
+  }))
+]
+
+const cashflowColumns: WorkbookColumn[] = [
+  { header: 'Fund', key: 'fund', width: 30 },
+  { header: 'Vintage', key: 'vintage', kind: 'integer' },
+  { header: 'Year', key: 'year', kind: 'integer' },
+  { header: 'Quarter', key: 'quarter', kind: 'integer' },
+  { header: 'Contributions', key: 'contributions', kind: 'percent', width: 15 },
+  { header: 'Distributions', key: 'distributions', kind: 'percent', width: 15 },
+  { header: 'NAV', key: 'nav', kind: 'percent' }
+]
+
+const instructions = [
+  'Fund: Fund name',
+  'Vintage: Fund vintage year',
+  'Type: a fund type from the fund type library, e.g. Private Equity or Venture Capital (abbreviations FOF, PE, VC, RE are accepted)',
+  'Subtype: Strategy within fund type',
+  'Geography: Investment geography',
+  'Year 1-12: Net cashflow as a percentage of commitment (negative = calls, positive = distributions)',
+  'Example: -25.50% means 25.5% of commitment called',
+  'Example: 15.20% means 15.2% of commitment distributed',
+  '',
+  `Optional "${CASHFLOW_SHEET}" sheet: one row per fund and year with gross Contributions, Distributions and NAV`,
+  'Contributions and Distributions: gross amounts as a percentage of commitment (calls may be entered with or without a minus sign)',
+  'Quarter: optional quarter (1-4) within the year; leave blank for annual rows',
+  'NAV: net asset value at the end of the year (or quarter) as a percentage of commitment',
+  `A fund with rows on the "${CASHFLOW_SHEET}" sheet uses them instead of its Year 1-12 net cashflows`,
+  '',
+  `Only the "${FUND_SHEET}" and "${CASHFLOW_SHEET}" sheets are read on upload; this sheet can be left in place`
+]
+
+// Net cashflow of each year is the sum of the (negative) contributions and the distributions of
+// the year, or of its quarters for a quarterly series
+const applyNetFromCashflows = (row: FundUploadRow, cashflows: FundUploadCashflow[]) => {
+  for (let year = 1; year <= FUND_UPLOAD_YEARS; year++) row[year] = 0
+  cashflows.forEach(cf => {
+    if (cf.year >= 1 && cf.year <= FUND_UPLOAD_YEARS) row[cf.year] += cf.contributions + cf.distributions
+  })
+  row.cashflows = cashflows
+}
+
+const fundKey = (fund: string, vintage: number) => `${fund.trim().toLowerCase()}|${vintage}`
+
+const createFundUploadRow = (
+  fund: string, vintage: number, type: string, subtype: string, geography: string, yearlyValues: number[]
+) => {
+  const row: FundUploadRow = { fund, vintage, type, subtype, geography }
+  yearlyValues.forEach((value, index) => { row[index + 1] = value })
+  return row
+}
+
+// Sample row from [contributions, distributions, NAV] per year
+const createGrossFundUploadRow = (
+  fund: string, vintage: number, type: string, subtype: string, geography: string, series: number[][]
+) => {
+  const row: FundUploadRow = { fund, vintage, type, subtype, geography }
+  applyNetFromCashflows(row, series.map(([contributions, distributions, nav], index) => ({
+    year: index + 1, contributions, distributions, nav
+  })))
+  return row
+}
+
+export const fundUploadSampleRows: FundUploadRow[] = [
+  createFundUploadRow('QGP II', 2023, 'FOF', 'VC', 'India',
+    [-29.1, -15.52, -41.09, -2.09, 25.36, 10.56, 36.94, 51.43, 47.0, 54.83, 4.16, 0]),
+  // Gross series: calls and distributions overlap from year 2, which a net curve cannot express
+  createGrossFundUploadRow('Northbridge Growth III', 2022, 'PE', 'Growth', 'Europe', [
+    [-22, 0, 21], [-25, 2, 46], [-20, 6, 66], [-12, 14, 78], [-10, 12, 85], [-5, 20, 81],
+    [-3, 26, 69], [0, 30, 50], [0, 28, 30], [0, 22, 12], [0, 12, 2], [0, 3, 0]
+  ]),
+  createFundUploadRow('Alpinvest', 2024, 'Secondary', 'Lower MM', 'EU',
+    [-15.52, -37.39, -3.0, -2.09, 25.36, 41.86, 41.71, 25.14, 14.69, 14.02, 4.16, 0]),
+  createFundUploadRow('Quadrum', 2024, 'PE', 'Tech', 'EU',
+    [-38.53, -48.21, -20.0, 21.74, 25.36, 41.86, 41.71, 25.14, 14.69, 14.02, 4.16, 0])
+]
+
+// Download fund rows as a workbook with an instructions sheet, a "Funds" sheet and, for funds with
+// gross series, a "Cashflows" sheet
+export const downloadFundUploadWorkbook = (rows: FundUploadRow[], filename: string) =>
+  downloadWorkbook(filename, [
+    {
+      name: 'Instructions',
+      columns: [{ header: 'Instructions', key: 'text', width: 100 }],
+      rows: instructions.map(text => ({ text }))
+    },
+    {
+      name: FUND_SHEET,
+      columns: fundUploadColumns,
+      rows: rows.map(row => ({ ...row }))
+    },
+    {
+      name: CASHFLOW_SHEET,
+      columns: cashflowColumns,
+      rows: rows.flatMap(row => (row.cashflows || []).map(cf => ({ fund: row.fund, vintage: row.vintage, ...cf })))
+    }
+  ])
+
+// Read and validate the funds of an uploaded .xlsx or .csv file (columns are matched by header, not
+// position) with the same per-row checks as the import wizard. Gross series on the "Cashflows" sheet
+// replace the net Year 1-12 values of their fund.
+export const readFundUploadRows = async (
+  file: File,
+  existingFunds: Pick<GeneralFund, 'name' | 'vintage'>[],
+  library: FundTypeExpectation[]
+): Promise<FundUploadReadResult> => {
+  const table = await readTable(file, { requiredHeaders: ['Fund', 'Vintage', 'Type'], sheetName: FUND_SHEET })
+  const mapping = guessColumnMapping(table.headers)
+  const mappingErrors = validateColumnMapping(mapping)
+  if (mappingErrors.length > 0) throw new Error(mappingErrors.join('. '))
+
+  // Source row of each fund, by name and vintage
+  const rowNumbersByKey = new Map<string, number>()
+  table.rows.forEach((row, index) => {
+    const vintage = toNumber(row['Vintage'])
+    const key = fundKey(toText(row['Fund']), vintage ?? NaN)
+    if (toText(row['Fund']) && vintage !== undefined && !rowNumbersByKey.has(key)) {
+      rowNumbersByKey.set(key, table.rowNumbers[index])
+    }
+  })
+
+  const cashflowTables = await readTables(file, ['Fund', 'Vintage', 'Year', 'Contributions', 'Distributions'])
+  const cashflowTable = cashflowTables.find(t => t.sheetName === CASHFLOW_SHEET)
+    || cashflowTables.find(t => t.sheetName !== table.sheetName)
+
+  const seriesByRow = new Map<number, (Omit<FundUploadCashflow, 'nav'> & { nav?: number })[]>()
+  const cashflowIssuesByRow = new Map<number, FundImportIssue[]>()
+  const unmatchedCashflowRows: number[] = []
+
+  cashflowTable?.rows.forEach((row, index) => {
+    const sourceRow = cashflowTable.rowNumbers[index]
+    const fundRow = rowNumbersByKey.get(fundKey(toText(row['Fund']), toNumber(row['Vintage']) ?? NaN))
+    const year = toNumber(row['Year'])
+    const quarter = toNumber(row['Quarter'])
+    if (fundRow === undefined || year === undefined || (quarter !== undefined && ![1, 2, 3, 4].includes(quarter))) {
+      unmatchedCashflowRows.push(sourceRow)
+      return
+    }
+
+    // Blank amounts are zero; anything else has to be a number
+    const readAmount = (header: string) => {
+      const value = row[header]
+      if (toText(value) === '') return undefined
+      const parsed = toNumber(value)
+      if (parsed === undefined) {
+        cashflowIssuesByRow.set(fundRow, [...(cashflowIssuesByRow.get(fundRow) || []), {
+          severity: 'error',
+          column: `${cashflowTable.sheetName} row ${sourceRow}`,
+          message: `${header} "${toText(value)}" is not a number`
+        }])
+      }
+      return parsed
+    }
+
+    seriesByRow.set(fundRow, [...(seriesByRow.get(fundRow) || []), {
+      year,
+      quarter,
+      contributions: -Math.abs(readAmount('Contributions') ?? 0),
+      distributions: Math.abs(readAmount('Distributions') ?? 0),
+      nav: readAmount('NAV')
+    }])
+  })
+
+  // Without a NAV value, NAV is estimated as paid-in capital not yet distributed
+  const grossCashflows = new Map<number, FundUploadCashflow[]>()
+  seriesByRow.forEach((series, rowNumber) => {
+    let previousNav = 0
+    grossCashflows.set(rowNumber, series.sort((a, b) => a.year - b.year || (a.quarter || 0) - (b.quarter || 0)).map(cf => {
+      const nav = cf.nav ?? Math.max(previousNav - cf.contributions - cf.distributions, 0)
+      previousNav = nav
+      return { ...cf, nav }
+    }))
+  })
+
+  const rows = validateImportRows(table, mapping, existingFunds, library, grossCashflows).map(row => ({
+    ...row,
+    issues: [...row.issues, ...(cashflowIssuesByRow.get(row.rowNumber) || [])]
+  }))
+  return { rows, unmatchedCashflowRows }
+}
@@ -0,0 +1,219 @@
+import {
+  Cashflow, Client, ClientFundPosition, Fund, FundTypeExpectation, GeneralFund, GeneralFundNetCashflow, Portfolio,
+  PortfolioPosition
+} from '../types'
+import { NewGeneralFundEntry, NewPortfolioEntry } from '../hooks/useDataStore'
+import { resolveFundType } from '../data/fundExpectations'
+
+// Dollar totals of a fund's cashflows: calls and distributions summed, NAV of the latest quarter
+export interface LegacyCashflowTotals {
+  calls: number
+  distributions: number
+  nav: number
+}
+
+export type LegacyMigrationStatus = 'new' | 'migrated' | 'skipped'
+
+export interface LegacyFundReconciliation {
+  legacyFundId: string
+  name: string
+  commitmentAmount: number
+  status: LegacyMigrationStatus // 'migrated' when an earlier run already created the general fund
+  note?: string
+  before: LegacyCashflowTotals
+  after?: LegacyCashflowTotals // Curve percentages times the commitment, as projections will use them
+}
+
+export interface LegacyPortfolioReconciliation {
+  clientId: string
+  clientName: string
+  positionType: ClientFundPosition['positionType']
+  status: LegacyMigrationStatus
+  note?: string
+  before: { positions: number; commitment: number; nav: number }
+  after: { positions: number; commitment: number }
+}
+
+export interface LegacyMigrationPlan {
+  fundEntries: NewGeneralFundEntry[] // General funds to create, each with its legacyFundId
+  // Portfolios to create; position fundIds are legacy fund ids until the general funds exist
+  portfolioEntries: NewPortfolioEntry[]
+  funds: LegacyFundReconciliation[]
+  portfolios: LegacyPortfolioReconciliation[]
+}
+
+type CurveRow = Omit<GeneralFundNetCashflow, 'id' | 'fundId' | 'createdAt' | 'updatedAt' | 'userId'>
+
+const positionTypeLabels: Record<ClientFundPosition['positionType'], string> = {
+  current: 'Current',
+  target: 'Target'
+}
+
+const sortByQuarter = <T extends { year: number; quarter?: number }>(rows: T[]) =>
+  [...rows].sort((a, b) => a.year - b.year || (a.quarter || 0) - (b.quarter || 0))
+
+export const getLegacyCashflowTotals = (cashflows: Cashflow[]): LegacyCashflowTotals => {
+  const sorted = sortByQuarter(cashflows)
+  return {
+    calls: sorted.reduce((sum, cf) => sum + cf.calls, 0),
+    distributions: sorted.reduce((sum, cf) => sum + cf.distributions, 0),
+    nav: sorted.length > 0 ? sorted[sorted.length - 1].nav : 0
+  }
+}
+
+// Totals in dollars of a percentage-of-commitment curve
+export const getCurveTotals = (rows: CurveRow[], commitmentAmount: number): LegacyCashflowTotals => {
+  const sorted = sortByQuarter(rows)
+  return {
+    calls: -sorted.reduce((sum, cf) => sum + cf.contributionsPercentage, 0) * commitmentAmount,
+    distributions: sorted.reduce((sum, cf) => sum + cf.distributionsPercentage, 0) * commitmentAmount,
+    nav: sorted.length > 0 ? sorted[sorted.length - 1].navPercentage * commitmentAmount : 0
+  }
+}
+
+// Calendar-quarter dollar cashflows as a quarterly curve of fractions of commitment. Relative year 1
+// is the vintage year; cashflows dated before it count towards year 1.
+export const convertLegacyCashflows = (fund: Fund, cashflows: Cashflow[]): CurveRow[] => {
+  const rows = new Map<string, CurveRow>()
+  sortByQuarter(cashflows.filter(cf => cf.fundId === fund.id)).forEach(cf => {
+    const year = Math.max(cf.year - fund.vintage + 1, 1)
+    const quarter = year === 1 && cf.year < fund.vintage ? 1 : cf.quarter
+    const key = `${year}-${quarter}`
+    const row = rows.get(key) || {
+      year, quarter, netCashflowPercentage: 0, contributionsPercentage: 0, distributionsPercentage: 0, navPercentage: 0
+    }
+    row.contributionsPercentage -= cf.calls / fund.commitmentAmount
+    row.distributionsPercentage += cf.distributions / fund.commitmentAmount
+    row.netCashflowPercentage = row.distributionsPercentage + row.contributionsPercentage
+    row.navPercentage = cf.nav / fund.commitmentAmount
+    rows.set(key, row)
+  })
+  return sortByQuarter(Array.from(rows.values()))
+}
+
+export const convertLegacyFund = (
+  fund: Fund,
+  cashflows: Cashflow[],
+  library: FundTypeExpectation[]
+): NewGeneralFundEntry => {
+  const curve = convertLegacyCashflows(fund, cashflows)
+  const lastYear = curve.length > 0 ? curve[curve.length - 1].year : 0
+  const fundType = resolveFundType(library, fund.fundType) || fund.fundType
+  return {
+    fund: {
+      name: fund.name,
+      vintage: fund.vintage,
+      fundType,
+      strategy: fundType,
+      geography: 'Unspecified',
+      expectedLifespan: Math.max(lastYear, 10),
+      managementFeeRate: fund.managementFeeRate,
+      carriedInterestRate: fund.carriedInterestRate,
+      description: `Migrated from the legacy fund ${fund.name}`,
+      legacyFundId: fund.id
+    },
+    cashflows: curve
+  }
+}
+
+// Everything a migration run would create, with a before/after reconciliation. Funds and client
+// portfolios migrated by an earlier run are reused rather than created again.
+export const planLegacyMigration = (
+  funds: Fund[],
+  cashflows: Cashflow[],
+  clients: Client[],
+  clientPositions: ClientFundPosition[],
+  generalFunds: GeneralFund[],
+  generalFundCashflows: GeneralFundNetCashflow[],
+  portfolios: Portfolio[],
+  portfolioPositions: PortfolioPosition[],
+  library: FundTypeExpectation[]
+): LegacyMigrationPlan => {
+  const fundEntries: NewGeneralFundEntry[] = []
+  const fundReport = funds.map((fund): LegacyFundReconciliation => {
+    const fundCashflows = cashflows.filter(cf => cf.fundId === fund.id)
+    const base = {
+      legacyFundId: fund.id,
+      name: fund.name,
+      commitmentAmount: fund.commitmentAmount,
+      before: getLegacyCashflowTotals(fundCashflows)
+    }
+
+    const existing = generalFunds.find(gf => gf.legacyFundId === fund.id)
+    if (existing) {
+      const rows = generalFundCashflows.filter(cf => cf.fundId === existing.id)
+      return { ...base, status: 'migrated', after: getCurveTotals(rows, fund.commitmentAmount) }
+    }
+    if (fund.commitmentAmount <= 0) {
+      return { ...base, status: 'skipped', note: 'No commitment amount to express cashflows against' }
+    }
+
+    const entry = convertLegacyFund(fund, fundCashflows, library)
+    fundEntries.push(entry)
+    return {
+      ...base,
+      status: 'new',
+      note: fundCashflows.length === 0 ? 'No cashflows; projections will use the fund type curve' : undefined,
+      after: getCurveTotals(entry.cashflows, fund.commitmentAmount)
+    }
+  })
+  const migratableFundIds = new Set(fundReport.filter(f => f.status !== 'skipped').map(f => f.legacyFundId))
+
+  const portfolioEntries: NewPortfolioEntry[] = []
+  const portfolioReport: LegacyPortfolioReconciliation[] = []
+  clients.forEach(client => {
+    (['current', 'target'] as const).forEach(positionType => {
+      const positions = clientPositions.filter(pos => pos.clientId === client.id && pos.positionType === positionType)
+      if (positions.length === 0) return
+
+      const before = {
+        positions: positions.length,
+        commitment: positions.reduce((sum, pos) => sum + pos.commitmentAmount, 0),
+        nav: positions.reduce((sum, pos) => sum + pos.currentNav, 0)
+      }
+      const base = { clientId: client.id, clientName: client.name, positionType, before }
+
+      const existing = portfolios.find(p => p.clientId === client.id && p.legacyPositionType === positionType)
+      if (existing) {
+        const existingPositions = portfolioPositions.filter(pos => pos.portfolioId === existing.id)
+        portfolioReport.push({
+          ...base,
+          status: 'migrated',
+          after: {
+            positions: existingPositions.length,
+            commitment: existingPositions.reduce((sum, pos) => sum + pos.commitmentAmount, 0)
+          }
+        })
+        return
+      }
+
+      const migrated = positions.filter(pos => migratableFundIds.has(pos.fundId))
+      const commitment = migrated.reduce((sum, pos) => sum + pos.commitmentAmount, 0)
+      const missing = positions.length - migrated.length
+      portfolioReport.push({
+        ...base,
+        status: migrated.length > 0 ? 'new' : 'skipped',
+        note: missing > 0 ? `${missing} positions hold funds that cannot be migrated` : undefined,
+        after: { positions: migrated.length, commitment }
+      })
+      if (migrated.length === 0) return
+
+      portfolioEntries.push({
+        portfolio: {
+          name: `${client.name} - ${positionTypeLabels[positionType]}`,
+          description: `Migrated from ${client.name}'s legacy ${positionType} positions`,
+          totalSize: commitment,
+          clientId: client.id,
+          legacyPositionType: positionType
+        },
+        positions: migrated.map(pos => ({
+          fundId: pos.fundId,
+          commitmentAmount: pos.commitmentAmount,
+          allocationPercentage: commitment > 0 ? (pos.commitmentAmount / commitment) * 100 : 0
+        }))
+      })
+    })
+  })
+
+  return { fundEntries, portfolioEntries, funds: fundReport, portfolios: portfolioReport }
+}
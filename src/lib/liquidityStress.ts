@@ -0,0 +1,144 @@
+import {
+  Cashflow, ClientFundPosition, Fund, FundTypeExpectation, LiquidityProjectionYear, LiquidityStressScenario,
+  LiquidityStressYear
+} from '../types'
+import { calculateExpectedCashflows } from '../data/fundExpectations'
+import { CalendarCashflow } from './calendarAlignment'
+
+// Projected calls and distributions from the start year onwards, with the unfunded commitments they draw on
+export interface LiquidityProjection {
+  years: LiquidityProjectionYear[]
+  unfundedCommitments: number
+}
+
+export interface LiquidityStressInput {
+  liquidAssets: number // Liquid resources available at the start
+  annualInflows: number // Expected non-fund inflows per year (contributions, income)
+  startYear: number
+  horizonYears: number
+  scenario: LiquidityStressScenario
+}
+
+export interface LiquidityStressResult {
+  years: LiquidityStressYear[]
+  firstShortfallYear?: number // First year the calls cannot be funded
+  minimumCoverageRatio?: number
+}
+
+const addProjectionYear = (years: Map<number, LiquidityProjectionYear>, year: number, calls: number, distributions: number) => {
+  const projectionYear = years.get(year) || { year, calls: 0, distributions: 0 }
+  projectionYear.calls += calls
+  projectionYear.distributions += distributions
+  years.set(year, projectionYear)
+}
+
+const sortProjectionYears = (years: Map<number, LiquidityProjectionYear>) =>
+  Array.from(years.values()).sort((a, b) => a.year - b.year)
+
+// Legacy model: scale each fund's reported calls to the client's commitment and project the rest
+// of the commitment with the fund type pattern, capped at what is still unfunded
+export const buildLegacyLiquidityProjection = (
+  positions: ClientFundPosition[],
+  funds: Fund[],
+  cashflows: Cashflow[],
+  startYear: number,
+  library: FundTypeExpectation[]
+): LiquidityProjection => {
+  const years = new Map<number, LiquidityProjectionYear>()
+  let unfundedCommitments = 0
+
+  positions.forEach(position => {
+    const fund = funds.find(f => f.id === position.fundId)
+    if (!fund || fund.commitmentAmount <= 0) return
+
+    const scalingFactor = position.commitmentAmount / fund.commitmentAmount
+    const calledToDate = cashflows
+      .filter(cf => cf.fundId === fund.id && cf.year < startYear)
+      .reduce((sum, cf) => sum + cf.calls * scalingFactor, 0)
+    let remaining = Math.max(position.commitmentAmount - calledToDate, 0)
+    unfundedCommitments += remaining
+
+    calculateExpectedCashflows(library, { ...fund, commitmentAmount: position.commitmentAmount })
+      .filter(cf => cf.year >= startYear)
+      .forEach(cf => {
+        const calls = Math.min(cf.calls, remaining)
+        remaining -= calls
+        addProjectionYear(years, cf.year, calls, cf.distributions)
+      })
+  })
+
+  return { years: sortProjectionYears(years), unfundedCommitments }
+}
+
+// Portfolio model: use the calendar-aligned cashflows of the positions (contributions are negative)
+export const buildPortfolioLiquidityProjection = (
+  calendarCashflows: CalendarCashflow[],
+  totalCommitment: number,
+  startYear: number
+): LiquidityProjection => {
+  const years = new Map<number, LiquidityProjectionYear>()
+  let calledToDate = 0
+
+  calendarCashflows.forEach(cf => {
+    if (cf.year < startYear) {
+      calledToDate += Math.abs(cf.contributions)
+    } else {
+      addProjectionYear(years, cf.year, Math.abs(cf.contributions), cf.distributions)
+    }
+  })
+
+  return {
+    years: sortProjectionYears(years),
+    unfundedCommitments: Math.max(totalCommitment - calledToDate, 0)
+  }
+}
+
+// Roll liquid resources forward year by year under the stress scenario.
+// During the stress calls are accelerated (drawing forward future calls, never beyond the unfunded
+// commitment) and part of the distributions is withheld; withheld distributions are not recovered
+// within the horizon.
+export const runLiquidityStressTest = (
+  projection: LiquidityProjection,
+  input: LiquidityStressInput
+): LiquidityStressResult => {
+  const { scenario } = input
+  const years: LiquidityStressYear[] = []
+  let liquidity = input.liquidAssets
+  let unfunded = projection.unfundedCommitments
+
+  for (let yearIndex = 0; yearIndex < input.horizonYears; yearIndex++) {
+    const year = input.startYear + yearIndex
+    const projected = projection.years.find(p => p.year === year) || { year, calls: 0, distributions: 0 }
+    const isStressed = yearIndex < scenario.durationYears
+
+    const stressedCalls = isStressed ? projected.calls * (1 + scenario.callAcceleration / 100) : projected.calls
+    const calls = Math.min(stressedCalls, unfunded)
+    const distributions = isStressed
+      ? projected.distributions * (1 - scenario.distributionReduction / 100)
+      : projected.distributions
+
+    const openingLiquidity = liquidity
+    const availableResources = openingLiquidity + distributions + input.annualInflows
+    liquidity = availableResources - calls
+    unfunded -= calls
+
+    years.push({
+      year,
+      openingLiquidity,
+      calls,
+      distributions,
+      otherInflows: input.annualInflows,
+      closingLiquidity: liquidity,
+      unfundedCommitments: unfunded,
+      coverageRatio: calls > 0 ? availableResources / calls : undefined
+    })
+  }
+
+  const coverageRatios = years.flatMap(y => (y.coverageRatio !== undefined ? [y.coverageRatio] : []))
+
+  return {
+    years,
+    firstShortfallYear: years.find(y => y.closingLiquidity < 0)?.year,
+    minimumCoverageRatio: coverageRatios.length > 0 ? Math.min(...coverageRatios) : undefined
+  }
+}
@@ -0,0 +1,178 @@
+import { MonteCarloConfig, MonteCarloResult, MonteCarloYear, PercentileBand } from '../types'
+import { CalendarCashflow, fromQuarterIndex, toQuarterIndex } from './calendarAlignment'
+
+// A portfolio position as seen by the simulation: its base-case quarterly cashflows on the calendar
+export interface SimulationPosition {
+  fundType: string
+  cashflows: CalendarCashflow[]
+}
+
+export const defaultMonteCarloConfig: MonteCarloConfig = {
+  paths: 2000,
+  seed: 42,
+  callTimingStdDev: 0.5,
+  distributionTimingStdDev: 1,
+  multipleDistribution: 'lognormal',
+  multipleVolatility: 25,
+  fundTypeCorrelation: 0.5,
+  liquidityLimit: 0
+}
+
+// Seeded uniform generator (mulberry32) so the same settings always give the same bands
+const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Standard normal draws via Box-Muller
+const createNormal = (random: () => number) => () => {
+  const u = 1 - random()
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+// One-factor model: every fund type loads on a common shock with the configured correlation
+const drawCorrelatedShocks = (fundTypes: string[], correlation: number, normal: () => number) => {
+  const rho = Math.min(Math.max(correlation, 0), 1)
+  const common = normal()
+  return new Map(fundTypes.map(fundType => [fundType, Math.sqrt(rho) * common + Math.sqrt(1 - rho) * normal()]))
+}
+
+// Mean-one multiple factor applied to distributions and NAV
+const getMultipleFactor = (shock: number, config: MonteCarloConfig) => {
+  const volatility = config.multipleVolatility / 100
+  if (config.multipleDistribution === 'lognormal') {
+    return Math.exp(volatility * shock - (volatility * volatility) / 2)
+  }
+  return Math.max(1 + volatility * shock, 0)
+}
+
+// Timing shifts are whole quarters, capped at three standard deviations
+const getMaxShift = (stdDevYears: number) => Math.ceil(Math.max(stdDevYears, 0) * 3 * 4)
+
+const getQuarterShift = (shock: number, stdDevYears: number) => {
+  const maxShift = getMaxShift(stdDevYears)
+  return Math.min(Math.max(Math.round(shock * stdDevYears * 4), -maxShift), maxShift)
+}
+
+const getPercentile = (sortedValues: Float64Array, percentile: number) => {
+  const position = (sortedValues.length - 1) * percentile
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (position - lower)
+}
+
+const getBand = (values: Float64Array): PercentileBand => {
+  const sorted = Float64Array.from(values).sort()
+  return {
+    p5: getPercentile(sorted, 0.05),
+    p50: getPercentile(sorted, 0.5),
+    p95: getPercentile(sorted, 0.95)
+  }
+}
+
+// Simulate portfolio cashflows by randomising call timing, distribution timing and fund multiples.
+// Calls and distributions never move before a position's commitment quarter; NAV follows the
+// distribution timing so delayed exits keep capital invested for longer.
+export const runMonteCarloSimulation = (
+  positions: SimulationPosition[],
+  config: MonteCarloConfig
+): MonteCarloResult | null => {
+  const activePositions = positions.filter(position => position.cashflows.length > 0)
+  const paths = Math.max(Math.floor(config.paths), 0)
+  if (activePositions.length === 0 || paths === 0) return null
+
+  // Quarter indices relative to the first quarter of the portfolio
+  const quarterIndices = activePositions.flatMap(position => position.cashflows.map(cf => toQuarterIndex(cf.year, cf.quarter)))
+  const baseIndex = Math.min(...quarterIndices)
+  const lastIndex = Math.max(...quarterIndices)
+  const maxDelay = Math.max(getMaxShift(config.callTimingStdDev), getMaxShift(config.distributionTimingStdDev))
+  const quarterCount = lastIndex - baseIndex + 1 + maxDelay
+
+  const firstYear = fromQuarterIndex(baseIndex).year
+  const yearCount = fromQuarterIndex(baseIndex + quarterCount - 1).year - firstYear + 1
+  const quarterYear = Array.from({ length: quarterCount }, (_, q) => fromQuarterIndex(baseIndex + q).year - firstYear)
+
+  const basePositions = activePositions.map(position => {
+    const indices = position.cashflows.map(cf => toQuarterIndex(cf.year, cf.quarter) - baseIndex)
+    const start = Math.min(...indices)
+    const end = Math.max(...indices)
+    const navByQuarter = new Float64Array(end - start + 1)
+    position.cashflows.forEach((cf, i) => { navByQuarter[indices[i] - start] += cf.nav })
+    return { fundType: position.fundType, cashflows: position.cashflows, indices, start, end, navByQuarter }
+  })
+  const fundTypes = Array.from(new Set(basePositions.map(position => position.fundType)))
+
+  const normal = createNormal(createRandom(config.seed))
+  const netByYear = Array.from({ length: yearCount }, () => new Float64Array(paths))
+  const cumulativeByYear = Array.from({ length: yearCount }, () => new Float64Array(paths))
+  const navByYear = Array.from({ length: yearCount }, () => new Float64Array(paths))
+  let breaches = 0
+
+  for (let path = 0; path < paths; path++) {
+    const callShocks = drawCorrelatedShocks(fundTypes, config.fundTypeCorrelation, normal)
+    const distributionShocks = drawCorrelatedShocks(fundTypes, config.fundTypeCorrelation, normal)
+    const multipleShocks = drawCorrelatedShocks(fundTypes, config.fundTypeCorrelation, normal)
+
+    const netFlows = new Float64Array(quarterCount)
+    const nav = new Float64Array(quarterCount)
+
+    basePositions.forEach(position => {
+      const callShift = getQuarterShift(callShocks.get(position.fundType) || 0, config.callTimingStdDev)
+      const distributionShift = getQuarterShift(distributionShocks.get(position.fundType) || 0, config.distributionTimingStdDev)
+      const multiple = getMultipleFactor(multipleShocks.get(position.fundType) || 0, config)
+
+      position.cashflows.forEach((cf, i) => {
+        const index = position.indices[i]
+        netFlows[Math.max(index + callShift, position.start)] += cf.contributions
+        netFlows[Math.max(index + distributionShift, position.start)] += cf.distributions * multiple
+      })
+
+      // NAV is a stock, so read the base curve at the shifted quarter instead of moving amounts
+      const navEnd = Math.min(position.end + Math.max(distributionShift, 0), quarterCount - 1)
+      for (let q = position.start; q <= navEnd; q++) {
+        const source = Math.min(Math.max(q - distributionShift, position.start), position.end)
+        nav[q] += position.navByQuarter[source - position.start] * multiple
+      }
+    })
+
+    let cumulativeNet = 0
+    let lowestCumulative = 0
+    for (let q = 0; q < quarterCount; q++) {
+      const yearIndex = quarterYear[q]
+      cumulativeNet += netFlows[q]
+      lowestCumulative = Math.min(lowestCumulative, cumulativeNet)
+      netByYear[yearIndex][path] += netFlows[q]
+      cumulativeByYear[yearIndex][path] = cumulativeNet
+      navByYear[yearIndex][path] = nav[q]
+    }
+    if (-lowestCumulative > config.liquidityLimit) breaches++
+  }
+
+  const years: MonteCarloYear[] = netByYear.map((_, yearIndex) => ({
+    year: firstYear + yearIndex,
+    netCashflow: getBand(netByYear[yearIndex]),
+    cumulativeNet: getBand(cumulativeByYear[yearIndex]),
+    nav: getBand(navByYear[yearIndex])
+  }))
+
+  // Drop trailing padding years where no path has any activity left
+  while (years.length > 1) {
+    const last = years[years.length - 1]
+    const idle = [last.netCashflow.p5, last.netCashflow.p95, last.nav.p95].every(value => Math.abs(value) < 1e-6)
+    if (!idle) break
+    years.pop()
+  }
+
+  return {
+    years,
+    breachProbability: (breaches / paths) * 100,
+    paths
+  }
+}
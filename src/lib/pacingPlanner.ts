@@ -0,0 +1,104 @@
+import { FundTypeExpectation, PacingPlanInput, PacingPlanYear } from '../types'
+import { calculateExpectedCashflows } from '../data/fundExpectations'
+
+// Per-unit-of-commitment curves indexed by fund age (0 = vintage year)
+interface UnitCurve {
+  calls: number[]
+  distributions: number[]
+  nav: number[]
+}
+
+const valueAt = (values: number[], age: number) => (age >= 0 && age < values.length ? values[age] : 0)
+
+// Normalise the fund type mix so the weights sum to one, dropping empty entries
+const normaliseMix = (fundTypeMix: Record<string, number>) => {
+  const entries = Object.entries(fundTypeMix).filter(([, weight]) => weight > 0)
+  const totalWeight = entries.reduce((sum, [, weight]) => sum + weight, 0)
+  return entries.map(([fundType, weight]) => ({ fundType, weight: weight / totalWeight }))
+}
+
+// Blend the fund type curves into one curve per unit of total annual commitment
+const getBlendedUnitCurve = (
+  mix: { fundType: string; weight: number }[],
+  library: FundTypeExpectation[]
+): UnitCurve => {
+  const blended: UnitCurve = { calls: [], distributions: [], nav: [] }
+
+  mix.forEach(({ fundType, weight }) => {
+    const projection = calculateExpectedCashflows(library, { commitmentAmount: 1, fundType, vintage: 0 })
+    projection.forEach((cf, age) => {
+      blended.calls[age] = (blended.calls[age] || 0) + cf.calls * weight
+      blended.distributions[age] = (blended.distributions[age] || 0) + cf.distributions * weight
+      blended.nav[age] = (blended.nav[age] || 0) + cf.nav * weight
+    })
+  })
+
+  return blended
+}
+
+const getTotalPlanSize = (input: PacingPlanInput, yearIndex: number) =>
+  input.totalPlanSize * Math.pow(1 + input.planGrowthRate / 100, yearIndex)
+
+const getTargetNav = (input: PacingPlanInput, yearIndex: number) =>
+  input.targetType === 'nav'
+    ? input.targetNav
+    : getTotalPlanSize(input, yearIndex) * input.targetAllocation / 100
+
+// Solve for the annual commitments that bring projected NAV to the target.
+// Each vintage is sized so that NAV reaches the target in the year the blended curve peaks,
+// net of the NAV still expected from earlier vintages and assuming the vintages until then
+// commit in step with their own targets (later vintages re-solve with what has actually been
+// committed). With a growing target, assuming a flat commitment instead overshoots later years.
+export const solveCommitmentPacing = (input: PacingPlanInput, library: FundTypeExpectation[]): PacingPlanYear[] => {
+  const mix = normaliseMix(input.fundTypeMix)
+  if (mix.length === 0 || input.horizonYears <= 0) return []
+
+  const curve = getBlendedUnitCurve(mix, library)
+  if (curve.nav.length === 0) return []
+
+  const peakAge = curve.nav.reduce((maxAge, nav, age) => (nav > curve.nav[maxAge] ? age : maxAge), 0)
+  const commitments: number[] = []
+
+  for (let yearIndex = 0; yearIndex < input.horizonYears; yearIndex++) {
+    const targetYearIndex = yearIndex + peakAge
+    const targetNav = getTargetNav(input, targetYearIndex)
+    // NAV in the target year per unit of this commitment, the vintages after it scaled by their targets
+    const navPerUnitToPeak = targetNav > 0
+      ? curve.nav.slice(0, peakAge + 1).reduce((sum, nav, age) =>
+        sum + nav * getTargetNav(input, yearIndex + 2 * peakAge - age) / targetNav, 0)
+      : 0
+    const navFromPriorVintages = commitments.reduce(
+      (sum, commitment, vintageIndex) => sum + commitment * valueAt(curve.nav, targetYearIndex - vintageIndex),
+      0
+    )
+    const shortfall = targetNav - navFromPriorVintages
+    commitments.push(navPerUnitToPeak > 0 ? Math.max(shortfall / navPerUnitToPeak, 0) : 0)
+  }
+
+  return commitments.map((totalCommitment, yearIndex) => {
+    let calls = 0
+    let distributions = 0
+    let projectedNav = 0
+
+    commitments.forEach((commitment, vintageIndex) => {
+      const age = yearIndex - vintageIndex
+      calls += commitment * valueAt(curve.calls, age)
+      distributions += commitment * valueAt(curve.distributions, age)
+      projectedNav += commitment * valueAt(curve.nav, age)
+    })
+
+    const totalPlanSize = getTotalPlanSize(input, yearIndex)
+
+    return {
+      year: input.startYear + yearIndex,
+      totalPlanSize,
+      targetNav: getTargetNav(input, yearIndex),
+      commitments: Object.fromEntries(mix.map(({ fundType, weight }) => [fundType, totalCommitment * weight])),
+      totalCommitment,
+      calls,
+      distributions,
+      projectedNav,
+      allocationPercentage: totalPlanSize > 0 ? (projectedNav / totalPlanSize) * 100 : 0
+    }
+  })
+}
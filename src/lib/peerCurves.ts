@@ -0,0 +1,154 @@
+import {
+  FundTypeExpectation, GeneralFund, GeneralFundNetCashflow, PeerCurveYear, PeerGroupFilter, PeerStatistic, PeerStatistics
+} from '../types'
+import { calculateXIRR, getQuarterEndDate } from './performanceMetrics'
+
+export const peerStatistics: { id: PeerStatistic; label: string }[] = [
+  { id: 'median', label: 'Median' },
+  { id: 'mean', label: 'Mean' },
+  { id: 'lowerQuartile', label: 'Lower Quartile' },
+  { id: 'upperQuartile', label: 'Upper Quartile' }
+]
+
+export const getPeerStatisticLabel = (statistic: PeerStatistic) =>
+  peerStatistics.find(s => s.id === statistic)?.label || statistic
+
+// Relative years are dated from a fixed base year when the IRR of a curve is calculated
+const CURVE_BASE_YEAR = 2000
+
+const matchesText = (value: string, filter?: string) =>
+  !filter || value.trim().toLowerCase() === filter.trim().toLowerCase()
+
+// General funds in the peer group; unset filter fields match every fund
+export const filterPeerFunds = (funds: GeneralFund[], filter: PeerGroupFilter) =>
+  funds.filter(fund =>
+    matchesText(fund.fundType, filter.fundType) &&
+    matchesText(fund.strategy, filter.strategy) &&
+    matchesText(fund.geography, filter.geography) &&
+    (filter.vintageFrom === undefined || fund.vintage >= filter.vintageFrom) &&
+    (filter.vintageTo === undefined || fund.vintage <= filter.vintageTo)
+  )
+
+// Interpolated percentile of values sorted in ascending order
+const getPercentile = (sortedValues: number[], percentile: number) => {
+  const position = (sortedValues.length - 1) * percentile
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (position - lower)
+}
+
+const getStatistics = (values: number[]): PeerStatistics => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return {
+    mean: values.reduce((sum, value) => sum + value, 0) / values.length,
+    median: getPercentile(sorted, 0.5),
+    lowerQuartile: getPercentile(sorted, 0.25),
+    upperQuartile: getPercentile(sorted, 0.75)
+  }
+}
+
+// One fund's curve per relative year in percentage points: quarters are summed and the NAV is the
+// one reported for the year's last quarter
+export const getFundYearlyCurve = (rows: GeneralFundNetCashflow[]) => {
+  const byYear = new Map<number, { contributions: number; distributions: number; nav: number; quarter: number }>()
+  rows.forEach(row => {
+    const quarter = row.quarter || 4
+    const year = byYear.get(row.year) || { contributions: 0, distributions: 0, nav: 0, quarter: 0 }
+    year.contributions += -row.contributionsPercentage * 100
+    year.distributions += row.distributionsPercentage * 100
+    if (quarter >= year.quarter) {
+      year.nav = row.navPercentage * 100
+      year.quarter = quarter
+    }
+    byYear.set(row.year, year)
+  })
+  return byYear
+}
+
+// Peer statistics per relative year from the uploaded cashflows of the funds. Each fund only counts
+// in the years it has cashflow rows for, so younger funds do not pull the later years towards zero.
+export const buildPeerCurves = (funds: GeneralFund[], cashflows: GeneralFundNetCashflow[]): PeerCurveYear[] => {
+  const fundIds = new Set(funds.map(fund => fund.id))
+  const rowsByFund = new Map<string, GeneralFundNetCashflow[]>()
+  cashflows.filter(cf => fundIds.has(cf.fundId)).forEach(cf => {
+    rowsByFund.set(cf.fundId, [...(rowsByFund.get(cf.fundId) || []), cf])
+  })
+
+  const valuesByYear = new Map<number, { contributions: number[]; distributions: number[]; nav: number[] }>()
+  rowsByFund.forEach(rows => {
+    getFundYearlyCurve(rows).forEach((values, year) => {
+      const yearValues = valuesByYear.get(year) || { contributions: [], distributions: [], nav: [] }
+      yearValues.contributions.push(values.contributions)
+      yearValues.distributions.push(values.distributions)
+      yearValues.nav.push(values.nav)
+      valuesByYear.set(year, yearValues)
+    })
+  })
+
+  return Array.from(valuesByYear.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([year, values]) => ({
+      year,
+      fundCount: values.contributions.length,
+      contributions: getStatistics(values.contributions),
+      distributions: getStatistics(values.distributions),
+      nav: getStatistics(values.nav)
+    }))
+}
+
+// Peers that contributed to the curves (every fund with data has a first year)
+export const getPeerCurveFundCount = (curves: PeerCurveYear[]) =>
+  curves.reduce((max, year) => Math.max(max, year.fundCount), 0)
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined
+
+// Library entry for one statistic of the peer curves. The multiple and IRR are those of the resulting
+// curve (remaining NAV counted at the end); fees and carry are the peer averages.
+export const buildPeerExpectation = (
+  curves: PeerCurveYear[],
+  peers: GeneralFund[],
+  filter: PeerGroupFilter,
+  statistic: PeerStatistic,
+  name: string
+): Omit<FundTypeExpectation, 'id'> => {
+  // Patterns start at year 1; years without peer data are zero
+  const lifespan = curves.length > 0 ? curves[curves.length - 1].year : 0
+  const toPattern = (value: (year: PeerCurveYear) => PeerStatistics) => Array.from({ length: lifespan }, (_, i) => {
+    const year = curves.find(y => y.year === i + 1)
+    return year ? round(value(year)[statistic]) : 0
+  })
+  const callPattern = toPattern(year => year.contributions)
+  const distributionPattern = toPattern(year => year.distributions)
+  const navPattern = toPattern(year => year.nav)
+
+  const called = callPattern.reduce((sum, value) => sum + value, 0)
+  const distributed = distributionPattern.reduce((sum, value) => sum + value, 0)
+  const finalNav = navPattern[navPattern.length - 1] || 0
+  const irr = calculateXIRR(callPattern.map((call, i) => ({
+    date: getQuarterEndDate(CURVE_BASE_YEAR + i, 4),
+    amount: distributionPattern[i] - call + (i === lifespan - 1 ? finalNav : 0)
+  })))
+
+  return {
+    fundType: filter.fundType || peers[0]?.fundType || '',
+    strategy: name,
+    avgLifespan: lifespan,
+    callPattern,
+    distributionPattern,
+    navPattern,
+    avgMultiple: called > 0 ? round((distributed + finalNav) / called) : 0,
+    avgIRR: irr !== undefined ? round(irr * 100) : 0,
+    managementFeeRate: average(peers.filter(f => f.managementFeeRate !== undefined).map(f => f.managementFeeRate as number)),
+    carriedInterestRate: average(peers.filter(f => f.carriedInterestRate !== undefined).map(f => f.carriedInterestRate as number)),
+    projectionModel: 'pattern',
+    peerGroup: {
+      ...filter,
+      statistic,
+      fundCount: getPeerCurveFundCount(curves),
+      builtAt: new Date().toISOString()
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { BenchmarkIndexLevel, Cashflow, CashflowAnalysis } from '../types'
+
+// A single dated cashflow from the LP's perspective (negative = paid in, positive = received)
+export interface DatedCashflow {
+  date: Date
+  amount: number
+}
+
+const DAYS_PER_YEAR = 365
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+// Cashflows are recorded per quarter, so they are dated on the last day of that quarter. Dated in UTC
+// like the ISO dates of the benchmark index, so index lookups do not depend on the viewer's timezone.
+export const getQuarterEndDate = (year: number, quarter: number) => new Date(Date.UTC(year, quarter * 3, 0))
+
+const sortByPeriod = (cashflows: Cashflow[]) =>
+  [...cashflows].sort((a, b) => a.year - b.year || a.quarter - b.quarter)
+
+const yearsBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / MS_PER_DAY / DAYS_PER_YEAR
+
+const getNetPresentValue = (cashflows: DatedCashflow[], rate: number) => {
+  const firstDate = cashflows[0].date
+  return cashflows.reduce((sum, cf) => sum + cf.amount / Math.pow(1 + rate, yearsBetween(firstDate, cf.date)), 0)
+}
+
+const getNetPresentValueDerivative = (cashflows: DatedCashflow[], rate: number) => {
+  const firstDate = cashflows[0].date
+  return cashflows.reduce((sum, cf) => {
+    const t = yearsBetween(firstDate, cf.date)
+    return sum - t * cf.amount / Math.pow(1 + rate, t + 1)
+  }, 0)
+}
+
+// Annualised internal rate of return on irregularly dated cashflows (as a decimal).
+// Newton's method from a 10% guess, falling back to bisection when it does not converge.
+// Returns undefined unless there is at least one outflow and one inflow.
+export const calculateXIRR = (cashflows: DatedCashflow[]): number | undefined => {
+  const sorted = cashflows
+    .filter(cf => cf.amount !== 0 && !isNaN(cf.date.getTime()))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+  if (!sorted.some(cf => cf.amount < 0) || !sorted.some(cf => cf.amount > 0)) return undefined
+
+  let rate = 0.1
+  for (let i = 0; i < 50; i++) {
+    const npv = getNetPresentValue(sorted, rate)
+    const derivative = getNetPresentValueDerivative(sorted, rate)
+    if (derivative === 0) break
+    const nextRate = rate - npv / derivative
+    if (!isFinite(nextRate) || nextRate <= -1) break
+    if (Math.abs(nextRate - rate) < 1e-7) return nextRate
+    rate = nextRate
+  }
+
+  let low = -0.9999
+  let high = 10
+  let npvLow = getNetPresentValue(sorted, low)
+  if (npvLow * getNetPresentValue(sorted, high) > 0) return undefined
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    const npvMid = getNetPresentValue(sorted, mid)
+    if (Math.abs(npvMid) < 1e-7 || high - low < 1e-9) return mid
+    if (npvLow * npvMid < 0) {
+      high = mid
+    } else {
+      low = mid
+      npvLow = npvMid
+    }
+  }
+  return (low + high) / 2
+}
+
+// Benchmark index level on a date: the latest observation on or before it (or the first one)
+const getIndexLevel = (indexSeries: BenchmarkIndexLevel[], date: Date) => {
+  let level = indexSeries[0].value
+  for (const observation of indexSeries) {
+    if (new Date(observation.date).getTime() > date.getTime()) break
+    level = observation.value
+  }
+  return level
+}
+
+// Kaplan-Schoar PME: index-compounded distributions plus final NAV over index-compounded calls
+export const calculateKaplanSchoarPME = (
+  cashflows: { date: Date; calls: number; distributions: number }[],
+  nav: number,
+  valuationDate: Date,
+  indexSeries: BenchmarkIndexLevel[]
+): number | undefined => {
+  const sortedIndex = indexSeries
+    .filter(level => level.value > 0 && !isNaN(new Date(level.date).getTime()))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+  if (sortedIndex.length === 0) return undefined
+
+  const finalLevel = getIndexLevel(sortedIndex, valuationDate)
+  let compoundedCalls = 0
+  let compoundedDistributions = 0
+
+  cashflows.forEach(cf => {
+    const growthToValuation = finalLevel / getIndexLevel(sortedIndex, cf.date)
+    compoundedCalls += cf.calls * growthToValuation
+    compoundedDistributions += cf.distributions * growthToValuation
+  })
+
+  return compoundedCalls > 0 ? (compoundedDistributions + nav) / compoundedCalls : undefined
+}
+
+// Full performance analysis for a fund's quarterly cashflows.
+// scalingFactor converts fund-level flows to an LP's share; currentNav overrides the latest reported NAV.
+export const analyzeFundPerformance = (
+  cashflows: Cashflow[],
+  options: { scalingFactor?: number; currentNav?: number; benchmarkIndex?: BenchmarkIndexLevel[] } = {}
+): CashflowAnalysis => {
+  const scalingFactor = options.scalingFactor ?? 1
+  const sorted = sortByPeriod(cashflows)
+  const latestCashflow = sorted[sorted.length - 1]
+
+  const datedFlows = sorted.map(cf => ({
+    date: getQuarterEndDate(cf.year, cf.quarter),
+    calls: cf.calls * scalingFactor,
+    distributions: cf.distributions * scalingFactor
+  }))
+  const totalCalls = datedFlows.reduce((sum, cf) => sum + cf.calls, 0)
+  const totalDistributions = datedFlows.reduce((sum, cf) => sum + cf.distributions, 0)
+  const currentNav = options.currentNav ?? (latestCashflow ? latestCashflow.nav * scalingFactor : 0)
+  const valuationDate = latestCashflow ? getQuarterEndDate(latestCashflow.year, latestCashflow.quarter) : new Date()
+
+  // Residual NAV is treated as a terminal inflow on the valuation date
+  const irr = calculateXIRR([
+    ...datedFlows.map(cf => ({ date: cf.date, amount: cf.distributions - cf.calls })),
+    { date: valuationDate, amount: currentNav }
+  ])
+
+  return {
+    totalCalls,
+    totalDistributions,
+    netCashflow: totalDistributions - totalCalls,
+    currentNav,
+    multiple: totalCalls > 0 ? (totalDistributions + currentNav) / totalCalls : 0,
+    dpi: totalCalls > 0 ? totalDistributions / totalCalls : 0,
+    rvpi: totalCalls > 0 ? currentNav / totalCalls : 0,
+    irr: irr !== undefined ? irr * 100 : undefined,
+    pme: options.benchmarkIndex
+      ? calculateKaplanSchoarPME(datedFlows, currentNav, valuationDate, options.benchmarkIndex)
+      : undefined
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  FundTypeExpectation, GeneralFund, GeneralFundNetCashflow, PortfolioPosition, PortfolioScenario, QuarterlySpreadRuleId
+} from '../types'
+import {
+  calculateProjectedNetCashflowCurve, getFundTypeExpectationById, getQuarterlySpreadWeights, resolveFundType
+} from '../data/fundExpectations'
+import { applyScenarioToNetCashflowCurve } from './scenarioShocks'
+import { CalendarCashflow, alignCurveToCalendar, getCommitmentStart, toQuarterIndex } from './calendarAlignment'
+import { NetCalendarCashflow, applyFeesAndCarry } from './feeEngine'
+
+// Relative-year curve of a position: a library curve chosen for the position comes first, then
+// uploaded cashflow rows, otherwise the fund's projection model
+export const getPositionCashflowCurve = (
+  position: Pick<PortfolioPosition, 'fundId' | 'expectationId'>,
+  fund: GeneralFund | undefined,
+  generalFundCashflows: GeneralFundNetCashflow[],
+  library: FundTypeExpectation[]
+): Omit<GeneralFundNetCashflow, 'id' | 'createdAt' | 'updatedAt' | 'userId'>[] => {
+  if (fund && position.expectationId && getFundTypeExpectationById(library, position.expectationId)) {
+    return calculateProjectedNetCashflowCurve(library, fund, position.expectationId)
+  }
+
+  const uploadedCashflows = generalFundCashflows.filter(cf => cf.fundId === position.fundId)
+  if (uploadedCashflows.length > 0) return uploadedCashflows
+
+  return fund ? calculateProjectedNetCashflowCurve(library, fund) : []
+}
+
+// Quarterly cashflows of a position, optionally under a scenario, placed on the calendar from its
+// commitment date. Annual curves are spread over quarters by the spread rule.
+export const getPositionCalendarCashflows = (
+  position: PortfolioPosition,
+  generalFunds: GeneralFund[],
+  generalFundCashflows: GeneralFundNetCashflow[],
+  library: FundTypeExpectation[],
+  scenario?: PortfolioScenario,
+  spreadRule: QuarterlySpreadRuleId = 'even'
+): CalendarCashflow[] => {
+  const fund = generalFunds.find(f => f.id === position.fundId)
+  const fundType = fund ? resolveFundType(library, fund.fundType) || fund.fundType : ''
+  const curve = getPositionCashflowCurve(position, fund, generalFundCashflows, library)
+  return alignCurveToCalendar(
+    scenario ? applyScenarioToNetCashflowCurve(curve, scenario, fundType) : curve,
+    position.commitmentAmount,
+    getCommitmentStart(position, fund),
+    getQuarterlySpreadWeights(spreadRule)
+  )
+}
+
+// Net-to-LP quarterly cashflows of a position: its gross calendar cashflows after the fund's
+// management fee and carried interest
+export const getPositionNetCashflows = (
+  position: PortfolioPosition,
+  generalFunds: GeneralFund[],
+  generalFundCashflows: GeneralFundNetCashflow[],
+  library: FundTypeExpectation[],
+  scenario?: PortfolioScenario,
+  spreadRule: QuarterlySpreadRuleId = 'even'
+): NetCalendarCashflow[] => applyFeesAndCarry(
+  getPositionCalendarCashflows(position, generalFunds, generalFundCashflows, library, scenario, spreadRule),
+  position.commitmentAmount,
+  library,
+  generalFunds.find(f => f.id === position.fundId)
+)
+
+// Projected NAV at the end of a calendar year: the NAV of the last quarter up to then (calendar
+// cashflows are in date order), zero before the first cashflow
+export const getNavAtYearEnd = (cashflows: CalendarCashflow[], year: number) => {
+  const upToYearEnd = cashflows.filter(cf => toQuarterIndex(cf.year, cf.quarter) <= toQuarterIndex(year, 4))
+  return upToYearEnd.length > 0 ? upToYearEnd[upToYearEnd.length - 1].nav : 0
+}
@@ -0,0 +1,30 @@
+import { PortfolioPosition } from '../types'
+
+// Share of the portfolio size a commitment represents, in %
+export const getAllocationPercentage = (commitmentAmount: number, totalSize: number) =>
+  totalSize > 0 ? (commitmentAmount / totalSize) * 100 : 0
+
+export const getCommitmentAmount = (allocationPercentage: number, totalSize: number) =>
+  (allocationPercentage / 100) * totalSize
+
+// Amount by which the commitments exceed the portfolio size (zero when within it)
+export const getOverCommitment = (positions: Pick<PortfolioPosition, 'commitmentAmount'>[], totalSize: number) =>
+  Math.max(positions.reduce((sum, pos) => sum + pos.commitmentAmount, 0) - totalSize, 0)
+
+// Allocation percentages recomputed against the portfolio size, e.g. after it changed
+export const recalculateAllocations = (positions: PortfolioPosition[], totalSize: number) =>
+  Object.fromEntries(positions.map(pos => [
+    pos.id,
+    { allocationPercentage: getAllocationPercentage(pos.commitmentAmount, totalSize) }
+  ])) as Record<string, Partial<PortfolioPosition>>
+
+// Scale every commitment by the same factor so the positions add up to 100% of the portfolio size,
+// keeping their relative weights
+export const rebalancePositions = (positions: PortfolioPosition[], totalSize: number) => {
+  const totalCommitment = positions.reduce((sum, pos) => sum + pos.commitmentAmount, 0)
+  if (totalCommitment <= 0) return {}
+  return Object.fromEntries(positions.map(pos => {
+    const commitmentAmount = (pos.commitmentAmount / totalCommitment) * totalSize
+    return [pos.id, { commitmentAmount, allocationPercentage: getAllocationPercentage(commitmentAmount, totalSize) }]
+  })) as Record<string, Partial<PortfolioPosition>>
+}
@@ -0,0 +1,82 @@
+import {
+  Cashflow, CashflowExpectation, Fund, FundReprojection, FundRule, FundTypeExpectation, PortfolioScenario
+} from '../types'
+import { calculateExpectedCashflows, portfolioScenarios } from '../data/fundExpectations'
+import { applyFundRules } from './fundRules'
+
+const sumBy = <T>(items: T[], value: (item: T) => number) => items.reduce((sum, item) => sum + value(item), 0)
+
+// Re-base a fund's expected curve on its actuals ("recalibrate to actuals"). The part of the curve
+// after the last actual year is kept in shape but rescaled: calls to the unfunded commitment, and
+// distributions and NAV to the capital actually at work (current NAV plus the calls still to come)
+// against what the curve expected at that point. The latest actual year is treated as complete.
+// A fund past the end of its curve that still reports NAV distributes it in the following year.
+// The fund's active rules apply to the projected years, with the actuals counting towards profit.
+export const reprojectFundFromActuals = (
+  fund: Fund,
+  cashflows: Cashflow[],
+  library: FundTypeExpectation[],
+  scenario: PortfolioScenario = portfolioScenarios[1],
+  rules: FundRule[] = []
+): FundReprojection => {
+  const expectedCashflows = calculateExpectedCashflows(library, fund, scenario)
+  const actuals = cashflows
+    .filter(cf => cf.fundId === fund.id)
+    .sort((a, b) => a.year - b.year || a.quarter - b.quarter)
+
+  if (actuals.length === 0) {
+    return {
+      paidIn: 0,
+      distributed: 0,
+      currentNav: 0,
+      unfundedCommitment: fund.commitmentAmount,
+      cashflows: rules.length > 0 ? applyFundRules(expectedCashflows, rules, fund.commitmentAmount) : expectedCashflows
+    }
+  }
+
+  const latest = actuals[actuals.length - 1]
+  const lastActualYear = latest.year
+  const paidIn = sumBy(actuals, cf => cf.calls)
+  const distributed = sumBy(actuals, cf => cf.distributions)
+  const currentNav = latest.nav
+  const unfundedCommitment = Math.max(fund.commitmentAmount - paidIn, 0)
+
+  const remaining = expectedCashflows.filter(cf => cf.year > lastActualYear)
+  const elapsed = expectedCashflows.filter(cf => cf.year <= lastActualYear)
+  const expectedNav = elapsed.length > 0 ? elapsed[elapsed.length - 1].nav : 0
+  const expectedCalls = sumBy(remaining, cf => cf.calls)
+  const projectedCalls = expectedCalls > 0 ? unfundedCommitment : 0
+  const callScale = expectedCalls > 0 ? projectedCalls / expectedCalls : 0
+  const expectedCapital = expectedNav + expectedCalls
+  const valueScale = expectedCapital > 0 ? (currentNav + projectedCalls) / expectedCapital : 0
+
+  const projected: CashflowExpectation[] = remaining.map(cf => ({
+    ...cf,
+    calls: cf.calls * callScale,
+    distributions: cf.distributions * valueScale,
+    nav: cf.nav * valueScale
+  }))
+
+  const hasDistributions = projected.some(cf => cf.distributions > 0)
+  if (currentNav > 0 && !hasDistributions) {
+    projected.push({
+      year: Math.max(lastActualYear, ...projected.map(cf => cf.year)) + 1,
+      quarter: 4,
+      calls: 0,
+      distributions: currentNav,
+      nav: 0,
+      isProjected: true
+    })
+  }
+
+  return {
+    lastActualYear,
+    paidIn,
+    distributed,
+    currentNav,
+    unfundedCommitment,
+    cashflows: rules.length > 0
+      ? applyFundRules(projected, rules, fund.commitmentAmount, { paidIn, distributed })
+      : projected
+  }
+}
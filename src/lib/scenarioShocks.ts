@@ -0,0 +1,114 @@
+import { GeneralFundNetCashflow, PortfolioScenario, ScenarioShocks } from '../types'
+
+// Calls, distributions (positive amounts) and NAV of one period of a projection
+export interface ShockPeriod {
+  calls: number
+  distributions: number
+  nav: number
+}
+
+export const noScenarioShocks: ScenarioShocks = { callSpeed: 0, distributionDelay: 0, multipleHaircut: 0, navMarkdown: 0 }
+
+export const scenarioShockFields: { key: keyof ScenarioShocks; label: string; unit: string }[] = [
+  { key: 'callSpeed', label: 'Call Speed', unit: '%' },
+  { key: 'distributionDelay', label: 'Distribution Delay', unit: 'years' },
+  { key: 'multipleHaircut', label: 'Multiple Haircut', unit: '%' },
+  { key: 'navMarkdown', label: 'NAV Mark-Down', unit: '%' }
+]
+
+const hasShocks = (shocks: ScenarioShocks) => scenarioShockFields.some(({ key }) => shocks[key] !== 0)
+
+// Shocks of a scenario for a fund type: the fund type's own shocks when the scenario has them
+export const getScenarioShocks = (scenario: PortfolioScenario, fundType: string): ScenarioShocks | undefined => {
+  const typeKey = Object.keys(scenario.shocksByFundType || {})
+    .find(key => key.trim().toLowerCase() === fundType.trim().toLowerCase())
+  const shocks = typeKey ? scenario.shocksByFundType?.[typeKey] : scenario.shocks
+  return shocks && hasShocks(shocks) ? shocks : undefined
+}
+
+const cumulative = (values: number[]) => {
+  let sum = 0
+  return values.map(value => (sum += value))
+}
+
+// Apply scenario shocks to consecutive periods of a projection (years, or quarters with periodsPerYear 4).
+//  - Call speed compresses or stretches the time axis of cumulative calls; total calls are unchanged.
+//  - Distributions move by the delay; brought forward, they collect in the first period.
+//  - Capital called earlier or distributed later stays in NAV in the meantime.
+//  - The multiple haircut then scales distributions and NAV; the mark-down scales NAV only.
+// The result can be longer than the input when calls are slowed or distributions delayed.
+export const applyScenarioShocks = (periods: ShockPeriod[], shocks: ScenarioShocks, periodsPerYear = 1): ShockPeriod[] => {
+  const count = periods.length
+  if (count === 0) return []
+
+  const baseCalls = cumulative(periods.map(p => p.calls))
+  const baseDistributions = cumulative(periods.map(p => p.distributions))
+  const totalCalls = baseCalls[count - 1]
+  const totalDistributions = baseDistributions[count - 1]
+
+  // Cumulative base calls after a (fractional) number of elapsed periods
+  const callsAfter = (elapsed: number) => {
+    if (elapsed >= count) return totalCalls
+    const whole = Math.floor(elapsed)
+    const before = whole > 0 ? baseCalls[whole - 1] : 0
+    return before + (baseCalls[whole] - before) * (elapsed - whole)
+  }
+
+  const speed = Math.max(1 + shocks.callSpeed / 100, 0.1)
+  const delay = Math.round(shocks.distributionDelay * periodsPerYear)
+  const length = Math.max(count, Math.ceil(count / speed), count + Math.max(delay, 0))
+
+  const shockedCalls = Array.from({ length }, (_, i) => callsAfter((i + 1) * speed))
+  const shockedDistributions = Array.from({ length }, (_, i) => {
+    if (i - delay >= count) return totalDistributions
+    return i - delay >= 0 ? baseDistributions[i - delay] : 0
+  })
+
+  const keepDistributions = 1 - shocks.multipleHaircut / 100
+  const keepNav = keepDistributions * (1 - shocks.navMarkdown / 100)
+
+  return Array.from({ length }, (_, i) => {
+    const baseNav = periods[Math.min(i, count - 1)].nav
+    const baseCalled = i < count ? baseCalls[i] : totalCalls
+    const baseDistributed = i < count ? baseDistributions[i] : totalDistributions
+    const nav = baseNav + (shockedCalls[i] - baseCalled) + (baseDistributed - shockedDistributions[i])
+    return {
+      calls: shockedCalls[i] - (i > 0 ? shockedCalls[i - 1] : 0),
+      distributions: (shockedDistributions[i] - (i > 0 ? shockedDistributions[i - 1] : 0)) * keepDistributions,
+      nav: Math.max(nav, 0) * keepNav
+    }
+  })
+}
+
+// Scenario applied to a general fund's relative-year curve (fractions of commitment, calls negative).
+// Quarterly curves are shocked per quarter; added periods continue from the last row.
+export const applyScenarioToNetCashflowCurve = (
+  curve: Omit<GeneralFundNetCashflow, 'id' | 'createdAt' | 'updatedAt' | 'userId'>[],
+  scenario: PortfolioScenario,
+  fundType: string
+): Omit<GeneralFundNetCashflow, 'id' | 'createdAt' | 'updatedAt' | 'userId'>[] => {
+  const shocks = getScenarioShocks(scenario, fundType)
+  const scale = scenario.multiplier
+  if (curve.length === 0 || (!shocks && scale === 1)) return curve
+
+  const isQuarterly = curve.some(cf => cf.quarter)
+  const sorted = [...curve].sort((a, b) => a.year - b.year || (a.quarter || 0) - (b.quarter || 0))
+  const periods = sorted.map(cf => ({
+    calls: -cf.contributionsPercentage,
+    distributions: cf.distributionsPercentage * scale,
+    nav: cf.navPercentage * scale
+  }))
+  const shocked = shocks ? applyScenarioShocks(periods, shocks, isQuarterly ? 4 : 1) : periods
+
+  const first = sorted[0]
+  const firstIndex = isQuarterly ? (first.year - 1) * 4 + (first.quarter || 4) - 1 : first.year - 1
+  return shocked.map((period, i) => ({
+    fundId: first.fundId,
+    year: isQuarterly ? Math.floor((firstIndex + i) / 4) + 1 : firstIndex + i + 1,
+    quarter: isQuarterly ? ((firstIndex + i) % 4) + 1 : undefined,
+    netCashflowPercentage: period.distributions - period.calls,
+    contributionsPercentage: -period.calls,
+    distributionsPercentage: period.distributions,
+    navPercentage: period.nav
+  }))
+}
@@ -0,0 +1,58 @@
+import { TakahashiAlexanderParams } from '../types'
+
+// One projected year of the Takahashi-Alexander model (amounts in commitment currency)
+export interface TakahashiAlexanderYear {
+  year: number // Relative fund year, starting at 1
+  contributions: number
+  distributions: number
+  nav: number
+}
+
+// Default parameters as published for a typical buyout fund (Takahashi & Alexander, 2002)
+export const defaultTakahashiAlexanderParams: TakahashiAlexanderParams = {
+  contributionRates: [25, 33.3, 50],
+  bow: 2.5,
+  growthRate: 13,
+  yield: 0,
+  lifespan: 12
+}
+
+// Rate of contribution for a given year, the last configured rate applies to all later years
+const getContributionRate = (params: TakahashiAlexanderParams, year: number) => {
+  if (params.contributionRates.length === 0) return 0
+  const index = Math.min(year - 1, params.contributionRates.length - 1)
+  return (params.contributionRates[index] || 0) / 100
+}
+
+// Rate of distribution: RD = max(Y, (t / L) ^ B), reaching 100% in the final year
+const getDistributionRate = (params: TakahashiAlexanderParams, year: number) => {
+  if (year >= params.lifespan) return 1
+  return Math.max(params.yield / 100, Math.pow(year / params.lifespan, params.bow))
+}
+
+// Project calls, distributions and NAV for a commitment using the Takahashi-Alexander model
+export const projectTakahashiAlexander = (
+  commitmentAmount: number,
+  params: TakahashiAlexanderParams
+): TakahashiAlexanderYear[] => {
+  const projection: TakahashiAlexanderYear[] = []
+  const growth = 1 + params.growthRate / 100
+  let paidIn = 0
+  let nav = 0
+
+  for (let year = 1; year <= params.lifespan; year++) {
+    const contributions = (commitmentAmount - paidIn) * getContributionRate(params, year)
+    const distributions = nav * growth * getDistributionRate(params, year)
+    nav = nav * growth + contributions - distributions
+    paidIn += contributions
+
+    projection.push({
+      year,
+      contributions,
+      distributions,
+      nav: Math.max(nav, 0)
+    })
+  }
+
+  return projection
+}
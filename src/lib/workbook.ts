@@ -0,0 +1,272 @@
+import type { Cell, Worksheet } from 'exceljs'
+
+// A cell read from an uploaded sheet
+export type SheetCellValue = string | number | boolean | Date | null
+
+export type WorkbookColumnKind = 'text' | 'integer' | 'number' | 'percent' | 'date'
+
+export interface WorkbookColumn {
+  header: string
+  key: string
+  kind?: WorkbookColumnKind // Defaults to 'text'
+  width?: number
+}
+
+// One sheet of a downloaded workbook. Percent columns take values in percentage points
+// (-25.5 is written as a -25.50% cell); date columns take Date objects or ISO strings.
+export interface WorkbookSheet {
+  name: string
+  columns: WorkbookColumn[]
+  rows: Record<string, unknown>[]
+}
+
+// Rows of an uploaded sheet keyed by the header text of their column
+export interface SheetTable {
+  sheetName: string
+  headers: string[]
+  rows: Record<string, SheetCellValue>[]
+  rowNumbers: number[] // 1-based row number in the file, for error messages
+}
+
+export interface ReadTableOptions {
+  requiredHeaders?: string[] // The header row is the first row containing all of these
+  sheetName?: string // Sheet to read first; otherwise every sheet is searched in order
+}
+
+const numberFormats: Record<WorkbookColumnKind, string | undefined> = {
+  text: undefined,
+  integer: '0',
+  number: '#,##0.00',
+  percent: '0.00%',
+  date: 'yyyy-mm-dd'
+}
+
+const HEADER_SEARCH_ROWS = 25
+
+// exceljs is large, so it is only loaded when a workbook is actually read or written
+const loadExcelJS = async () => (await import('exceljs')).default
+
+// Percentages are kept to a fixed precision so values survive the points/fraction conversion unchanged
+const roundPercentage = (value: number) => Math.round(value * 1e8) / 1e8
+
+export const isWorkbookFile = (file: File) => /\.xlsx$/i.test(file.name)
+
+// Quote-aware CSV parser (handles commas, quotes and line breaks inside quoted fields)
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+const escapeCsvField = (value: unknown) => {
+  const text = value instanceof Date ? value.toISOString().split('T')[0] : String(value ?? '')
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (rows: unknown[][]) => rows.map(row => row.map(escapeCsvField).join(',')).join('\n')
+
+// Normalise formulas, rich text and hyperlinks to their displayed value. Percentage-formatted
+// cells are returned in percentage points (a 25.5% cell reads as 25.5), matching CSV uploads.
+const readCellValue = (cell: Cell): SheetCellValue => {
+  let value = cell.value as unknown
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    if ('result' in value) value = (value as { result: unknown }).result
+    else if ('richText' in value) value = (value as { richText: { text: string }[] }).richText.map(part => part.text).join('')
+    else if ('text' in value) value = (value as { text: unknown }).text
+    else if ('error' in value) value = null
+  }
+
+  if (typeof value === 'number') {
+    return cell.numFmt?.includes('%') ? roundPercentage(value * 100) : value
+  }
+  if (typeof value === 'string') return value.trim()
+  if (typeof value === 'boolean' || value instanceof Date) return value
+  return null
+}
+
+const readWorksheetRows = (worksheet: Worksheet) => {
+  const rows: { rowNumber: number; values: SheetCellValue[] }[] = []
+  worksheet.eachRow((row, rowNumber) => {
+    const values: SheetCellValue[] = []
+    for (let col = 1; col <= worksheet.columnCount; col++) {
+      values.push(readCellValue(row.getCell(col)))
+    }
+    rows.push({ rowNumber, values })
+  })
+  return rows
+}
+
+const isBlankRow = (values: SheetCellValue[]) => values.every(value => value === null || value === '')
+
+// Turn raw rows into a table below the header row; rows starting with '#' are notes and are skipped
+const buildTable = (
+  sheetName: string,
+  rows: { rowNumber: number; values: SheetCellValue[] }[],
+  requiredHeaders: string[]
+): SheetTable | null => {
+  const required = requiredHeaders.map(header => header.toLowerCase())
+  const headerIndex = rows.slice(0, HEADER_SEARCH_ROWS).findIndex(row => {
+    const cells = row.values.map(value => String(value ?? '').trim().toLowerCase())
+    if (isBlankRow(row.values) || (cells[0] || '').startsWith('#')) return false
+    return required.every(header => cells.includes(header))
+  })
+  if (headerIndex === -1) return null
+
+  const headers = rows[headerIndex].values.map(value => String(value ?? '').trim())
+  const table: SheetTable = { sheetName, headers, rows: [], rowNumbers: [] }
+
+  rows.slice(headerIndex + 1).forEach(row => {
+    if (isBlankRow(row.values) || String(row.values[0] ?? '').startsWith('#')) return
+    const record: Record<string, SheetCellValue> = {}
+    headers.forEach((header, index) => {
+      if (header) record[header] = row.values[index] ?? null
+    })
+    table.rows.push(record)
+    table.rowNumbers.push(row.rowNumber)
+  })
+  return table
+}
+
+// Every table in an uploaded .xlsx or .csv file whose header row contains the required headers,
+// one per sheet in workbook order (a CSV file is a single sheet)
+export const readTables = async (file: File, requiredHeaders: string[] = []): Promise<SheetTable[]> => {
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Legacy .xls files are not supported. Please save the file as .xlsx or .csv.')
+  }
+
+  if (!isWorkbookFile(file)) {
+    const rows = parseCsv(await file.text()).map((values, index) => ({
+      rowNumber: index + 1,
+      values: values.map(value => value.trim() as SheetCellValue)
+    }))
+    const table = buildTable(file.name, rows, requiredHeaders)
+    return table ? [table] : []
+  }
+
+  const ExcelJS = await loadExcelJS()
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(await file.arrayBuffer())
+
+  return workbook.worksheets.flatMap(worksheet => {
+    const table = buildTable(worksheet.name, readWorksheetRows(worksheet), requiredHeaders)
+    return table ? [table] : []
+  })
+}
+
+// Read the first table whose header row contains the required headers, preferring options.sheetName
+export const readTable = async (file: File, options: ReadTableOptions = {}): Promise<SheetTable> => {
+  const requiredHeaders = options.requiredHeaders || []
+  const tables = await readTables(file, requiredHeaders)
+  const table = tables.find(t => t.sheetName === options.sheetName) || tables[0]
+
+  if (!table) {
+    throw new Error(isWorkbookFile(file)
+      ? `No sheet with the columns ${requiredHeaders.join(', ')} was found in the workbook`
+      : `No header row with the columns ${requiredHeaders.join(', ')} was found`)
+  }
+  return table
+}
+
+const writeCellValue = (value: unknown, kind: WorkbookColumnKind) => {
+  if (value === undefined || value === null || value === '') return null
+  switch (kind) {
+    case 'percent':
+      return roundPercentage(Number(value) / 100)
+    case 'integer':
+    case 'number':
+      return Number(value)
+    case 'date':
+      return value instanceof Date ? value : new Date(String(value))
+    default:
+      return String(value)
+  }
+}
+
+// Build an .xlsx workbook (bold, frozen header row and typed, formatted cells) and download it
+export const downloadWorkbook = async (filename: string, sheets: WorkbookSheet[]) => {
+  const ExcelJS = await loadExcelJS()
+  const workbook = new ExcelJS.Workbook()
+  workbook.created = new Date()
+
+  sheets.forEach(sheet => {
+    const worksheet = workbook.addWorksheet(sheet.name, { views: [{ state: 'frozen', ySplit: 1 }] })
+    worksheet.columns = sheet.columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: column.width || Math.max(column.header.length + 2, column.kind === 'text' || !column.kind ? 20 : 10),
+      style: numberFormats[column.kind || 'text'] ? { numFmt: numberFormats[column.kind || 'text'] } : {}
+    }))
+    worksheet.getRow(1).font = { bold: true }
+
+    sheet.rows.forEach(row => {
+      worksheet.addRow(Object.fromEntries(
+        sheet.columns.map(column => [column.key, writeCellValue(row[column.key], column.kind || 'text')])
+      ))
+    })
+  })
+
+  const buffer = await workbook.xlsx.writeBuffer()
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename.endsWith('.xlsx') ? filename : `${filename}.xlsx`
+  a.click()
+  window.URL.revokeObjectURL(url)
+}
+
+// Numeric cell value, accepting numbers typed as text (with thousands separators or a % sign)
+export const toNumber = (value: SheetCellValue | undefined): number | undefined => {
+  if (typeof value === 'number') return isFinite(value) ? value : undefined
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.replace(/[,%\s]/g, ''))
+    return isNaN(parsed) ? undefined : parsed
+  }
+  return undefined
+}
+
+// Cell value as trimmed text; missing columns read as an empty string
+export const toText = (value: SheetCellValue | undefined) => {
+  if (value instanceof Date) return value.toISOString().split('T')[0]
+  return value === null || value === undefined ? '' : String(value).trim()
+}
+
+// Header of a relative-year column ('Year 1', 'Y1', ...) as its year number
+export const parseYearHeader = (header: string) => {
+  const match = header.trim().match(/^(?:year|y)\s*(\d+)$/i)
+  return match ? parseInt(match[1]) : undefined
+}
@@ -10,6 +10,10 @@ export interface GeneralFund {
   carriedInterestRate?: number // Carried interest as percentage
   expectedLifespan: number // Expected fund life in years
   description?: string
+  projectionModel?: ProjectionModel // Overrides the fund type's projection model
+  takahashiAlexander?: TakahashiAlexanderParams // Overrides the fund type's Takahashi-Alexander parameters
+  feeTerms?: FundFeeTerms // Investment period and carry waterfall terms the fee engine applies
+  legacyFundId?: string // Legacy Fund this fund was migrated from
   createdAt: string
   updatedAt: string
   userId: string
@@ -20,6 +24,7 @@ export interface GeneralFundNetCashflow {
   id: string
   fundId: string
   year: number
+  quarter?: number // Quarter (1-4) within the relative year for quarterly curves; omitted on annual rows
   netCashflowPercentage: number // Net cashflow as percentage of commitment (negative = calls, positive = distributions)
   contributionsPercentage: number // Contributions/calls as percentage of commitment (always negative or zero)
   distributionsPercentage: number // Distributions as percentage of commitment (always positive or zero)
@@ -36,6 +41,8 @@ export interface PortfolioPosition {
   fundId: string // References GeneralFund
   commitmentAmount: number
   allocationPercentage: number
+  commitmentDate?: string // Commitment / first close date (ISO), maps relative curve years onto the calendar
+  expectationId?: string // Fund type library curve to project with instead of the fund's own cashflows
   createdAt: string
   updatedAt: string
   userId: string
@@ -48,13 +55,64 @@ export interface Portfolio {
   description?: string
   totalSize: number
   clientId?: string
+  allocationTargets?: AllocationTarget[] // Target bands the portfolio's exposure is checked against
+  legacyPositionType?: ClientFundPosition['positionType'] // Set on portfolios migrated from a client's legacy positions
   createdAt: string
   updatedAt: string
   userId: string
 }
 
+// Fund attribute an allocation target applies to
+export type AllocationDimension = 'fundType' | 'strategy' | 'geography' | 'vintage'
+
+// Target band for the share of a portfolio in one fund type, strategy, geography or vintage year,
+// e.g. 40-50% Buyout or at most 20% Asia
+export interface AllocationTarget {
+  id: string
+  dimension: AllocationDimension
+  value: string // Fund type, strategy or geography name, or vintage year
+  min?: number // Minimum share in %
+  max?: number // Maximum share in %
+}
+
+export type AllocationStatus = 'within' | 'below' | 'above'
+
+// Exposure of a portfolio against one allocation target
+export interface AllocationTargetCheck {
+  target: AllocationTarget
+  committedShare: number // % of total commitment
+  committedStatus: AllocationStatus
+  navShare?: number // % of projected NAV, undefined when the portfolio has no projected NAV
+  navStatus?: AllocationStatus
+}
+
 // Client information
 export interface Client {
+  id: string
+  name: string
+  description?: string
+  entityType?: ClientEntityType
+  householdId?: string // Household the entity belongs to
+  mandate?: ClientMandate
+  archivedAt?: string // Archived clients are kept for their portfolios but hidden from selection
+  createdAt: string
+  updatedAt: string
+  userId: string
+}
+
+export type ClientEntityType = 'individual' | 'trust' | 'company' | 'foundation' | 'pension' | 'endowment'
+
+// Investment mandate of a client
+export interface ClientMandate {
+  totalInvestableAssets: number // In the base currency
+  privateMarketsTarget: number // Target share of investable assets in private markets, in %
+  annualLiquidityNeed: number // Cash the client needs to draw each year, in the base currency
+  baseCurrency: string // ISO code, e.g. USD
+  notes?: string
+}
+
+// Group of related client entities, e.g. a family's trusts and holding companies
+export interface Household {
   id: string
   name: string
   description?: string
@@ -112,20 +170,129 @@ export interface CashflowAnalysis {
   totalDistributions: number
   netCashflow: number
   currentNav: number
-  multiple: number
-  irr?: number
+  multiple: number // Total value to paid-in (TVPI)
+  dpi: number // Distributions to paid-in
+  rvpi: number // Residual value (NAV) to paid-in
+  irr?: number // Annualised XIRR as percentage, undefined when it cannot be solved
+  pme?: number // Kaplan-Schoar PME, only when a benchmark index is supplied
+}
+
+// Public market index level used as the PME benchmark
+export interface BenchmarkIndexLevel {
+  id: string
+  date: string // ISO date of the observation
+  value: number
+  createdAt: string
+  updatedAt: string
 }
 
+// An index level as entered, before it is saved
+export type BenchmarkIndexObservation = Pick<BenchmarkIndexLevel, 'date' | 'value'>
+
+// How projected cashflows are generated: replay the fixed patterns or run the Takahashi-Alexander (Yale) model
+export type ProjectionModel = 'pattern' | 'takahashi-alexander'
+
+// Takahashi-Alexander (Yale) model inputs, all rates as percentages
+export interface TakahashiAlexanderParams {
+  contributionRates: number[] // Rate of contribution by year as % of remaining unfunded commitment (last rate repeats)
+  bow: number // Bow factor shaping the distribution rate over the fund life
+  growthRate: number // Annual NAV growth rate
+  yield: number // Minimum annual distribution rate as % of NAV
+  lifespan: number // Fund life in years, NAV is fully distributed in the final year
+}
+
+// Carry waterfall: European is whole-fund (carry once all LP capital and hurdle are returned),
+// American is deal-by-deal (carry on each realisation)
+export type CarryWaterfallType = 'european' | 'american'
+
+// Fee and carry terms applied to gross curves, rates as percentages
+export interface FundFeeTerms {
+  investmentPeriodYears: number // Management fee is charged on commitment during this period, on invested capital afterwards
+  waterfallType: CarryWaterfallType
+  hurdleRate: number // Annual preferred return to the LP
+  catchUpRate: number // Share of distributions to the GP above the hurdle until it holds its carry share (100 = full catch-up)
+}
+
+// Whether projected cashflows are shown before or after fees and carry
+export type CashflowBasis = 'gross' | 'net'
+
+// Fund type library entry: expected curves of a fund type, or of a sub-strategy within it.
+// Patterns are percentages of commitment per year of the fund life.
 export interface FundTypeExpectation {
+  id: string
   fundType: string
+  strategy?: string // Sub-strategy; omitted on the fund type's default curve
   avgLifespan: number
   callPattern: number[]
   distributionPattern: number[]
   navPattern: number[]
   avgMultiple: number
   avgIRR: number
+  managementFeeRate?: number // Default annual management fee as percentage
+  carriedInterestRate?: number // Default carried interest as percentage
   managementFeePattern?: number[]
   carriedInterestPattern?: number[]
+  projectionModel?: ProjectionModel // Defaults to 'pattern'
+  takahashiAlexander?: TakahashiAlexanderParams
+  peerGroup?: PeerCurveSource // Set on curves built from general database peers
+  createdAt?: string // Set once the entry is saved to the user's library
+  updatedAt?: string
+}
+
+// Funds of the general database a peer curve is built from; unset fields do not filter
+export interface PeerGroupFilter {
+  fundType?: string
+  strategy?: string
+  geography?: string
+  vintageFrom?: number
+  vintageTo?: number
+}
+
+export type PeerStatistic = 'mean' | 'median' | 'lowerQuartile' | 'upperQuartile'
+
+// Distribution of one curve value across the peers with data for that year
+export interface PeerStatistics {
+  mean: number
+  median: number
+  lowerQuartile: number
+  upperQuartile: number
+}
+
+// Peer curves per relative year, in percentage points of commitment (contributions positive)
+export interface PeerCurveYear {
+  year: number
+  fundCount: number // Peers with cashflows in this year
+  contributions: PeerStatistics
+  distributions: PeerStatistics
+  nav: PeerStatistics
+}
+
+// How a library curve was derived from peers
+export interface PeerCurveSource extends PeerGroupFilter {
+  statistic: PeerStatistic
+  fundCount: number
+  builtAt: string // ISO date
+}
+
+export type BenchmarkMetric = 'tvpi' | 'dpi' | 'irr'
+
+// Performance of a general fund from its stored curve, as fractions of commitment
+export interface GeneralFundPerformance {
+  fundId: string
+  paidIn: number
+  distributed: number
+  nav: number // NAV of the latest period
+  tvpi?: number // Undefined until the fund has called capital
+  dpi?: number
+  irr?: number // Annualised XIRR as percentage, undefined when it cannot be solved
+}
+
+// A fund's quartile rank among funds of the same vintage and strategy (1 = top quartile)
+export interface FundBenchmark {
+  fundId: string
+  performance: GeneralFundPerformance
+  peerCount: number // Peers with cashflow data, including the fund itself
+  quartiles: Partial<Record<BenchmarkMetric, number>>
 }
 
 export interface CashflowExpectation {
@@ -137,24 +304,92 @@ export interface CashflowExpectation {
   managementFees?: number
   carriedInterest?: number
   taxes?: number
+  otherDeductions?: number
+  ruleDeductions?: FundRuleDeduction[] // Set when fund rules were applied to the projection
   isProjected: boolean
 }
 
+// Forward projection of a fund re-based on its actual cashflows to date
+export interface FundReprojection {
+  lastActualYear?: number // Latest year with actuals; undefined when the fund has none
+  paidIn: number // Actual calls to date
+  distributed: number // Actual distributions to date
+  currentNav: number // Latest reported NAV
+  unfundedCommitment: number // Commitment not yet called
+  cashflows: CashflowExpectation[] // Projected years after the last actual year
+}
+
+// Shocks a scenario applies to projected cashflows; all zero leaves the projection unchanged
+export interface ScenarioShocks {
+  callSpeed: number // Change in the pace of capital calls (%): 25 calls 25% faster, -25 slower
+  distributionDelay: number // Years distributions are pushed out (negative brings them forward)
+  multipleHaircut: number // Reduction of distributions (%)
+  navMarkdown: number // Mark-down of NAV (%)
+}
+
 export interface PortfolioScenario {
   id: string
   name: string
-  type: 'conservative' | 'neutral' | 'positive'
-  multiplier: number
+  type: 'conservative' | 'neutral' | 'positive' | 'custom'
+  multiplier: number // Scales distributions and NAV; 1 on user-defined scenarios
+  description: string
+  shocks?: ScenarioShocks
+  shocksByFundType?: Record<string, ScenarioShocks> // Replace the shocks for funds of these types
+  createdAt?: string // Set on user-defined scenarios
+  updatedAt?: string
+}
+
+// Liquidity stress scenario applied to projected calls and distributions
+export interface LiquidityStressScenario {
+  id: string
+  name: string
+  callAcceleration: number // Extra calls during the stress as percentage of projected calls
+  distributionReduction: number // Share of projected distributions withheld during the stress (%)
+  durationYears: number // Number of years the stress lasts from the start year
   description: string
 }
 
+// Base projection of one year's calls and distributions for liquidity analysis
+export interface LiquidityProjectionYear {
+  year: number
+  calls: number // Projected capital calls (positive amount)
+  distributions: number
+}
+
+export interface LiquidityStressYear {
+  year: number
+  openingLiquidity: number
+  calls: number
+  distributions: number
+  otherInflows: number
+  closingLiquidity: number // Negative when calls cannot be funded
+  unfundedCommitments: number // Remaining unfunded commitments after the year's calls
+  coverageRatio?: number // Resources available in the year divided by calls, undefined when nothing is called
+}
+
 // Waterfall chart data structure
+// Period length used by cashflow views
+export type CashflowGranularity = 'annual' | 'quarterly'
+
+// How an annual curve value is split over the four quarters of its year
+export type QuarterlySpreadRuleId = 'even' | 'front-loaded' | 'back-loaded' | 'year-end'
+
+export interface QuarterlySpreadRule {
+  id: QuarterlySpreadRuleId
+  name: string
+  weights: number[] // Share of the annual calls and distributions falling in Q1-Q4 (sums to 1)
+  description: string
+}
+
 export interface WaterfallChartData {
-  year: number
+  year: number // Calendar year
+  quarter?: number // Calendar quarter (1-4) when aggregated quarterly
+  period: string // Display label, e.g. '2025' or '2025 Q3'
   contributions: number // Always negative or zero
   distributions: number // Always positive or zero
   netCashflow: number // contributions + distributions
   cumulativeNet: number // Running total
+  nav?: number // Portfolio NAV at the end of the period
 }
 
 // Portfolio analysis result
@@ -163,12 +398,75 @@ export interface PortfolioAnalysis {
   positions: PortfolioPosition[]
   waterfallData: WaterfallChartData[]
   totalCommitment: number
-  peakOutflow: { year: number; amount: number }
-  peakInflow: { year: number; amount: number }
+  peakOutflow: { year: number; period: string; amount: number }
+  peakInflow: { year: number; period: string; amount: number }
   breakEvenYear?: number
   finalCumulative: number
 }
 
+// One portfolio in a side-by-side comparison
+export interface PortfolioComparisonEntry {
+  portfolio: Portfolio
+  positions: PortfolioPosition[]
+  analysis: PortfolioAnalysis | null // null when the portfolio has no cashflows to analyze
+}
+
+// Forward commitment pacing planner inputs
+export interface PacingPlanInput {
+  startYear: number
+  horizonYears: number
+  totalPlanSize: number // Total plan size in the start year
+  planGrowthRate: number // Annual growth of the total plan as percentage
+  targetType: 'allocation' | 'nav'
+  targetAllocation: number // Private-markets target as percentage of the total plan
+  targetNav: number // Fixed target NAV amount
+  fundTypeMix: Record<string, number> // Commitment split by fund type as percentages
+}
+
+// One vintage year of a solved pacing plan
+export interface PacingPlanYear {
+  year: number
+  totalPlanSize: number
+  targetNav: number
+  commitments: Record<string, number> // Commitment by fund type
+  totalCommitment: number
+  calls: number
+  distributions: number
+  projectedNav: number
+  allocationPercentage: number // Projected NAV as percentage of the total plan
+}
+
+// Monte Carlo simulation settings for portfolio cashflows
+export interface MonteCarloConfig {
+  paths: number // Number of simulated paths
+  seed: number // Random seed so runs are reproducible
+  callTimingStdDev: number // Standard deviation of the call timing shift in years
+  distributionTimingStdDev: number // Standard deviation of the distribution timing shift in years
+  multipleDistribution: 'normal' | 'lognormal' // Shape of the fund multiple shock
+  multipleVolatility: number // Standard deviation of the fund multiple shock as percentage
+  fundTypeCorrelation: number // Correlation of shocks across fund types (0-1)
+  liquidityLimit: number // Maximum tolerated cumulative net outflow
+}
+
+export interface PercentileBand {
+  p5: number
+  p50: number
+  p95: number
+}
+
+export interface MonteCarloYear {
+  year: number
+  netCashflow: PercentileBand
+  cumulativeNet: PercentileBand
+  nav: PercentileBand
+}
+
+export interface MonteCarloResult {
+  years: MonteCarloYear[]
+  breachProbability: number // Percentage of paths whose cumulative outflow exceeds the liquidity limit
+  paths: number
+}
+
 // Excel upload types
 export interface ExcelTemplate {
   fundName: string
@@ -207,11 +505,20 @@ export interface FundRule {
   ruleName: string
   ruleValue: number
   ruleDescription?: string
+  isActive?: boolean // Rules apply to projections unless switched off
   createdAt: string
   updatedAt: string
   userId: string
 }
 
+// Amount one fund rule deducted from a projected period
+export interface FundRuleDeduction {
+  ruleId: string
+  ruleName: string
+  ruleType: FundRule['ruleType']
+  amount: number
+}
+
 export interface ExcelCashflowUpload {
   fundName: string
   vintage: number
@@ -232,9 +539,50 @@ export interface GeneralFundUpload {
   carriedInterestRate?: number
   yearlyNetCashflows: {
     year: number
+    quarter?: number // Set on quarterly curves
     netCashflowPercentage: number
     contributionsPercentage: number
     distributionsPercentage: number
     navPercentage: number
   }[]
-}
\ No newline at end of file
+}
+
+// Gross cashflows of one year (or quarter) in the bulk fund upload, in percentage points of commitment
+export interface FundUploadCashflow {
+  year: number
+  quarter?: number // Set when the series is quarterly
+  contributions: number // Always negative or zero
+  distributions: number // Always positive or zero
+  nav: number // NAV at the end of the period
+}
+
+// Row of the bulk fund upload workbook; year columns (1-12) hold net cashflow in percentage points
+export interface FundUploadRow {
+  fund: string
+  vintage: number
+  type: string
+  subtype: string
+  geography: string
+  cashflows?: FundUploadCashflow[] // Gross series; when present the year columns are derived from it
+  [year: number]: number
+}
+
+// Import wizard: fields of GeneralFundUpload a source column can be mapped to
+export type FundImportField =
+  | 'fundName' | 'vintage' | 'fundType' | 'strategy' | 'geography'
+  | 'expectedLifespan' | 'managementFeeRate' | 'carriedInterestRate'
+
+// Mapping target of a source column; `year:3` is the net cashflow of relative year 3
+export type FundImportTarget = FundImportField | `year:${number}` | 'ignore'
+
+export interface FundImportIssue {
+  severity: 'error' | 'warning' // Rows with errors are not imported
+  column?: string // Source column the issue refers to
+  message: string
+}
+
+export interface FundImportRow {
+  rowNumber: number // Row in the source file
+  upload: GeneralFundUpload
+  issues: FundImportIssue[]
+}